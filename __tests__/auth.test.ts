@@ -0,0 +1,123 @@
+import { MemStorage } from "../server/storage";
+import { comparePasswords, hashPassword } from "../server/auth";
+import { startTestServer, type TestServer } from "./support/http";
+
+describe("password hashing", () => {
+  it("verifies the original password", async () => {
+    const hashed = await hashPassword("correct horse");
+    expect(hashed).not.toContain("correct horse");
+    expect(await comparePasswords("correct horse", hashed)).toBe(true);
+  });
+
+  it("rejects a different password", async () => {
+    const hashed = await hashPassword("correct horse");
+    expect(await comparePasswords("battery staple", hashed)).toBe(false);
+  });
+
+  it("salts each hash", async () => {
+    expect(await hashPassword("correct horse")).not.toBe(await hashPassword("correct horse"));
+  });
+});
+
+describe("auth routes", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const credentials = { username: "joe", password: "popcorn-time" };
+
+  describe("POST /api/auth/register", () => {
+    it("creates the user, logs them in and hides the password", async () => {
+      const agent = server.agent();
+
+      const res = await agent.request("POST", "/api/auth/register", credentials);
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ id: expect.any(Number), username: "joe" });
+      expect(res.body.password).toBeUndefined();
+
+      const me = await agent.request("GET", "/api/auth/me");
+      expect(me.status).toBe(200);
+      expect(me.body).toMatchObject({ username: "joe" });
+    });
+
+    it("stores a hashed password", async () => {
+      await server.request("POST", "/api/auth/register", credentials);
+
+      const user = await storage.getUserByUsername("joe");
+      expect(user?.password).not.toBe(credentials.password);
+    });
+
+    it.each([
+      { username: "jo", password: "popcorn-time" },
+      { username: "joe", password: "short" },
+      {},
+    ])("returns 400 Invalid fields for %p", async (body) => {
+      const res = await server.request("POST", "/api/auth/register", body);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 409 for a taken username", async () => {
+      await server.request("POST", "/api/auth/register", credentials);
+
+      const res = await server.request("POST", "/api/auth/register", credentials);
+      expect(res.status).toBe(409);
+      expect(res.body).toEqual({ error: "Username taken" });
+    });
+  });
+
+  describe("POST /api/auth/login", () => {
+    beforeEach(async () => {
+      await server.request("POST", "/api/auth/register", credentials);
+    });
+
+    it("logs in with the right password", async () => {
+      const agent = server.agent();
+
+      const res = await agent.request("POST", "/api/auth/login", credentials);
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ username: "joe" });
+      expect(res.body.password).toBeUndefined();
+      expect((await agent.request("GET", "/api/auth/me")).status).toBe(200);
+    });
+
+    it("returns 401 for a wrong password", async () => {
+      const res = await server.request("POST", "/api/auth/login", { ...credentials, password: "wrong-password" });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Invalid username or password" });
+    });
+
+    it("returns 401 for an unknown user", async () => {
+      const res = await server.request("POST", "/api/auth/login", { ...credentials, username: "nobody" });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Invalid username or password" });
+    });
+  });
+
+  describe("POST /api/auth/logout", () => {
+    it("ends the session", async () => {
+      const agent = server.agent();
+      await agent.request("POST", "/api/auth/register", credentials);
+
+      const res = await agent.request("POST", "/api/auth/logout");
+      expect(res.status).toBe(204);
+      expect((await agent.request("GET", "/api/auth/me")).status).toBe(401);
+    });
+  });
+
+  describe("GET /api/auth/me", () => {
+    it("returns 401 when not logged in", async () => {
+      const res = await server.request("GET", "/api/auth/me");
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { bayesianScore, chartMinVotes, DEFAULT_CHART_MIN_VOTES } from "../server/charts";
+
+describe("bayesianScore", () => {
+  it("is the prior when a movie has no votes", () => {
+    expect(bayesianScore(0, 0, 5, 3.5)).toBe(3.5);
+  });
+
+  it("weighs the movie mean and the prior equally at the minimum vote count", () => {
+    expect(bayesianScore(5, 5, 5, 3)).toBe(4);
+  });
+
+  it("approaches the movie mean as votes grow", () => {
+    expect(bayesianScore(5, 1000, 5, 3)).toBeCloseTo(4.99, 2);
+  });
+
+  it("ranks many strong votes above a single perfect one", () => {
+    expect(bayesianScore(4.8, 40, 5, 3.5)).toBeGreaterThan(bayesianScore(5, 1, 5, 3.5));
+  });
+});
+
+describe("chartMinVotes", () => {
+  const original = process.env.CHART_MIN_VOTES;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.CHART_MIN_VOTES;
+    else process.env.CHART_MIN_VOTES = original;
+  });
+
+  it("reads CHART_MIN_VOTES", () => {
+    process.env.CHART_MIN_VOTES = "10";
+    expect(chartMinVotes()).toBe(10);
+  });
+
+  it.each(["", "0", "-3", "2.5", "many"])("falls back to the default for %p", (value) => {
+    process.env.CHART_MIN_VOTES = value;
+    expect(chartMinVotes()).toBe(DEFAULT_CHART_MIN_VOTES);
+  });
+});
@@ -0,0 +1,29 @@
+import type { RatingCriterion } from "@shared/schema";
+import { UnknownCriterionError, resolveCriterionScores, toCriterionAverages } from "../server/criteria";
+
+const criteria: RatingCriterion[] = [
+  { id: 1, slug: "story", name: "Story", position: 1 },
+  { id: 2, slug: "visual-effects", name: "Visual Effects", position: 0 },
+];
+
+describe("resolveCriterionScores", () => {
+  it("matches criteria by name or slug", () => {
+    expect(resolveCriterionScores({ STORY: 4, "visual effects": 2 }, criteria)).toEqual([
+      { criterionId: 1, score: 4 },
+      { criterionId: 2, score: 2 },
+    ]);
+  });
+
+  it("throws for a criterion that doesn't exist", () => {
+    expect(() => resolveCriterionScores({ story: 4, pacing: 2 }, criteria)).toThrow(UnknownCriterionError);
+  });
+});
+
+describe("toCriterionAverages", () => {
+  it("averages every criterion in position order, 0 without scores", () => {
+    expect(toCriterionAverages(criteria, [{ criterionId: 1, sum: 11, count: 3 }])).toEqual([
+      { ...criteria[1], avgScore: 0, totalScores: 0 },
+      { ...criteria[0], avgScore: 3.7, totalScores: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { InvalidCronError, nextCronRun, parseCron } from "../server/cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  it("expands ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 9-17/4 1,15 * 1-5");
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 13, 17]);
+    expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("reads a number with a step as running to the field's end", () => {
+    expect(Array.from(parseCron("50/5 * * * *").minutes)).toEqual([50, 55]);
+  });
+
+  it("takes 7 as Sunday", () => {
+    expect(Array.from(parseCron("0 0 * * 7").daysOfWeek)).toEqual([0]);
+  });
+
+  it.each([
+    ["* * * *", "expected 5 fields"],
+    ["60 * * * *", "minute 60 is outside 0-59"],
+    ["* * 0 * *", "day of month 0 is outside 1-31"],
+    ["*/0 * * * *", "step can't be 0"],
+    ["5-1 * * * *", "backwards"],
+    ["a * * * *", 'bad minute "a"'],
+    ["1-2-3 * * * *", "bad minute"],
+  ])("rejects %s", (cron, message) => {
+    expect(() => parseCron(cron)).toThrow(InvalidCronError);
+    expect(() => parseCron(cron)).toThrow(message);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute, strictly after the given time", () => {
+    expect(nextCronRun("* * * * *", at("2024-03-10T12:00:00Z"))).toEqual(at("2024-03-10T12:01:00Z"));
+    expect(nextCronRun("* * * * *", at("2024-03-10T12:00:59.999Z"))).toEqual(at("2024-03-10T12:01:00Z"));
+    expect(nextCronRun("30 3 * * *", at("2024-03-10T03:30:00Z"))).toEqual(at("2024-03-11T03:30:00Z"));
+    expect(nextCronRun("30 3 * * *", at("2024-03-10T01:00:00Z"))).toEqual(at("2024-03-10T03:30:00Z"));
+  });
+
+  it("rolls over hours, days, months and years", () => {
+    expect(nextCronRun("0 * * * *", at("2024-03-10T23:30:00Z"))).toEqual(at("2024-03-11T00:00:00Z"));
+    expect(nextCronRun("0 0 1 * *", at("2024-12-15T00:00:00Z"))).toEqual(at("2025-01-01T00:00:00Z"));
+    expect(nextCronRun("0 12 29 2 *", at("2024-03-01T00:00:00Z"))).toEqual(at("2028-02-29T12:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th, or any Friday.
+    expect(nextCronRun("0 0 13 * 5", at("2024-09-01T00:00:00Z"))).toEqual(at("2024-09-06T00:00:00Z"));
+    expect(nextCronRun("0 0 13 * 5", at("2024-09-10T00:00:00Z"))).toEqual(at("2024-09-13T00:00:00Z"));
+    // Only Mondays when the day of month is *.
+    expect(nextCronRun("0 0 * * 1", at("2024-09-01T00:00:00Z"))).toEqual(at("2024-09-02T00:00:00Z"));
+  });
+
+  it("rejects expressions that never match", () => {
+    expect(() => nextCronRun("0 0 31 2 *", at("2024-01-01T00:00:00Z"))).toThrow("never matches");
+  });
+});
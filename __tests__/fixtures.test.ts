@@ -0,0 +1,247 @@
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FixtureError, loadFixtures, readFixtureSet, type Fixtures } from "../server/fixtures";
+import { comparePasswords } from "../server/auth";
+import { MemStorage } from "../server/storage";
+
+describe("readFixtureSet", () => {
+  let dir: string;
+
+  const writeSet = async (files: Record<string, string>) => {
+    await mkdir(path.join(dir, "custom"));
+    for (const [name, contents] of Object.entries(files)) {
+      await writeFile(path.join(dir, "custom", name), contents);
+    }
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each(["demo", "test"])("reads the committed %s set", async (name) => {
+    const fixtures = await readFixtureSet(name);
+    expect(fixtures.movies.length).toBeGreaterThan(0);
+    expect(fixtures.ratings.length).toBeGreaterThan(0);
+  });
+
+  it("merges JSON and YAML files in filename order", async () => {
+    await writeSet({
+      "a.json": JSON.stringify({ movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }] }),
+      "b.yaml": "users:\n  - { username: ann, password: popcorn-time }\nratings:\n  - { movie: { title: Heat, year: 1995 }, score: 4, user: ann }\n",
+      "notes.txt": "ignored",
+    });
+
+    expect(await readFixtureSet("custom", dir)).toEqual({
+      users: [{ username: "ann", password: "popcorn-time" }],
+      genres: [],
+      criteria: [],
+      movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }],
+      ratings: [{ movie: { title: "Heat", year: 1995 }, score: 4, user: "ann" }],
+      credits: [],
+    });
+  });
+
+  it.each([
+    ["an unknown movie", { ratings: [{ movie: { title: "Heat", year: 1995 }, score: 4 }] }, /unknown movie "Heat \(1995\)"/],
+    [
+      "an unknown user",
+      {
+        movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }],
+        ratings: [{ movie: { title: "Heat", year: 1995 }, score: 4, user: "ann" }],
+      },
+      /unknown user "ann"/,
+    ],
+    [
+      "a duplicate movie",
+      { movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }, { title: "Heat", year: 1995, genres: ["Drama"] }] },
+      /Duplicate movie/,
+    ],
+    ["an out-of-range score", { movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }], ratings: [{ movie: { title: "Heat", year: 1995 }, score: 6 }] }, /ratings\.0\.score/],
+    ["a half-star score", { movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }], ratings: [{ movie: { title: "Heat", year: 1995 }, score: 3.5 }] }, /ratings\.0\.score: Scores are whole stars/],
+    [
+      "a duplicate genre",
+      { genres: [{ name: "Sci-Fi", color: "#9333ea" }, { name: "sci fi", color: "#4f46e5" }] },
+      /Duplicate genre "sci fi"/,
+    ],
+    [
+      "a credit on an unknown movie",
+      { credits: [{ movie: { title: "Heat", year: 1995 }, person: "Michael Mann", role: "director" }] },
+      /Credit refers to unknown movie "Heat \(1995\)"/,
+    ],
+    [
+      "a duplicate credit",
+      {
+        movies: [{ title: "Heat", year: 1995, genres: ["Crime"] }],
+        credits: [
+          { movie: { title: "Heat", year: 1995 }, person: "Michael Mann", role: "director" },
+          { movie: { title: "Heat", year: 1995 }, person: "Michael Mann", role: "director" },
+        ],
+      },
+      /Duplicate credit: Michael Mann as director/,
+    ],
+    [
+      "a duplicate criterion",
+      { criteria: [{ name: "Visuals" }, { name: "visuals" }] },
+      /Duplicate criterion "visuals"/,
+    ],
+    [
+      "a movie older than film",
+      { movies: [{ title: "Heat", year: 1795, genres: ["Crime"] }] },
+      /Movie "Heat \(1795\)": year must be from 1888/,
+    ],
+    ["a malformed genre color", { genres: [{ name: "Crime", color: "red" }] }, /genres\.0\.color/],
+    ["an unknown section", { films: [] }, /Unrecognized key/],
+  ])("rejects %s", async (_, contents, message) => {
+    await writeSet({ "set.json": JSON.stringify(contents) });
+
+    await expect(readFixtureSet("custom", dir)).rejects.toThrow(message);
+  });
+
+  it("rejects an unknown set", async () => {
+    await expect(readFixtureSet("nope", dir)).rejects.toThrow(FixtureError);
+  });
+});
+
+describe("loadFixtures", () => {
+  const fixtures: Fixtures = {
+    users: [{ username: "ann", password: "popcorn-time" }],
+    genres: [{ name: "Crime", color: "#dc2626" }],
+    criteria: [{ name: "Story" }, { name: "Acting" }],
+    movies: [
+      { title: "Heat", year: 1995, genres: ["Crime"] },
+      { title: "Alien", year: 1979, genres: ["Sci-Fi"] },
+    ],
+    ratings: [
+      { movie: { title: "Heat", year: 1995 }, score: 5 },
+      { movie: { title: "Heat", year: 1995 }, score: 3, user: "ann", criteria: { story: 4, Acting: 5 } },
+    ],
+    credits: [
+      { movie: { title: "Heat", year: 1995 }, person: "Michael Mann", role: "director" },
+      { movie: { title: "Heat", year: 1995 }, person: "Michael Mann", role: "writer" },
+      { movie: { title: "Heat", year: 1995 }, person: "Al Pacino", role: "actor", character: "Vincent Hanna", billingOrder: 1 },
+    ],
+  };
+
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("creates users with hashed passwords, genres, criteria, movies, ratings and credits", async () => {
+    expect(await loadFixtures(storage, fixtures)).toEqual({
+      users: 1,
+      genres: 1,
+      criteria: 2,
+      movies: 2,
+      ratings: 2,
+      people: 2,
+      credits: 3,
+    });
+
+    const ann = await storage.getUserByUsername("ann");
+    expect(await comparePasswords("popcorn-time", ann!.password)).toBe(true);
+    const heat = (await storage.getAllMovies()).find((m) => m.title === "Heat")!;
+    expect(heat).toMatchObject({ avgRating: 4, totalRatings: 2, genres: [{ slug: "crime", color: "#dc2626" }] });
+    expect(await storage.getUserRating(heat.id, ann!.id)).toBe(3);
+    expect(await storage.getUserCriterionScores(heat.id, ann!.id)).toEqual({ story: 4, acting: 5 });
+    expect((await storage.getMovieCredits(heat.id)).map((c) => `${c.person.name} (${c.role})`)).toEqual([
+      "Al Pacino (actor)",
+      "Michael Mann (director)",
+      "Michael Mann (writer)",
+    ]);
+  });
+
+  it("rescales scores onto the configured rating scale", async () => {
+    const original = process.env.RATING_SCALE_MAX;
+    process.env.RATING_SCALE_MAX = "10";
+    try {
+      await loadFixtures(storage, fixtures);
+    } finally {
+      if (original === undefined) delete process.env.RATING_SCALE_MAX;
+      else process.env.RATING_SCALE_MAX = original;
+    }
+
+    const ann = await storage.getUserByUsername("ann");
+    const heat = (await storage.getAllMovies()).find((m) => m.title === "Heat")!;
+    expect(heat).toMatchObject({ avgRating: 8, totalRatings: 2 });
+    expect(await storage.getUserRating(heat.id, ann!.id)).toBe(6);
+    expect(await storage.getUserCriterionScores(heat.id, ann!.id)).toEqual({ story: 8, acting: 10 });
+  });
+
+  it("refuses to load into a store that already has movies", async () => {
+    await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+    await expect(loadFixtures(storage, fixtures)).rejects.toThrow(/--reset or --append/);
+  });
+
+  it("replaces existing data with reset", async () => {
+    await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+    await loadFixtures(storage, fixtures, "reset");
+
+    expect((await storage.getAllMovies()).map((m) => m.title)).toEqual(["Alien", "Heat"]);
+  });
+
+  it.each([
+    ["a movie year outside the year rule", { movies: [...fixtures.movies, { title: "Jaws", year: 2975, genres: [] }] }, /Movie "Jaws \(2975\)"/],
+    [
+      "a score for an unknown criterion",
+      { ratings: [...fixtures.ratings, { movie: { title: "Alien", year: 1979 }, score: 4, criteria: { pacing: 3 } }] },
+      /unknown criterion "pacing"/,
+    ],
+  ])("leaves the store alone on reset with %s", async (_, changes, message) => {
+    await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+    await storage.saveCriterion({ name: "Pacing" });
+
+    await expect(loadFixtures(storage, { ...fixtures, ...changes }, "reset")).rejects.toThrow(message);
+    expect((await storage.getAllMovies()).map((m) => m.title)).toEqual(["Casablanca"]);
+    expect(await storage.getUserByUsername("ann")).toBeUndefined();
+  });
+
+  it("reuses movies and users by natural key with append", async () => {
+    await loadFixtures(storage, fixtures);
+
+    expect(await loadFixtures(storage, fixtures, "append")).toEqual({
+      users: 0,
+      genres: 1,
+      criteria: 2,
+      movies: 0,
+      ratings: 2,
+      people: 0,
+      credits: 0,
+    });
+    const heat = (await storage.getAllMovies()).find((m) => m.title === "Heat");
+    // The anonymous rating is added again; ann's second rating replaces the first.
+    expect(heat).toMatchObject({ totalRatings: 3 });
+  });
+
+  it("reuses people by name for credits on newly appended movies", async () => {
+    await loadFixtures(storage, fixtures);
+
+    const summary = await loadFixtures(
+      storage,
+      {
+        users: [],
+        genres: [],
+        criteria: [],
+        movies: [{ title: "The Insider", year: 1999, genres: ["Drama"] }],
+        ratings: [],
+        credits: [
+          { movie: { title: "The Insider", year: 1999 }, person: "Michael Mann", role: "director" },
+          { movie: { title: "The Insider", year: 1999 }, person: "Russell Crowe", role: "actor" },
+        ],
+      },
+      "append",
+    );
+
+    expect(summary).toMatchObject({ people: 1, credits: 2 });
+    const [mann] = await storage.listPeople({ q: "Michael Mann", limit: 10 });
+    expect((await storage.getPerson(mann.id))!.filmography.map((f) => f.title)).toEqual(["The Insider", "Heat"]);
+  });
+});
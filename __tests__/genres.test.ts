@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { GENRE_SEPARATORS, defaultGenreColor, genreSlug, splitGenres } from "../server/genres";
+
+describe("genreSlug", () => {
+  it.each([
+    ["Sci-Fi", "sci-fi"],
+    ["sci fi", "sci-fi"],
+    ["  SCI -- FI ", "sci-fi"],
+    ["Science Fiction", "sci-fi"],
+    ["SciFi", "sci-fi"],
+    ["Film-Noir", "film-noir"],
+    ["Rock & Roll", "rock-roll"],
+  ])("slugs %p as %p", (name, slug) => {
+    expect(genreSlug(name)).toBe(slug);
+  });
+});
+
+describe("splitGenres", () => {
+  it("splits on commas, semicolons, slashes and bars but keeps names with &", () => {
+    expect(splitGenres("Crime/Drama, Rock & Roll;|Sci-Fi | ")).toEqual(["Crime", "Drama", "Rock & Roll", "Sci-Fi"]);
+  });
+
+  it("uses the separators migration 0002 split movies.genre on", () => {
+    const sql = readFileSync(path.join(__dirname, "../migrations/0002_genres.sql"), "utf-8");
+    const [, separators] = sql.match(/regexp_split_to_table\("movies"\."genre", '([^']*)'\)/)!;
+    expect(separators).toBe(GENRE_SEPARATORS.source);
+  });
+});
+
+describe("defaultGenreColor", () => {
+  it("is a stable hex color per slug", () => {
+    expect(defaultGenreColor("western")).toMatch(/^#[0-9a-f]{6}$/);
+    expect(defaultGenreColor("western")).toBe(defaultGenreColor("western"));
+  });
+});
@@ -0,0 +1,242 @@
+import { MemStorage } from "../server/storage";
+import {
+  IMPORT_MAX_ROWS,
+  InvalidImportError,
+  importMovies,
+  parseCsv,
+  readCsvImport,
+  readJsonImport,
+} from "../server/imports";
+import { signUp, startTestServer, type TestClient, type TestServer } from "./support/http";
+
+describe("parseCsv", () => {
+  it("splits records and fields", () => {
+    expect(parseCsv("title,year\nAlien,1979\r\nHeat,1995")).toEqual([
+      ["title", "year"],
+      ["Alien", "1979"],
+      ["Heat", "1995"],
+    ]);
+  });
+
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('"Crime, Drama","Say ""hello""","two\nlines",""\n')).toEqual([
+      ["Crime, Drama", 'Say "hello"', "two\nlines", ""],
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFtitle\n\n,\nAlien\n\n")).toEqual([["title"], ["Alien"]]);
+  });
+
+  it("rejects an unclosed quote", () => {
+    expect(() => parseCsv('title\n"Alien')).toThrow(InvalidImportError);
+  });
+});
+
+describe("readCsvImport", () => {
+  it("maps columns to movie fields, ignoring case and punctuation", () => {
+    const file = readCsvImport(
+      [
+        "Title,Year,Genres,Runtime Minutes,original_language,Country,Certification,IMDb ID,TMDB,Notes",
+        "Alien,1979,Horror; Sci-Fi,117,en,US,R,tt0078748,348,loved it",
+        "Heat,1995,Crime,,,,,,,",
+      ].join("\n"),
+    );
+
+    expect(file.ignoredColumns).toEqual(["Notes"]);
+    expect(file.rows).toEqual([
+      {
+        title: "Alien",
+        year: 1979,
+        genres: ["Horror", "Sci-Fi"],
+        runtimeMinutes: 117,
+        originalLanguage: "en",
+        country: "US",
+        certification: "R",
+        externalIds: { imdb: "tt0078748", tmdb: 348 },
+      },
+      { title: "Heat", year: 1995, genres: ["Crime"] },
+    ]);
+  });
+
+  it("leaves numbers it can't read as text for validation to reject", () => {
+    expect(readCsvImport("title,year\nAlien,late 70s").rows).toEqual([{ title: "Alien", year: "late 70s" }]);
+  });
+
+  it("rejects two columns for the same field", () => {
+    expect(() => readCsvImport("genre,genres\nCrime,Drama")).toThrow('Columns "genre" and "genres" are the same field');
+  });
+});
+
+describe("readJsonImport", () => {
+  it("takes an array or { movies }", () => {
+    expect(readJsonImport([{ title: "Alien" }]).rows).toEqual([{ title: "Alien" }]);
+    expect(readJsonImport({ movies: [{ title: "Alien" }] }).rows).toEqual([{ title: "Alien" }]);
+    expect(() => readJsonImport({ title: "Alien" })).toThrow(InvalidImportError);
+  });
+});
+
+describe("importMovies", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.addMovie({ title: "Alien", year: 1979, genres: ["Horror"] });
+  });
+
+  const rows = [
+    { title: "Heat", year: 1995, genres: ["Crime"] },
+    { title: " alien ", year: 1979, genres: ["Horror"] },
+    { title: "Heat", year: 1995, genres: ["Crime"] },
+    { title: "Heat", year: 2095, genres: ["Crime"] },
+    { year: "1999", genres: [] },
+    "Jaws",
+  ];
+
+  it("adds new valid rows and reports every row", async () => {
+    const alien = (await storage.getAllMovies())[0];
+    const report = await importMovies(storage, { rows, ignoredColumns: [] });
+    const heat = (await storage.getAllMovies()).find((m) => m.title === "Heat")!;
+
+    expect(report.counts).toEqual({ created: 1, skipped: 2, error: 3 });
+    expect(report.rows).toEqual([
+      { row: 1, status: "created", title: "Heat", year: 1995, movieId: heat.id, duplicateOfRow: null, errors: [] },
+      { row: 2, status: "skipped", title: " alien ", year: 1979, movieId: alien.id, duplicateOfRow: null, errors: [] },
+      { row: 3, status: "skipped", title: "Heat", year: 1995, movieId: heat.id, duplicateOfRow: 1, errors: [] },
+      expect.objectContaining({ row: 4, status: "error", errors: [expect.stringMatching(/^year: Must be from 1888/)] }),
+      expect.objectContaining({
+        row: 5,
+        status: "error",
+        title: null,
+        errors: expect.arrayContaining(["title: Required", expect.stringMatching(/^year: Expected number/)]),
+      }),
+      expect.objectContaining({ row: 6, status: "error", errors: [expect.stringMatching(/^Expected object/)] }),
+    ]);
+    expect(heat.genres.map((g) => g.name)).toEqual(["Crime"]);
+  });
+
+  it("only reports in a dry run", async () => {
+    const report = await importMovies(storage, { rows, ignoredColumns: [] }, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, counts: { created: 1, skipped: 2, error: 3 } });
+    expect(report.rows[0]).toMatchObject({ status: "created", movieId: null });
+    expect(report.rows[2]).toMatchObject({ status: "skipped", movieId: null, duplicateOfRow: 1 });
+    expect(await storage.getAllMovies()).toHaveLength(1);
+  });
+
+  it("adds nothing when run again", async () => {
+    await importMovies(storage, { rows, ignoredColumns: [] });
+    const again = await importMovies(storage, { rows, ignoredColumns: [] });
+    expect(again.counts).toEqual({ created: 0, skipped: 3, error: 3 });
+    expect(await storage.getAllMovies()).toHaveLength(2);
+  });
+});
+
+describe("POST /api/movies/import", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+  let joe: TestClient;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+    joe = await signUp(server);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function upload(contents: string, name: string, type = "text/csv"): FormData {
+    const form = new FormData();
+    form.append("file", new Blob([contents], { type }), name);
+    return form;
+  }
+
+  const csv = "title,year,genres,notes\nAlien,1979,Horror|Sci-Fi,\nAlien,1979,Horror,again\nHeat,1995,";
+
+  it("requires login", async () => {
+    expect(await server.request("POST", "/api/movies/import", upload(csv, "movies.csv"))).toEqual({
+      status: 401,
+      body: { error: "Not logged in" },
+    });
+    expect(await storage.getAllMovies()).toEqual([]);
+  });
+
+  it("previews a CSV file in a dry run", async () => {
+    const res = await joe.request("POST", "/api/movies/import?dryRun=true", upload(csv, "movies.csv"));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      dryRun: true,
+      counts: { created: 1, skipped: 1, error: 1 },
+      ignoredColumns: ["notes"],
+      rows: [
+        { row: 1, status: "created", title: "Alien" },
+        { row: 2, status: "skipped", duplicateOfRow: 1 },
+        { row: 3, status: "error", errors: ["genres: Required"] },
+      ],
+    });
+    expect(await storage.getAllMovies()).toEqual([]);
+  });
+
+  it("imports a CSV file", async () => {
+    const res = await joe.request("POST", "/api/movies/import", upload(csv, "movies.csv"));
+
+    expect(res.body).toMatchObject({ dryRun: false, counts: { created: 1, skipped: 1, error: 1 } });
+    const [alien] = await storage.getAllMovies();
+    expect(alien).toMatchObject({ id: res.body.rows[0].movieId, title: "Alien", year: 1979 });
+  });
+
+  it("imports a JSON file or body", async () => {
+    const movies = [{ title: "Heat", year: 1995, genres: ["Crime"] }];
+    const file = await joe.request(
+      "POST",
+      "/api/movies/import",
+      upload(JSON.stringify({ movies }), "movies.json", "application/json"),
+    );
+    expect(file.body.counts).toEqual({ created: 1, skipped: 0, error: 0 });
+
+    const body = await joe.request("POST", "/api/movies/import", movies);
+    expect(body.body.counts).toEqual({ created: 0, skipped: 1, error: 0 });
+  });
+
+  it.each([
+    ["a text file", () => upload("title", "movies.txt", "text/plain"), "Imports must be .csv or .json files"],
+    ["unreadable JSON", () => upload("[{", "movies.json"), expect.stringMatching(/^Invalid JSON/)],
+    ["a file with no movies", () => upload("title,year\n", "movies.csv"), "The import has no movies"],
+    ["a body that isn't a list", () => ({ title: "Heat" }), expect.stringMatching(/^JSON imports must be/)],
+    ["a missing file", () => new FormData(), "No file uploaded"],
+  ])("rejects %s", async (_name, body, error) => {
+    expect(await joe.request("POST", "/api/movies/import", body())).toEqual({ status: 400, body: { error } });
+  });
+
+  it("takes JSON bodies larger than other routes allow", async () => {
+    const movies = Array.from({ length: IMPORT_MAX_ROWS }, (_, i) => ({
+      title: `Movie ${i}`,
+      year: 2000,
+      genres: ["Drama"],
+      synopsis: "A long synopsis. ".repeat(10),
+    }));
+    expect(JSON.stringify(movies).length).toBeGreaterThan(100 * 1024);
+
+    const res = await joe.request("POST", "/api/movies/import?dryRun=true", movies);
+    expect(res.status).toBe(200);
+    expect(res.body.counts).toEqual({ created: IMPORT_MAX_ROWS, skipped: 0, error: 0 });
+  });
+
+  it(`rejects more than ${IMPORT_MAX_ROWS} movies`, async () => {
+    const rows = Array.from({ length: IMPORT_MAX_ROWS + 1 }, (_, i) => ({
+      title: `Movie ${i}`,
+      year: 2000,
+      genres: ["Drama"],
+    }));
+    const res = await joe.request("POST", "/api/movies/import", rows);
+    expect(res).toEqual({ status: 400, body: { error: `Imports are limited to ${IMPORT_MAX_ROWS} movies` } });
+  });
+
+  it("rejects an invalid dryRun", async () => {
+    const res = await joe.request("POST", "/api/movies/import?dryRun=yes", upload(csv, "movies.csv"));
+    expect(res).toEqual({ status: 400, body: { error: "Invalid query" } });
+  });
+});
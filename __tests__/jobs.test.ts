@@ -0,0 +1,330 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import { MemStorage, type RatingAggregateDrift } from "../server/storage";
+import {
+  JOB_MAX_ATTEMPTS,
+  JOB_RETRY_BASE_MS,
+  PRUNE_JOBS_JOB,
+  RECOMPUTE_RATINGS_JOB,
+  appJobs,
+  runJob,
+  startJobWorker,
+  type JobHandler,
+  type JobWorker,
+  type JobWorkerOptions,
+} from "../server/jobs";
+import { POSTER_THUMBNAILS_JOB, savePoster } from "../server/posters";
+import { WEBHOOK_JOB } from "../server/webhooks";
+import { signUp, startTestServer, type TestClient, type TestServer } from "./support/http";
+
+describe("runJob", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  async function claim() {
+    const [job] = await storage.claimJobs({ a: 5 }, 1, 60_000);
+    return job;
+  }
+
+  it("completes a job whose handler resolves, passing it the payload", async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    await storage.enqueueJob("a", { n: 1 });
+    const job = await claim();
+
+    expect(await runJob(storage, { run }, job)).toMatchObject({ status: "succeeded" });
+    expect(run).toHaveBeenCalledWith({ n: 1 }, job);
+  });
+
+  it("retries with exponential backoff by default", async () => {
+    const handler: JobHandler = { run: () => Promise.reject(new Error("boom")) };
+    const failJob = storage.failJob.bind(storage);
+    // Records the delay asked for but makes the job due again now.
+    const spy = jest.spyOn(storage, "failJob").mockImplementation((id, attempt, error) => failJob(id, attempt, error, 0));
+    const job = await storage.enqueueJob("a");
+
+    expect(await runJob(storage, handler, await claim())).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "boom",
+    });
+    expect(spy).toHaveBeenLastCalledWith(job!.id, 1, "boom", JOB_RETRY_BASE_MS);
+
+    await runJob(storage, handler, await claim());
+    expect(spy).toHaveBeenLastCalledWith(job!.id, 2, "boom", JOB_RETRY_BASE_MS * 2);
+  });
+
+  it("dead-letters a job once its attempts run out", async () => {
+    const handler: JobHandler = { run: () => Promise.reject(new Error("boom")), maxAttempts: 2, retryDelayMs: () => 0 };
+    await storage.enqueueJob("a");
+
+    expect(await runJob(storage, handler, await claim())).toMatchObject({ status: "pending" });
+    expect(await runJob(storage, handler, await claim())).toMatchObject({ status: "dead", attempts: 2 });
+  });
+
+  it("records thrown non-errors", async () => {
+    await storage.enqueueJob("a");
+    const handler: JobHandler = { run: () => Promise.reject("nope"), maxAttempts: 1 };
+    expect(await runJob(storage, handler, await claim())).toMatchObject({ status: "dead", lastError: "nope" });
+  });
+
+  it("leaves a job alone once another worker has taken it over", async () => {
+    const job = await storage.enqueueJob("a");
+    const [lapsed] = await storage.claimJobs({ a: 5 }, 1, 0);
+    await claim();
+
+    expect(await runJob(storage, { run: () => Promise.resolve() }, lapsed)).toBeUndefined();
+    expect(await runJob(storage, { run: () => Promise.reject(new Error("boom")) }, lapsed)).toBeUndefined();
+    expect(await storage.getJob(job!.id)).toMatchObject({ status: "running", attempts: 2, lastError: null });
+  });
+});
+
+describe("startJobWorker", () => {
+  let storage: MemStorage;
+  let workers: JobWorker[];
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    workers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(workers.map((worker) => worker.stop()));
+  });
+
+  async function start(options: JobWorkerOptions) {
+    const worker = await startJobWorker(storage, { pollMs: 60_000, ...options });
+    workers.push(worker);
+    return worker;
+  }
+
+  it("runs due jobs with their handlers", async () => {
+    const ran: unknown[] = [];
+    const worker = await start({
+      handlers: {
+        a: { run: async (payload) => void ran.push(payload) },
+        b: { run: async () => void ran.push("b") },
+      },
+    });
+    await storage.enqueueJob("a", { n: 1 });
+    await storage.enqueueJob("b");
+    await storage.enqueueJob("c");
+    await storage.enqueueJob("a", { n: 2 }, { delayMs: 60_000 });
+    await worker.runOnce();
+
+    expect(ran).toEqual([{ n: 1 }, "b"]);
+    expect((await storage.countJobs()).map(({ name, pending, succeeded }) => [name, pending, succeeded])).toEqual([
+      ["a", 1, 1],
+      ["b", 0, 1],
+      ["c", 1, 0],
+    ]);
+  });
+
+  it("retries failing jobs until they succeed or are dead-lettered", async () => {
+    let calls = 0;
+    const worker = await start({
+      handlers: {
+        flaky: {
+          run: async () => {
+            if (++calls < 3) throw new Error("not yet");
+          },
+          retryDelayMs: () => 0,
+        },
+        broken: { run: () => Promise.reject(new Error("never")), retryDelayMs: () => 0 },
+      },
+    });
+    const flaky = await storage.enqueueJob("flaky");
+    const broken = await storage.enqueueJob("broken");
+    await worker.runOnce();
+
+    expect(await storage.getJob(flaky!.id)).toMatchObject({ status: "succeeded", attempts: 3, lastError: "not yet" });
+    expect(await storage.getJob(broken!.id)).toMatchObject({
+      status: "dead",
+      attempts: JOB_MAX_ATTEMPTS,
+      lastError: "never",
+    });
+  });
+
+  it("runs no more than `concurrency` jobs at once", async () => {
+    let running = 0;
+    let most = 0;
+    const worker = await start({
+      concurrency: 2,
+      handlers: {
+        a: {
+          run: async () => {
+            most = Math.max(most, ++running);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            running--;
+          },
+        },
+      },
+    });
+    for (let i = 0; i < 5; i++) await storage.enqueueJob("a");
+    await worker.runOnce();
+
+    expect(most).toBe(2);
+    expect(await storage.countJobs()).toEqual([{ name: "a", pending: 0, running: 0, succeeded: 5, dead: 0 }]);
+  });
+
+  it("lets only one worker run each job", async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    const [one, other] = [await start({ handlers: { a: { run } } }), await start({ handlers: { a: { run } } })];
+    for (let i = 0; i < 3; i++) await storage.enqueueJob("a");
+    await Promise.all([one.runOnce(), other.runOnce()]);
+
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("syncs its schedules and checks them", async () => {
+    await start({ handlers: { a: { run: async () => undefined } }, schedules: [{ name: "a", cron: "*/5 * * * *" }] });
+    expect(await storage.listJobSchedules()).toEqual([expect.objectContaining({ name: "a", cron: "*/5 * * * *" })]);
+
+    await expect(start({ handlers: {}, schedules: [{ name: "a", cron: "* * * * *" }] })).rejects.toThrow(
+      'No handler for scheduled job "a"',
+    );
+    await expect(
+      start({ handlers: { a: { run: async () => undefined } }, schedules: [{ name: "a", cron: "every minute" }] }),
+    ).rejects.toThrow("Invalid cron expression");
+  });
+
+  it("finishes running jobs before it stops", async () => {
+    let finished = false;
+    const worker = await start({
+      handlers: {
+        a: {
+          run: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            finished = true;
+          },
+        },
+      },
+    });
+    await storage.enqueueJob("a");
+    void worker.runOnce();
+    await new Promise((resolve) => setImmediate(resolve));
+    await worker.stop();
+
+    expect(finished).toBe(true);
+  });
+});
+
+describe("appJobs", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("schedules its recurring jobs with valid crons", async () => {
+    const worker = await startJobWorker(storage, { ...appJobs(storage), pollMs: 60_000 });
+    await worker.stop();
+    expect((await storage.listJobSchedules()).map((s) => s.name)).toEqual([
+      PRUNE_JOBS_JOB,
+      RECOMPUTE_RATINGS_JOB,
+      WEBHOOK_JOB,
+    ]);
+  });
+
+  it("logs how many movies the rating recompute fixed", async () => {
+    const log = jest.fn();
+    jest.spyOn(storage, "recomputeRatingAggregates").mockResolvedValue([{} as RatingAggregateDrift]);
+    await storage.enqueueJob(RECOMPUTE_RATINGS_JOB);
+
+    const worker = await startJobWorker(storage, { ...appJobs(storage, log), pollMs: 60_000 });
+    await worker.runOnce();
+    await worker.stop();
+    expect(log).toHaveBeenCalledWith("recomputed rating aggregates for 1 movie(s)");
+  });
+
+  it("writes queued poster thumbnails", async () => {
+    const originalDir = process.env.POSTER_DIR;
+    const dir = await mkdtemp(path.join(tmpdir(), "posters-"));
+    process.env.POSTER_DIR = dir;
+    try {
+      const image = await sharp({ create: { width: 200, height: 300, channels: 3, background: "#222" } })
+        .png()
+        .toBuffer();
+      const key = await savePoster(image, dir);
+      await storage.enqueueJob(POSTER_THUMBNAILS_JOB, { key });
+
+      const worker = await startJobWorker(storage, { ...appJobs(storage), pollMs: 60_000 });
+      await worker.runOnce();
+      await worker.stop();
+      expect(await readdir(path.join(dir, "large"))).toEqual([`${key}.webp`]);
+    } finally {
+      if (originalDir === undefined) delete process.env.POSTER_DIR;
+      else process.env.POSTER_DIR = originalDir;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("GET /api/admin/jobs", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+  let admin: TestClient;
+  const originalAdmins = process.env.ADMIN_USERNAMES;
+
+  beforeAll(() => {
+    process.env.ADMIN_USERNAMES = "admin";
+  });
+
+  afterAll(() => {
+    if (originalAdmins === undefined) delete process.env.ADMIN_USERNAMES;
+    else process.env.ADMIN_USERNAMES = originalAdmins;
+  });
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+    admin = await signUp(server, "admin");
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("is for admins only", async () => {
+    expect((await server.request("GET", "/api/admin/jobs")).status).toBe(401);
+    const joe = await signUp(server, "joe");
+    expect((await joe.request("GET", "/api/admin/jobs")).status).toBe(403);
+  });
+
+  it("shows counts, schedules and the latest jobs", async () => {
+    await storage.syncJobSchedules([{ name: "a", cron: "0 3 * * *" }]);
+    await storage.enqueueJob("a");
+    const dead = await storage.enqueueJob("b", { n: 1 });
+    await storage.claimJobs({ b: 5 }, 1, 60_000);
+    await storage.failJob(dead!.id, 1, "boom", null);
+
+    const res = await admin.request("GET", "/api/admin/jobs");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      counts: [
+        { name: "a", pending: 1, running: 0, succeeded: 0, dead: 0 },
+        { name: "b", pending: 0, running: 0, succeeded: 0, dead: 1 },
+      ],
+      schedules: [expect.objectContaining({ name: "a", cron: "0 3 * * *", lastRunAt: null })],
+      items: [
+        expect.objectContaining({ name: "b", status: "dead", payload: { n: 1 }, lastError: "boom" }),
+        expect.objectContaining({ name: "a", status: "pending" }),
+      ],
+    });
+
+    const filtered = await admin.request("GET", "/api/admin/jobs?status=dead&limit=5");
+    expect(filtered.body.items).toEqual([expect.objectContaining({ id: dead!.id })]);
+    expect((await admin.request("GET", "/api/admin/jobs?name=a")).body.items).toHaveLength(1);
+  });
+
+  it.each(["status=failed", "limit=0", "limit=101"])("rejects ?%s", async (query) => {
+    expect(await admin.request("GET", `/api/admin/jobs?${query}`)).toEqual({
+      status: 400,
+      body: { error: "Invalid query" },
+    });
+  });
+});
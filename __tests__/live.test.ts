@@ -0,0 +1,147 @@
+import WebSocket from "ws";
+import type { LiveEvent } from "@shared/schema";
+import { MemStorage } from "../server/storage";
+import { LIVE_PATH, toLiveEvent } from "../server/live";
+import { signUp, startTestServer, type TestClient, type TestServer } from "./support/http";
+
+/** A /api/live connection that queues the events it receives. */
+async function listen(server: TestServer) {
+  const socket = new WebSocket(server.url.replace("http", "ws") + LIVE_PATH);
+  const events: LiveEvent[] = [];
+  const waiting: ((event: LiveEvent) => void)[] = [];
+  socket.on("message", (data) => {
+    const event = JSON.parse(String(data)) as LiveEvent;
+    const resolve = waiting.shift();
+    if (resolve) resolve(event);
+    else events.push(event);
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", reject);
+  });
+
+  return {
+    socket,
+    next(): Promise<LiveEvent> {
+      const queued = events.shift();
+      return queued ? Promise.resolve(queued) : new Promise((resolve) => waiting.push(resolve));
+    },
+    close(): Promise<void> {
+      if (socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+      return new Promise((resolve) => {
+        socket.once("close", () => resolve());
+        socket.close();
+      });
+    },
+  };
+}
+
+describe("live updates", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+  let agent: TestClient;
+  let client: Awaited<ReturnType<typeof listen>>;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+    agent = await signUp(server, "ann");
+    client = await listen(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("broadcasts movie.created with empty stats", async () => {
+    const res = await agent.request("POST", "/api/movies", { title: "Heat", year: 1995, genres: ["Crime"] });
+
+    expect(await client.next()).toEqual({
+      type: "movie.created",
+      movie: { ...res.body, avgRating: 0, totalRatings: 0 },
+    });
+  });
+
+  it("broadcasts movie.updated", async () => {
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    expect((await client.next()).type).toBe("movie.created");
+    const res = await agent.request("PATCH", `/api/movies/${movie.id}`, { title: "Heat (1995)" });
+
+    expect(await client.next()).toEqual({ type: "movie.updated", movie: res.body });
+  });
+
+  it("broadcasts rating.created with the movie's new stats but not the rater", async () => {
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addRating(movie.id, 2);
+    expect((await client.next()).type).toBe("movie.created");
+    expect(await client.next()).toMatchObject({ type: "rating.created", score: 2 });
+    const joe = await signUp(server);
+
+    await joe.request("POST", `/api/movies/${movie.id}/rate`, { score: 5 });
+    expect(await client.next()).toEqual({
+      type: "rating.created",
+      movieId: movie.id,
+      score: 5,
+      avgRating: 3.5,
+      totalRatings: 2,
+    });
+
+    await joe.request("POST", `/api/movies/${movie.id}/rate`, { score: 4 });
+    expect(await client.next()).toEqual({ type: "rating.created", movieId: movie.id, score: 4, avgRating: 3, totalRatings: 2 });
+  });
+
+  it("broadcasts rating.deleted and movie.deleted", async () => {
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addRating(movie.id, 2);
+    await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 5 });
+    expect((await client.next()).type).toBe("movie.created");
+    expect((await client.next()).type).toBe("rating.created");
+    expect((await client.next()).type).toBe("rating.created");
+
+    await agent.request("DELETE", `/api/movies/${movie.id}/rate`);
+    expect(await client.next()).toEqual({ type: "rating.deleted", movieId: movie.id, score: 5, avgRating: 2, totalRatings: 1 });
+
+    await agent.request("DELETE", `/api/movies/${movie.id}`);
+    expect(await client.next()).toEqual({ type: "movie.deleted", movieId: movie.id });
+  });
+
+  it("sends every event to every client", async () => {
+    const other = await listen(server);
+    try {
+      await agent.request("POST", "/api/movies", { title: "Heat", year: 1995, genres: ["Crime"] });
+      expect((await client.next()).type).toBe("movie.created");
+      expect((await other.next()).type).toBe("movie.created");
+    } finally {
+      await other.close();
+    }
+  });
+
+  it("sends nothing for rejected requests", async () => {
+    await agent.request("POST", "/api/movies", { title: "", year: 1995 });
+    await agent.request("PATCH", "/api/movies/999", { title: "Nope" });
+    await agent.request("POST", "/api/movies", { title: "Heat", year: 1995, genres: ["Crime"] });
+
+    expect(await client.next()).toMatchObject({ type: "movie.created", movie: { title: "Heat" } });
+  });
+});
+
+describe("toLiveEvent", () => {
+  it("reads the movie for movie events", async () => {
+    const storage = new MemStorage();
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+
+    expect(await toLiveEvent(storage, { type: "movie.updated", movieId: movie.id })).toEqual({
+      type: "movie.updated",
+      movie,
+    });
+  });
+
+  it("drops movie events for movies deleted since", async () => {
+    const storage = new MemStorage();
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.deleteMovie(movie.id);
+
+    expect(await toLiveEvent(storage, { type: "movie.created", movieId: movie.id })).toBeUndefined();
+  });
+});
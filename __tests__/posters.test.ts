@@ -0,0 +1,158 @@
+import express from "express";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import {
+  DEFAULT_POSTER_MAX_BYTES,
+  InvalidPosterError,
+  PosterTooLargeError,
+  posterMaxBytes,
+  posterSizes,
+  savePoster,
+  writeThumbnails,
+} from "../server/posters";
+import { servePosters } from "../server/static";
+
+function image(format: "png" | "jpeg" | "webp" | "gif", width = 300, height = 450): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: "#336699" } })
+    .toFormat(format)
+    .toBuffer();
+}
+
+describe("savePoster", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "posters-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the original and leaves thumbnails to writeThumbnails", async () => {
+    const key = await savePoster(await image("png", 1000, 800), dir);
+
+    expect(await readdir(dir)).toEqual(["original"]);
+    expect(await readdir(path.join(dir, "original"))).toEqual([`${key}.png`]);
+
+    await writeThumbnails(key, dir);
+    for (const [size, { width, height }] of Object.entries(posterSizes)) {
+      const meta = await sharp(path.join(dir, size, `${key}.webp`)).metadata();
+      expect(meta).toMatchObject({ format: "webp", width, height });
+    }
+  });
+
+  it.each(["jpeg", "webp"] as const)("accepts %s images", async (format) => {
+    const key = await savePoster(await image(format), dir);
+    expect(await readdir(path.join(dir, "original"))).toEqual([
+      `${key}.${format === "jpeg" ? "jpg" : format}`,
+    ]);
+  });
+
+  it("derives the key from the image content", async () => {
+    const png = await image("png");
+    const key = await savePoster(png, dir);
+
+    expect(key).toMatch(/^[0-9a-f]{32}$/);
+    expect(await savePoster(png, dir)).toBe(key);
+    expect(await savePoster(await image("png", 300, 451), dir)).not.toBe(key);
+  });
+
+  it("rejects formats other than JPEG, PNG and WebP", async () => {
+    await expect(savePoster(await image("gif"), dir)).rejects.toThrow(InvalidPosterError);
+  });
+
+  it("rejects data that isn't an image", async () => {
+    await expect(savePoster(Buffer.from("not an image"), dir)).rejects.toThrow(InvalidPosterError);
+  });
+
+  it("rejects truncated images without writing anything", async () => {
+    const jpeg = await image("jpeg");
+
+    await expect(savePoster(jpeg.subarray(0, jpeg.length / 2), dir)).rejects.toThrow(
+      InvalidPosterError,
+    );
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("rejects images over the pixel limit without decoding or writing them", async () => {
+    const png = await image("png", 300, 450);
+
+    await expect(savePoster(png, dir, 300 * 450 - 1)).rejects.toThrow(PosterTooLargeError);
+    expect(await readdir(dir)).toEqual([]);
+    await expect(savePoster(png, dir, 300 * 450)).resolves.toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe("writeThumbnails", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "posters-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("thumbnails originals of every accepted format", async () => {
+    const key = await savePoster(await image("jpeg"), dir);
+    await writeThumbnails(key, dir);
+    expect(await readdir(path.join(dir, "thumb"))).toEqual([`${key}.webp`]);
+  });
+
+  it("rejects keys without an original", async () => {
+    await expect(writeThumbnails("0".repeat(32), dir)).rejects.toThrow("No original poster");
+    await expect(writeThumbnails("../secrets", dir)).rejects.toThrow("Invalid poster key");
+  });
+});
+
+describe("posterMaxBytes", () => {
+  const original = process.env.POSTER_MAX_BYTES;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.POSTER_MAX_BYTES;
+    else process.env.POSTER_MAX_BYTES = original;
+  });
+
+  it("reads POSTER_MAX_BYTES", () => {
+    process.env.POSTER_MAX_BYTES = "1024";
+    expect(posterMaxBytes()).toBe(1024);
+  });
+
+  it.each(["", "0", "-1", "1.5", "lots"])("falls back to the default for %p", (value) => {
+    process.env.POSTER_MAX_BYTES = value;
+    expect(posterMaxBytes()).toBe(DEFAULT_POSTER_MAX_BYTES);
+  });
+});
+
+describe("servePosters", () => {
+  it("serves poster files with long-lived cache headers and 404s missing ones", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "posters-"));
+    const app = express();
+    servePosters(app, dir);
+    const server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const key = await savePoster(await image("png"), dir);
+      await writeThumbnails(key, dir);
+
+      const res = await fetch(`http://127.0.0.1:${port}/posters/thumb/${key}.webp`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("image/webp");
+      expect(res.headers.get("cache-control")).toBe("public, max-age=31536000, immutable");
+
+      const missing = await fetch(`http://127.0.0.1:${port}/posters/thumb/nope.webp`);
+      expect(missing.status).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
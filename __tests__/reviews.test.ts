@@ -0,0 +1,90 @@
+import { encodeCursor, InvalidCursorError } from "../server/pagination";
+import { decodeReviewCursor, reviewChanges, tallyVote, wilsonLowerBound } from "../server/reviews";
+
+describe("reviewChanges", () => {
+  it("leaves the review alone when none is given", () => {
+    expect(reviewChanges({ review: "Old." })).toEqual({});
+    expect(reviewChanges(undefined, {})).toEqual({});
+  });
+
+  it("writes a new or changed body with a fresh reviewedAt", () => {
+    expect(reviewChanges(undefined, { review: "New." })).toEqual({
+      review: "New.",
+      reviewedAt: expect.any(Date),
+    });
+    expect(reviewChanges({ review: "Old." }, { review: "New.", spoiler: true })).toEqual({
+      review: "New.",
+      reviewedAt: expect.any(Date),
+      spoiler: true,
+    });
+  });
+
+  it("keeps reviewedAt when the body is unchanged", () => {
+    expect(reviewChanges({ review: "Same." }, { review: "Same.", spoiler: false })).toEqual({ spoiler: false });
+  });
+
+  it("resets every review field for null", () => {
+    expect(reviewChanges({ review: "Old." }, { review: null })).toEqual({
+      review: null,
+      spoiler: false,
+      reviewedAt: null,
+      helpfulCount: 0,
+      notHelpfulCount: 0,
+      helpfulScore: 0,
+    });
+  });
+
+  it("drops the spoiler flag when there is no review", () => {
+    expect(reviewChanges({ review: null }, { spoiler: true })).toEqual({});
+  });
+});
+
+describe("decodeReviewCursor", () => {
+  it("round-trips cursors for each ordering", () => {
+    const newest = { value: "2024-05-01T12:00:00.000Z", id: 7 };
+    const helpful = { value: 0.25, id: 7 };
+    expect(decodeReviewCursor(encodeCursor(newest), "newest")).toEqual(newest);
+    expect(decodeReviewCursor(encodeCursor(helpful), "helpful")).toEqual(helpful);
+  });
+
+  it.each([
+    ["newest", { value: 3, id: 1 }],
+    ["newest", { value: "yesterday", id: 1 }],
+    ["helpful", { value: "2024-05-01T12:00:00.000Z", id: 1 }],
+    ["helpful", { value: 1.5, id: 1 }],
+    ["helpful", { value: -0.1, id: 1 }],
+  ] as const)("rejects a %s cursor of %j", (sort, cursor) => {
+    expect(() => decodeReviewCursor(encodeCursor(cursor), sort)).toThrow(InvalidCursorError);
+  });
+});
+
+describe("wilsonLowerBound", () => {
+  it("is 0 without votes", () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(0, 5)).toBe(0);
+  });
+
+  it("matches the 95% interval", () => {
+    expect(wilsonLowerBound(1, 1)).toBeCloseTo(0.2065, 4);
+    expect(wilsonLowerBound(40, 45)).toBeCloseTo(0.765, 4);
+  });
+
+  it("ranks a steady record above a lucky one", () => {
+    expect(wilsonLowerBound(4, 5)).toBeGreaterThan(wilsonLowerBound(1, 1));
+    expect(wilsonLowerBound(90, 100)).toBeGreaterThan(wilsonLowerBound(9, 10));
+  });
+});
+
+describe("tallyVote", () => {
+  const counts = { helpfulCount: 3, notHelpfulCount: 1 };
+
+  it("adds, moves and removes a vote", () => {
+    expect(tallyVote(counts, null, true)).toMatchObject({ helpfulCount: 4, notHelpfulCount: 1 });
+    expect(tallyVote(counts, true, false)).toMatchObject({ helpfulCount: 2, notHelpfulCount: 2 });
+    expect(tallyVote(counts, false, null)).toMatchObject({ helpfulCount: 3, notHelpfulCount: 0 });
+  });
+
+  it("scores the new totals", () => {
+    expect(tallyVote(counts, null, true).helpfulScore).toBe(wilsonLowerBound(4, 5));
+  });
+});
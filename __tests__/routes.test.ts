@@ -0,0 +1,1215 @@
+import { MemStorage } from "../server/storage";
+import { POSTER_THUMBNAILS_JOB } from "../server/posters";
+import { signUp, startTestServer, type TestClient, type TestServer } from "./support/http";
+import { loadTestFixtures } from "./support/fixtures";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+
+describe("API routes", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe("GET /api/config", () => {
+    afterEach(() => {
+      delete process.env.RATING_SCALE_MIN;
+      delete process.env.RATING_SCALE_STEP;
+    });
+
+    it("returns the rating scale", async () => {
+      const res = await server.request("GET", "/api/config");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ ratingScale: { min: 1, max: 5, step: 1 } });
+    });
+
+    it("follows the configured scale", async () => {
+      process.env.RATING_SCALE_MIN = "0.5";
+      process.env.RATING_SCALE_STEP = "0.5";
+
+      const res = await server.request("GET", "/api/config");
+      expect(res.body).toEqual({ ratingScale: { min: 0.5, max: 5, step: 0.5 } });
+    });
+  });
+
+  describe("GET /api/movies", () => {
+    it("returns a page of movies with stats", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 4);
+
+      const res = await server.request("GET", "/api/movies");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        items: [expect.objectContaining({ title: "Casablanca", avgRating: 4, totalRatings: 1 })],
+        nextCursor: null,
+      });
+    });
+
+    it("passes filters, sort and paging through to storage", async () => {
+      await loadTestFixtures(storage);
+
+      const res = await server.request("GET", "/api/movies?genre=crime&sort=avgRating&limit=1");
+      expect(res.status).toBe(200);
+      expect(res.body.items.map((m: any) => m.title)).toEqual(["The Godfather"]);
+
+      const next = await server.request(
+        "GET",
+        `/api/movies?genre=crime&sort=avgRating&limit=1&cursor=${res.body.nextCursor}`,
+      );
+      expect(next.body).toEqual({
+        items: [expect.objectContaining({ title: "Pulp Fiction" })],
+        nextCursor: null,
+      });
+    });
+
+    it.each([
+      "sort=director",
+      "limit=0",
+      "limit=500",
+      "minRating=6",
+      "yearFrom=soon",
+      "minRuntime=-5",
+      "certification=PG-15",
+    ])(
+      "returns 400 Invalid query for %s",
+      async (qs) => {
+        const res = await server.request("GET", `/api/movies?${qs}`);
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual({ error: "Invalid query" });
+      },
+    );
+
+    it("returns 400 Invalid cursor for a malformed cursor", async () => {
+      const res = await server.request("GET", "/api/movies?cursor=not-a-cursor");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid cursor" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "listMovies").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/movies");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch movies" });
+    });
+
+    it("does not seed the store", async () => {
+      const res = await server.request("GET", "/api/movies");
+      expect(res.body.items).toEqual([]);
+    });
+  });
+
+  describe("GET /api/search", () => {
+    it("returns ranked, highlighted results", async () => {
+      await loadTestFixtures(storage);
+
+      const res = await server.request("GET", "/api/search?q=godfater");
+      expect(res.status).toBe(200);
+      expect(res.body.items[0]).toMatchObject({
+        title: "The Godfather",
+        matches: [{ start: 4, end: 13 }],
+      });
+    });
+
+    it.each(["", "q=", "q=%20%20", `q=${"x".repeat(101)}`, "q=heat&limit=0"])(
+      "returns 400 Invalid query for %p",
+      async (qs) => {
+        const res = await server.request("GET", `/api/search?${qs}`);
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual({ error: "Invalid query" });
+      },
+    );
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "searchMovies").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/search?q=heat");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to search movies" });
+    });
+  });
+
+  describe("GET /api/charts/top", () => {
+    const originalMinVotes = process.env.CHART_MIN_VOTES;
+
+    afterEach(() => {
+      if (originalMinVotes === undefined) delete process.env.CHART_MIN_VOTES;
+      else process.env.CHART_MIN_VOTES = originalMinVotes;
+    });
+
+    it("returns the weighted chart using the configured minimum votes", async () => {
+      process.env.CHART_MIN_VOTES = "3";
+      await loadTestFixtures(storage);
+
+      const res = await server.request("GET", "/api/charts/top");
+      expect(res.status).toBe(200);
+      expect(res.body.minVotes).toBe(3);
+      expect(res.body.items.every((m: any) => m.totalRatings >= 3)).toBe(true);
+      expect(res.body.items[0]).toMatchObject({ title: "The Shawshank Redemption", avgRating: 5 });
+      expect(res.body.items[0].weightedScore).toBeLessThan(5);
+    });
+
+    it("lets the query override the minimum votes and scope", async () => {
+      await loadTestFixtures(storage);
+
+      const res = await server.request("GET", "/api/charts/top?minVotes=1&genre=Sci-Fi&decade=1960");
+      expect(res.status).toBe(200);
+      expect(res.body.minVotes).toBe(1);
+      expect(res.body.items.map((m: any) => m.title)).toEqual(["2001: A Space Odyssey"]);
+    });
+
+    it.each(["minVotes=0", "decade=1995", "decade=abc", "limit=0"])("returns 400 Invalid query for %s", async (qs) => {
+      const res = await server.request("GET", `/api/charts/top?${qs}`);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid query" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "getTopRated").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/charts/top");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch chart" });
+    });
+  });
+
+  describe("GET /api/genres", () => {
+    it("returns genres with counts and averages", async () => {
+      const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime", "Thriller"] });
+      await storage.addRating(movie.id, 4);
+
+      const res = await server.request("GET", "/api/genres");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        items: [
+          { id: expect.any(Number), slug: "crime", name: "Crime", color: expect.any(String), movieCount: 1, avgRating: 4 },
+          { id: expect.any(Number), slug: "thriller", name: "Thriller", color: expect.any(String), movieCount: 1, avgRating: 4 },
+        ],
+      });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "listGenres").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/genres");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch genres" });
+    });
+  });
+
+  describe("/api/criteria", () => {
+    const originalAdmins = process.env.ADMIN_USERNAMES;
+    let admin: TestClient;
+
+    beforeAll(() => {
+      process.env.ADMIN_USERNAMES = "admin";
+    });
+
+    afterAll(() => {
+      if (originalAdmins === undefined) delete process.env.ADMIN_USERNAMES;
+      else process.env.ADMIN_USERNAMES = originalAdmins;
+    });
+
+    beforeEach(async () => {
+      admin = await signUp(server, "admin");
+    });
+
+    it("lists criteria in position order", async () => {
+      await storage.saveCriterion({ name: "Acting", position: 1 });
+      await storage.saveCriterion({ name: "Story", position: 0 });
+
+      const res = await server.request("GET", "/api/criteria");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        items: [
+          { id: expect.any(Number), slug: "story", name: "Story", position: 0 },
+          { id: expect.any(Number), slug: "acting", name: "Acting", position: 1 },
+        ],
+      });
+    });
+
+    it("creates a criterion or updates the one with the same slug", async () => {
+      const created = await admin.request("POST", "/api/criteria", { name: "Visuals" });
+      expect(created.status).toBe(200);
+      expect(created.body).toEqual({ id: expect.any(Number), slug: "visuals", name: "Visuals", position: 0 });
+
+      const updated = await admin.request("POST", "/api/criteria", { name: "visuals", position: 3 });
+      expect(updated.body).toEqual({ ...created.body, name: "visuals", position: 3 });
+    });
+
+    it.each([{}, { name: "  " }, { name: "Pace", position: -1 }])("returns 400 Invalid fields for %j", async (body) => {
+      const res = await admin.request("POST", "/api/criteria", body);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("deletes a criterion", async () => {
+      const criterion = await storage.saveCriterion({ name: "Sound" });
+
+      const res = await admin.request("DELETE", `/api/criteria/${criterion.id}`);
+      expect(res.status).toBe(204);
+      expect(await storage.listCriteria()).toEqual([]);
+
+      const again = await admin.request("DELETE", `/api/criteria/${criterion.id}`);
+      expect(again.status).toBe(404);
+      expect(again.body).toEqual({ error: "Not found" });
+    });
+
+    it.each([
+      ["POST", "/api/criteria"],
+      ["DELETE", "/api/criteria/1"],
+    ])("%s %s is for admins only", async (method, path) => {
+      const criterion = await storage.saveCriterion({ name: "Story" });
+      const body = method === "POST" ? { name: "story", position: 5 } : undefined;
+
+      expect(await server.request(method, path, body)).toEqual({ status: 401, body: { error: "Not logged in" } });
+      const joe = await signUp(server, "joe");
+      expect(await joe.request(method, path, body)).toEqual({ status: 403, body: { error: "Admins only" } });
+      expect(await storage.listCriteria()).toEqual([criterion]);
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "listCriteria").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/criteria");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch criteria" });
+    });
+  });
+
+  describe("POST /api/movies", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it("creates a movie", async () => {
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Casablanca",
+        year: 1942,
+        genres: ["Drama"],
+      });
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ title: "Casablanca", year: 1942, genres: [expect.objectContaining({ name: "Drama" })] });
+      expect(await storage.getMovieById(res.body.id)).toBeDefined();
+    });
+
+    it("returns 400 Invalid year for years before 1888", async () => {
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Roundhay Garden Scene",
+        year: 1887,
+        genres: ["Documentary"],
+      });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid year" });
+    });
+
+    it("returns 400 Invalid year for future years", async () => {
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Tomorrow",
+        year: new Date().getFullYear() + 1,
+        genres: ["Drama"],
+      });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid year" });
+    });
+
+    it("stores metadata", async () => {
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Casablanca",
+        year: 1942,
+        genres: ["Drama"],
+        runtimeMinutes: 102,
+        originalLanguage: "en",
+        country: "US",
+        certification: "PG",
+        externalIds: { imdb: "tt0034583" },
+      });
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({
+        runtimeMinutes: 102,
+        synopsis: null,
+        originalLanguage: "en",
+        country: "US",
+        certification: "PG",
+        externalIds: { imdb: "tt0034583" },
+      });
+    });
+
+    it("returns 400 Invalid fields for malformed metadata", async () => {
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Casablanca",
+        year: 1942,
+        genres: ["Drama"],
+        country: "United States",
+      });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 400 Invalid fields for missing fields", async () => {
+      const res = await agent.request("POST", "/api/movies", { year: 1942 });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "addMovie").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("POST", "/api/movies", {
+        title: "Casablanca",
+        year: 1942,
+        genres: ["Drama"],
+      });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to add movie" });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const res = await server.request("POST", "/api/movies", { title: "Casablanca", year: 1942, genres: ["Drama"] });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+      expect(await storage.getAllMovies()).toEqual([]);
+    });
+  });
+
+  describe("GET /api/movies/:id", () => {
+    it("returns the movie with its ratings", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      for (const score of [5, 4, 4]) await storage.addRating(movie.id, score);
+
+      const res = await server.request("GET", `/api/movies/${movie.id}`);
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        id: movie.id,
+        title: "Casablanca",
+        avgRating: 4.3,
+        totalRatings: 3,
+        ratingHistogram: { 4: 2, 5: 1 },
+        userRating: null,
+        userReview: null,
+        criteria: [],
+        userCriteria: {},
+      });
+    });
+
+    it("takes the stats from the stored aggregates rather than every rating", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 4);
+      const everyRating = jest.spyOn(storage, "getRatingsForMovie");
+
+      const res = await server.request("GET", `/api/movies/${movie.id}`);
+      expect(res.body).toMatchObject({ avgRating: 4, totalRatings: 1, ratingHistogram: { 4: 1 } });
+      expect(everyRating).not.toHaveBeenCalled();
+    });
+
+    it("includes criterion averages and the caller's own criterion scores", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.saveCriterion({ name: "Story" });
+      await storage.saveCriterion({ name: "Acting" });
+      await storage.addRating(movie.id, 5, undefined, { criteria: { story: 5 } });
+      const agent = await signUp(server);
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4, criteria: { story: 4, acting: 3 } });
+
+      const res = await agent.request("GET", `/api/movies/${movie.id}`);
+      expect(res.body.criteria).toEqual([
+        { id: expect.any(Number), slug: "story", name: "Story", position: 0, avgScore: 4.5, totalScores: 2 },
+        { id: expect.any(Number), slug: "acting", name: "Acting", position: 1, avgScore: 3, totalScores: 1 },
+      ]);
+      expect(res.body.userCriteria).toEqual({ story: 4, acting: 3 });
+    });
+
+    it("includes the caller's own rating when logged in", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      const agent = await signUp(server);
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 3 });
+
+      const res = await agent.request("GET", `/api/movies/${movie.id}`);
+      expect(res.body).toMatchObject({ userRating: 3, totalRatings: 1 });
+    });
+
+    it("includes the caller's own review when logged in", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      const agent = await signUp(server);
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 3, review: "Fine." });
+
+      const res = await agent.request("GET", `/api/movies/${movie.id}`);
+      expect(res.body.userReview).toMatchObject({ score: 3, body: "Fine.", user: { username: "joe" } });
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await server.request("GET", "/api/movies/abc");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await server.request("GET", "/api/movies/999");
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "getMovieById").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", "/api/movies/1");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch movie" });
+    });
+  });
+
+  describe("PATCH /api/movies/:id", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it("updates the given fields", async () => {
+      const movie = await storage.addMovie({ title: "Casablanka", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("PATCH", `/api/movies/${movie.id}`, { title: "Casablanca" });
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        id: movie.id,
+        title: "Casablanca",
+        year: 1942,
+        genres: [expect.objectContaining({ name: "Drama" })],
+      });
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await agent.request("PATCH", "/api/movies/abc", { title: "Casablanca" });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it("returns 400 Invalid year for out-of-range years", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("PATCH", `/api/movies/${movie.id}`, { year: 1887 });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid year" });
+    });
+
+    it.each([{ title: "" }, { year: "soon" }, {}])("returns 400 Invalid fields for %p", async (body) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("PATCH", `/api/movies/${movie.id}`, body);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await agent.request("PATCH", "/api/movies/999", { title: "Casablanca" });
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "updateMovie").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("PATCH", "/api/movies/1", { title: "Casablanca" });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to update movie" });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const movie = await storage.addMovie({ title: "Casablanka", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("PATCH", `/api/movies/${movie.id}`, { title: "Casablanca" });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+      expect(await storage.getMovieById(movie.id)).toMatchObject({ title: "Casablanka" });
+    });
+  });
+
+  describe("POST /api/movies/:id/poster", () => {
+    const originalDir = process.env.POSTER_DIR;
+    const originalMaxBytes = process.env.POSTER_MAX_BYTES;
+    let dir: string;
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "posters-"));
+      process.env.POSTER_DIR = dir;
+      agent = await signUp(server);
+    });
+
+    afterEach(async () => {
+      if (originalDir === undefined) delete process.env.POSTER_DIR;
+      else process.env.POSTER_DIR = originalDir;
+      if (originalMaxBytes === undefined) delete process.env.POSTER_MAX_BYTES;
+      else process.env.POSTER_MAX_BYTES = originalMaxBytes;
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    async function posterForm(type = "image/png", data?: Buffer): Promise<FormData> {
+      const image =
+        data ??
+        (await sharp({ create: { width: 200, height: 300, channels: 3, background: "#222" } })
+          .png()
+          .toBuffer());
+      const form = new FormData();
+      form.append("poster", new Blob([image], { type }), "poster.png");
+      return form;
+    }
+
+    it("stores the poster, queues its thumbnails and returns the movie", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/poster`, await posterForm());
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id: movie.id, posterKey: expect.stringMatching(/^[0-9a-f]{32}$/) });
+      expect((await storage.getMovieById(movie.id))?.posterKey).toBe(res.body.posterKey);
+      expect(await readdir(path.join(dir, "original"))).toEqual([`${res.body.posterKey}.png`]);
+      expect(await storage.listJobs({ name: POSTER_THUMBNAILS_JOB, limit: 10 })).toEqual([
+        expect.objectContaining({ payload: { key: res.body.posterKey }, status: "pending" }),
+      ]);
+    });
+
+    it("requires login", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("POST", `/api/movies/${movie.id}/poster`, await posterForm());
+      expect(res).toEqual({ status: 401, body: { error: "Not logged in" } });
+      expect((await storage.getMovieById(movie.id))?.posterKey).toBeNull();
+    });
+
+    it("returns 400 No poster uploaded without a poster file", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/poster`, new FormData());
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "No poster uploaded" });
+    });
+
+    it("returns 413 Poster too large over POSTER_MAX_BYTES", async () => {
+      process.env.POSTER_MAX_BYTES = "100";
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/poster`, await posterForm());
+      expect(res.status).toBe(413);
+      expect(res.body).toEqual({ error: "Poster too large" });
+    });
+
+    it.each([
+      ["a declared type that isn't allowed", "image/gif", undefined],
+      ["content that isn't an image", "image/png", Buffer.from("definitely not a png")],
+    ])("returns 415 Unsupported image type for %s", async (_case, type, data) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request(
+        "POST",
+        `/api/movies/${movie.id}/poster`,
+        await posterForm(type, data),
+      );
+      expect(res.status).toBe(415);
+      expect(res.body).toEqual({ error: "Unsupported image type" });
+      expect((await storage.getMovieById(movie.id))?.posterKey).toBeNull();
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await agent.request("POST", "/api/movies/999/poster", await posterForm());
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+  });
+
+  describe("DELETE /api/movies/:id", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it("deletes the movie and its ratings", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 4);
+
+      const res = await agent.request("DELETE", `/api/movies/${movie.id}`);
+      expect(res.status).toBe(204);
+      expect(await storage.getMovieById(movie.id)).toBeUndefined();
+      expect(await storage.getRatingsForMovie(movie.id)).toEqual([]);
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await agent.request("DELETE", "/api/movies/abc");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await agent.request("DELETE", "/api/movies/999");
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "deleteMovie").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("DELETE", "/api/movies/1");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to delete movie" });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("DELETE", `/api/movies/${movie.id}`);
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+      expect(await storage.getMovieById(movie.id)).toBeDefined();
+    });
+  });
+
+  describe("POST /api/movies/:id/rate", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it("records the rating and returns the new stats", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 5);
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4 });
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ avgRating: 4.5, totalRatings: 2, previousScore: null });
+    });
+
+    it("replaces the caller's earlier rating", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 5 });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 2 });
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ avgRating: 2, totalRatings: 1, previousScore: 5 });
+    });
+
+    it("stores a review with the rating", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, {
+        score: 4,
+        review: "  Round up the usual suspects.  ",
+        spoiler: true,
+      });
+      expect(res.status).toBe(200);
+      expect((await storage.listReviews(movie.id, { sort: "newest", limit: 10 })).items).toEqual([
+        expect.objectContaining({ body: "Round up the usual suspects.", spoiler: true }),
+      ]);
+    });
+
+    it("stores criterion scores with the rating", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.saveCriterion({ name: "Story" });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4, criteria: { Story: 5 } });
+      expect(res.status).toBe(200);
+      expect((await storage.getCriterionAverages(movie.id))[0]).toMatchObject({ slug: "story", avgScore: 5 });
+    });
+
+    it.each([{ story: 6 }, { story: 2.5 }, [4, 5], "story"])("returns 400 Invalid criteria for %j", async (criteria) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4, criteria });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid criteria" });
+    });
+
+    it("returns 400 Unknown criterion for a criterion that doesn't exist", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4, criteria: { pacing: 3 } });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Unknown criterion" });
+      expect(await storage.getUserRating(movie.id, 1)).toBeUndefined();
+    });
+
+    it.each([
+      ["a blank review", { review: "   " }],
+      ["a review over 10000 characters", { review: "a".repeat(10001) }],
+      ["a non-boolean spoiler flag", { review: "Good.", spoiler: "yes" }],
+    ])("returns 400 Invalid review for %s", async (_case, fields) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4, ...fields });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid review" });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("POST", `/api/movies/${movie.id}/rate`, { score: 4 });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await agent.request("POST", "/api/movies/abc/rate", { score: 4 });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it.each([0, 6, 3.5, "great"])("returns 400 Invalid rating for score %p", async (score) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid rating" });
+    });
+
+    describe("on a half-star scale", () => {
+      beforeEach(() => {
+        process.env.RATING_SCALE_MIN = "0.5";
+        process.env.RATING_SCALE_STEP = "0.5";
+      });
+
+      afterEach(() => {
+        delete process.env.RATING_SCALE_MIN;
+        delete process.env.RATING_SCALE_STEP;
+      });
+
+      it("takes half stars for the score and criteria", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.saveCriterion({ name: "Story" });
+
+        const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 3.5, criteria: { story: 0.5 } });
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ avgRating: 3.5, totalRatings: 1, previousScore: null });
+        expect(await storage.getUserCriterionScores(movie.id, 1)).toEqual({ story: 0.5 });
+      });
+
+      it.each([0, 3.25, 5.5])("returns 400 Invalid rating for score %p", async (score) => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score });
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual({ error: "Invalid rating" });
+      });
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await agent.request("POST", "/api/movies/999/rate", { score: 4 });
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      jest.spyOn(storage, "addRating").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 4 });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to add rating" });
+    });
+  });
+
+  describe("GET /api/movies/:id/reviews", () => {
+    it("returns a page of reviews with their authors", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      const agent = await signUp(server);
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 5, review: "**Classic.**" });
+      await storage.addRating(movie.id, 4);
+
+      const res = await server.request("GET", `/api/movies/${movie.id}/reviews`);
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        items: [
+          expect.objectContaining({
+            score: 5,
+            body: "**Classic.**",
+            spoiler: false,
+            user: { id: expect.any(Number), username: "joe" },
+          }),
+        ],
+        nextCursor: null,
+      });
+    });
+
+    it("pages through reviews with the returned cursor", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 4, undefined, { review: "Older." });
+      await storage.addRating(movie.id, 5, undefined, { review: "Newer." });
+
+      const first = await server.request("GET", `/api/movies/${movie.id}/reviews?sort=newest&limit=1`);
+      expect(first.body.items.map((r: any) => r.body)).toEqual(["Newer."]);
+
+      const next = await server.request(
+        "GET",
+        `/api/movies/${movie.id}/reviews?sort=newest&limit=1&cursor=${first.body.nextCursor}`,
+      );
+      expect(next.body).toEqual({ items: [expect.objectContaining({ body: "Older." })], nextCursor: null });
+    });
+
+    it.each(["sort=longest", "limit=0", "limit=51"])("returns 400 Invalid query for %s", async (qs) => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("GET", `/api/movies/${movie.id}/reviews?${qs}`);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid query" });
+    });
+
+    it("returns 400 Invalid cursor for a malformed cursor", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await server.request("GET", `/api/movies/${movie.id}/reviews?cursor=nope`);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid cursor" });
+    });
+
+    it("returns 404 for unknown movies", async () => {
+      const res = await server.request("GET", "/api/movies/999/reviews");
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      jest.spyOn(storage, "listReviews").mockRejectedValue(new Error("boom"));
+
+      const res = await server.request("GET", `/api/movies/${movie.id}/reviews`);
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch reviews" });
+    });
+  });
+
+  describe("/api/reviews/:id/vote", () => {
+    let voter: TestClient;
+    let movieId: number;
+    let reviewId: number;
+
+    beforeEach(async () => {
+      movieId = (await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] })).id;
+      const author = await signUp(server, "joe");
+      await author.request("POST", `/api/movies/${movieId}/rate`, { score: 5, review: "A classic." });
+      reviewId = (await storage.listReviews(movieId, { sort: "newest", limit: 1 })).items[0].id;
+      voter = await signUp(server, "ana");
+    });
+
+    it("records a vote and returns the new totals", async () => {
+      const res = await voter.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: true });
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        helpfulCount: 1,
+        notHelpfulCount: 0,
+        helpfulScore: expect.any(Number),
+        userVote: true,
+      });
+    });
+
+    it("shows the caller's vote when listing reviews", async () => {
+      await voter.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: false });
+
+      const mine = await voter.request("GET", `/api/movies/${movieId}/reviews`);
+      expect(mine.body.items[0]).toMatchObject({ notHelpfulCount: 1, userVote: false });
+      const anonymous = await server.request("GET", `/api/movies/${movieId}/reviews`);
+      expect(anonymous.body.items[0].userVote).toBeNull();
+    });
+
+    it("retracts the vote", async () => {
+      await voter.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: true });
+
+      const res = await voter.request("DELETE", `/api/reviews/${reviewId}/vote`);
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ helpfulCount: 0, notHelpfulCount: 0, helpfulScore: 0, userVote: null });
+
+      const again = await voter.request("DELETE", `/api/reviews/${reviewId}/vote`);
+      expect(again.status).toBe(404);
+      expect(again.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 403 for a vote on your own review", async () => {
+      const author = server.agent();
+      await author.request("POST", "/api/auth/login", { username: "joe", password: "popcorn-time" });
+
+      const res = await author.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: true });
+      expect(res.status).toBe(403);
+      expect(res.body).toEqual({ error: "You can't vote on your own review" });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const res = await server.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: true });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ error: "Not logged in" });
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await voter.request("POST", "/api/reviews/abc/vote", { helpful: true });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it.each([{}, { helpful: "yes" }])("returns 400 Invalid vote for %j", async (body) => {
+      const res = await voter.request("POST", `/api/reviews/${reviewId}/vote`, body);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid vote" });
+    });
+
+    it("returns 404 for unknown reviews", async () => {
+      const res = await voter.request("POST", "/api/reviews/999/vote", { helpful: true });
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "voteOnReview").mockRejectedValue(new Error("boom"));
+
+      const res = await voter.request("POST", `/api/reviews/${reviewId}/vote`, { helpful: true });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to vote on review" });
+    });
+  });
+
+  describe("DELETE /api/movies/:id/rate", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it("clears the caller's rating", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 5);
+      await agent.request("POST", `/api/movies/${movie.id}/rate`, { score: 1 });
+
+      const res = await agent.request("DELETE", `/api/movies/${movie.id}/rate`);
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ avgRating: 5, totalRatings: 1 });
+    });
+
+    it("returns 401 when not logged in", async () => {
+      const res = await server.request("DELETE", "/api/movies/1/rate");
+      expect(res.status).toBe(401);
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await agent.request("DELETE", "/api/movies/abc/rate");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it("returns 404 when the caller hasn't rated the movie", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+      const res = await agent.request("DELETE", `/api/movies/${movie.id}/rate`);
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "deleteRating").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("DELETE", "/api/movies/1/rate");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to delete rating" });
+    });
+  });
+
+  describe("/api/people", () => {
+    let agent: TestClient;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+    });
+
+    it.each([
+      ["POST", "/api/people"],
+      ["PATCH", "/api/people/1"],
+      ["DELETE", "/api/people/1"],
+    ])("%s %s requires login", async (method, path) => {
+      const person = await storage.createPerson({ name: "Billy Wilder" });
+
+      const res = await server.request(method, path, method === "DELETE" ? undefined : { name: "Samuel Wilder" });
+      expect(res).toEqual({ status: 401, body: { error: "Not logged in" } });
+      expect(await storage.getPerson(person.id)).toMatchObject({ name: "Billy Wilder" });
+    });
+
+    it("creates, lists, renames and deletes people", async () => {
+      const created = await agent.request("POST", "/api/people", { name: "Billy Wilder" });
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ id: expect.any(Number), name: "Billy Wilder" });
+      await storage.createPerson({ name: "Stanley Kubrick" });
+
+      const list = await agent.request("GET", "/api/people?q=wild");
+      expect(list.status).toBe(200);
+      expect(list.body.items.map((p: any) => p.name)).toEqual(["Billy Wilder"]);
+
+      const renamed = await agent.request("PATCH", `/api/people/${created.body.id}`, { name: "Samuel Wilder" });
+      expect(renamed.status).toBe(200);
+      expect(renamed.body).toMatchObject({ name: "Samuel Wilder" });
+
+      const deleted = await agent.request("DELETE", `/api/people/${created.body.id}`);
+      expect(deleted.status).toBe(204);
+      expect(await storage.getPerson(created.body.id)).toBeUndefined();
+    });
+
+    it("returns the filmography and career average", async () => {
+      const movie = await storage.addMovie({ title: "Sunset Boulevard", year: 1950, genres: ["Drama"] });
+      const wilder = await storage.createPerson({ name: "Billy Wilder" });
+      await storage.addCredit({ movieId: movie.id, personId: wilder.id, role: "director" });
+      await storage.addRating(movie.id, 4);
+
+      const res = await agent.request("GET", `/api/people/${wilder.id}`);
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        name: "Billy Wilder",
+        careerAvgRating: 4,
+        ratedTitles: 1,
+        filmography: [{ movieId: movie.id, title: "Sunset Boulevard", avgRating: 4, credits: [{ role: "director" }] }],
+      });
+    });
+
+    it.each([
+      ["POST", "/api/people", { name: "" }],
+      ["PATCH", "/api/people/1", {}],
+    ])("returns 400 Invalid fields for %s %s with bad fields", async (method, path, body) => {
+      await storage.createPerson({ name: "Billy Wilder" });
+
+      const res = await agent.request(method, path, body);
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 400 Invalid query for an out-of-range limit", async () => {
+      const res = await agent.request("GET", "/api/people?limit=0");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid query" });
+    });
+
+    it.each(["GET", "PATCH", "DELETE"])("%s returns 404 for unknown people", async (method) => {
+      const res = await agent.request(method, "/api/people/999", method === "PATCH" ? { name: "Nobody" } : undefined);
+      expect(res.status).toBe(404);
+      expect(res.body).toEqual({ error: "Not found" });
+    });
+
+    it("returns 400 Invalid ID for non-numeric ids", async () => {
+      const res = await agent.request("GET", "/api/people/abc");
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid ID" });
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "getPerson").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("GET", "/api/people/1");
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to fetch person" });
+    });
+  });
+
+  describe("credits", () => {
+    let agent: TestClient;
+    let movieId: number;
+    let personId: number;
+
+    beforeEach(async () => {
+      agent = await signUp(server);
+      movieId = (await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] })).id;
+      personId = (await storage.createPerson({ name: "Al Pacino" })).id;
+    });
+
+    it("requires login to add, update or delete credits", async () => {
+      const credit = await storage.addCredit({ movieId, personId, role: "actor" });
+
+      const requests: [string, string, unknown][] = [
+        ["POST", `/api/movies/${movieId}/credits`, { personId, role: "director" }],
+        ["PATCH", `/api/credits/${credit.id}`, { billingOrder: 1 }],
+        ["DELETE", `/api/credits/${credit.id}`, undefined],
+      ];
+      for (const [method, path, body] of requests) {
+        expect(await server.request(method, path, body)).toEqual({ status: 401, body: { error: "Not logged in" } });
+      }
+      expect(await storage.getMovieCredits(movieId)).toEqual([
+        expect.objectContaining({ role: "actor", billingOrder: null }),
+      ]);
+    });
+
+    it("adds, lists, updates and deletes a movie's credits", async () => {
+      const created = await agent.request("POST", `/api/movies/${movieId}/credits`, {
+        personId,
+        role: "actor",
+        character: "Vincent Hanna",
+      });
+      expect(created.status).toBe(201);
+      expect(created.body).toEqual({
+        id: expect.any(Number),
+        movieId,
+        personId,
+        role: "actor",
+        character: "Vincent Hanna",
+        billingOrder: null,
+      });
+
+      const updated = await agent.request("PATCH", `/api/credits/${created.body.id}`, { billingOrder: 1 });
+      expect(updated.status).toBe(200);
+      expect(updated.body).toMatchObject({ billingOrder: 1 });
+
+      const list = await agent.request("GET", `/api/movies/${movieId}/credits`);
+      expect(list.status).toBe(200);
+      expect(list.body).toEqual({
+        items: [
+          {
+            id: created.body.id,
+            role: "actor",
+            character: "Vincent Hanna",
+            billingOrder: 1,
+            person: { id: personId, name: "Al Pacino" },
+          },
+        ],
+      });
+
+      const deleted = await agent.request("DELETE", `/api/credits/${created.body.id}`);
+      expect(deleted.status).toBe(204);
+      expect(await storage.getMovieCredits(movieId)).toEqual([]);
+    });
+
+    it("returns 409 for a duplicate credit", async () => {
+      await storage.addCredit({ movieId, personId, role: "actor" });
+
+      const res = await agent.request("POST", `/api/movies/${movieId}/credits`, { personId, role: "actor" });
+      expect(res.status).toBe(409);
+      expect(res.body).toEqual({ error: "Credit already exists" });
+    });
+
+    it("returns 400 Unknown person for a person that doesn't exist", async () => {
+      const res = await agent.request("POST", `/api/movies/${movieId}/credits`, { personId: 999, role: "actor" });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Unknown person" });
+    });
+
+    it("returns 400 Invalid fields for an unknown role", async () => {
+      const res = await agent.request("POST", `/api/movies/${movieId}/credits`, { personId, role: "caterer" });
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({ error: "Invalid fields" });
+    });
+
+    it("returns 404 for unknown movies and credits", async () => {
+      expect((await agent.request("GET", "/api/movies/999/credits")).status).toBe(404);
+      expect((await agent.request("POST", "/api/movies/999/credits", { personId, role: "actor" })).status).toBe(404);
+      expect((await agent.request("PATCH", "/api/credits/999", { billingOrder: 1 })).status).toBe(404);
+      expect((await agent.request("DELETE", "/api/credits/999")).status).toBe(404);
+    });
+
+    it("returns 500 when storage fails", async () => {
+      jest.spyOn(storage, "addCredit").mockRejectedValue(new Error("boom"));
+
+      const res = await agent.request("POST", `/api/movies/${movieId}/credits`, { personId, role: "actor" });
+      expect(res.status).toBe(500);
+      expect(res.body).toEqual({ error: "Failed to add credit" });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { DEFAULT_RATING_SCALE } from "@shared/schema";
+import {
+  InvalidRatingScaleError,
+  RatingScaleMismatchError,
+  ensureRatingScale,
+  isOnScale,
+  ratingScale,
+  rescaleScore,
+  snapToScale,
+} from "../server/scale";
+import { MemStorage } from "../server/storage";
+
+const halfStars = { min: 0.5, max: 5, step: 0.5 };
+const tenPoints = { min: 1, max: 10, step: 1 };
+
+describe("ratingScale", () => {
+  const names = ["RATING_SCALE_MIN", "RATING_SCALE_MAX", "RATING_SCALE_STEP"];
+  const original = names.map((name) => process.env[name]);
+
+  afterEach(() => {
+    names.forEach((name, i) => {
+      if (original[i] === undefined) delete process.env[name];
+      else process.env[name] = original[i];
+    });
+  });
+
+  it("defaults to whole stars from 1 to 5", () => {
+    names.forEach((name) => delete process.env[name]);
+    expect(ratingScale()).toEqual(DEFAULT_RATING_SCALE);
+  });
+
+  it("reads RATING_SCALE_MIN, RATING_SCALE_MAX and RATING_SCALE_STEP", () => {
+    process.env.RATING_SCALE_MIN = "0.5";
+    process.env.RATING_SCALE_MAX = "";
+    process.env.RATING_SCALE_STEP = "0.5";
+    expect(ratingScale()).toEqual(halfStars);
+  });
+
+  it.each([
+    ["RATING_SCALE_STEP", "3"],
+    ["RATING_SCALE_MAX", "many"],
+    ["RATING_SCALE_MIN", "6"],
+  ])("throws rather than falling back for %s=%p", (name, value) => {
+    process.env[name] = value;
+    expect(() => ratingScale()).toThrow(InvalidRatingScaleError);
+  });
+
+  it("is the scale a new memory store starts on", async () => {
+    process.env.RATING_SCALE_MAX = "10";
+    expect(await new MemStorage().getRatingScale()).toEqual(tenPoints);
+  });
+});
+
+describe("isOnScale", () => {
+  it.each([1, 3, 5])("accepts %p on the default scale", (score) => {
+    expect(isOnScale(score, DEFAULT_RATING_SCALE)).toBe(true);
+  });
+
+  it.each([0, 6, 3.5, NaN, "4"])("rejects %p on the default scale", (score) => {
+    expect(isOnScale(score, DEFAULT_RATING_SCALE)).toBe(false);
+  });
+
+  it("takes half stars on a half-star scale", () => {
+    expect(isOnScale(3.5, halfStars)).toBe(true);
+    expect(isOnScale(0.5, halfStars)).toBe(true);
+    expect(isOnScale(3.25, halfStars)).toBe(false);
+  });
+
+  it("tolerates float noise in steps", () => {
+    expect(isOnScale(0.3, { min: 0, max: 1, step: 0.1 })).toBe(true);
+  });
+});
+
+describe("snapToScale", () => {
+  it("rounds to the nearest step and clamps to the range", () => {
+    expect(snapToScale(3.3, halfStars)).toBe(3.5);
+    expect(snapToScale(0.1, halfStars)).toBe(0.5);
+    expect(snapToScale(7, DEFAULT_RATING_SCALE)).toBe(5);
+    expect(snapToScale(0.1 * 3, { min: 0, max: 1, step: 0.1 })).toBe(0.3);
+  });
+});
+
+describe("rescaleScore", () => {
+  it("maps min to min and max to max, spreading the values between evenly", () => {
+    expect([1, 2, 3, 4, 5].map((s) => rescaleScore(s, DEFAULT_RATING_SCALE, tenPoints))).toEqual([1, 3, 6, 8, 10]);
+    expect(rescaleScore(7, tenPoints, DEFAULT_RATING_SCALE)).toBe(4);
+  });
+
+  it("moves between scales with different mins", () => {
+    const zeroToTen = { min: 0, max: 10, step: 1 };
+    expect([1, 2, 3, 4, 5].map((s) => rescaleScore(s, DEFAULT_RATING_SCALE, zeroToTen))).toEqual([0, 3, 5, 8, 10]);
+    expect([0, 5, 10].map((s) => rescaleScore(s, zeroToTen, DEFAULT_RATING_SCALE))).toEqual([1, 3, 5]);
+    expect([0.5, 2.75, 5].map((s) => rescaleScore(s, halfStars, tenPoints))).toEqual([1, 6, 10]);
+    expect([1, 10].map((s) => rescaleScore(s, tenPoints, halfStars))).toEqual([0.5, 5]);
+  });
+
+  it("keeps whole stars when only the step changes", () => {
+    const halfStarsFromOne = { min: 1, max: 5, step: 0.5 };
+    expect([1, 2, 3, 4, 5].map((s) => rescaleScore(s, DEFAULT_RATING_SCALE, halfStarsFromOne))).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it("snaps scores that fall between steps", () => {
+    expect(rescaleScore(2.5, halfStars, DEFAULT_RATING_SCALE)).toBe(3);
+    expect(rescaleScore(1, tenPoints, DEFAULT_RATING_SCALE)).toBe(1);
+  });
+});
+
+describe("ensureRatingScale", () => {
+  it("does nothing when the stored scale is the configured one", async () => {
+    const storage = new MemStorage();
+    expect(await ensureRatingScale(storage, { rescale: false }, DEFAULT_RATING_SCALE)).toBeUndefined();
+  });
+
+  it("rescales onto a changed scale", async () => {
+    const storage = new MemStorage();
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addRating(movie.id, 4);
+
+    expect(await ensureRatingScale(storage, { rescale: true }, tenPoints)).toMatchObject({ ratings: 1 });
+    expect(await storage.getRatingsForMovie(movie.id)).toEqual([8]);
+    expect(await storage.getRatingScale()).toEqual(tenPoints);
+  });
+
+  it("puts a store without scores on the configured scale, even without rescale", async () => {
+    const storage = new MemStorage();
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+
+    expect(await ensureRatingScale(storage, { rescale: false }, tenPoints)).toBeUndefined();
+    expect(await storage.getRatingScale()).toEqual(tenPoints);
+  });
+
+  it("refuses a changed scale without rescale", async () => {
+    const storage = new MemStorage();
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addRating(movie.id, 4);
+    await expect(ensureRatingScale(storage, { rescale: false }, tenPoints)).rejects.toThrow(
+      RatingScaleMismatchError,
+    );
+    expect(await storage.getRatingScale()).toEqual(DEFAULT_RATING_SCALE);
+  });
+});
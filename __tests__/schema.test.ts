@@ -1,11 +1,23 @@
-import { insertMovieSchema, insertRatingSchema } from "@shared/schema";
+import {
+  insertCreditSchema,
+  insertMovieSchema,
+  insertPersonSchema,
+  insertRatingSchema,
+  movieListQuerySchema,
+  reviewInputSchema,
+  reviewListQuerySchema,
+  reviewVoteSchema,
+  insertCriterionSchema,
+  criterionScoresSchema,
+  ratingScaleSchema,
+} from "@shared/schema";
 
 describe("insertMovieSchema", () => {
   it("accepts valid movie data", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(true);
   });
@@ -13,7 +25,7 @@ describe("insertMovieSchema", () => {
   it("rejects missing title", () => {
     const result = insertMovieSchema.safeParse({
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
@@ -22,7 +34,7 @@ describe("insertMovieSchema", () => {
     const result = insertMovieSchema.safeParse({
       title: "",
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
@@ -30,12 +42,21 @@ describe("insertMovieSchema", () => {
   it("rejects missing year", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
 
-  it("rejects missing genre", () => {
+  it("accepts several genres", () => {
+    const result = insertMovieSchema.safeParse({
+      title: "Casablanca",
+      year: 1942,
+      genres: ["Drama", "Romance"],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects missing genres", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: 1942,
@@ -43,11 +64,29 @@ describe("insertMovieSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  it("rejects an empty genre list", () => {
+    const result = insertMovieSchema.safeParse({
+      title: "Casablanca",
+      year: 1942,
+      genres: [],
+    });
+    expect(result.success).toBe(false);
+  });
+
   it("rejects empty string genre", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: 1942,
-      genre: "",
+      genres: [""],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects genre names without letters or digits", () => {
+    const result = insertMovieSchema.safeParse({
+      title: "Casablanca",
+      year: 1942,
+      genres: ["--"],
     });
     expect(result.success).toBe(false);
   });
@@ -56,7 +95,7 @@ describe("insertMovieSchema", () => {
     const result = insertMovieSchema.safeParse({
       title: null,
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
@@ -65,16 +104,16 @@ describe("insertMovieSchema", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: null,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
 
-  it("rejects null genre", () => {
+  it("rejects null genres", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: 1942,
-      genre: null,
+      genres: null,
     });
     expect(result.success).toBe(false);
   });
@@ -93,7 +132,7 @@ describe("insertMovieSchema", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: "not a year",
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(false);
   });
@@ -102,7 +141,7 @@ describe("insertMovieSchema", () => {
     const result = insertMovieSchema.safeParse({
       title: "Casablanca",
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
       director: "Michael Curtiz",
     });
     expect(result.success).toBe(true);
@@ -113,13 +152,57 @@ describe("insertMovieSchema", () => {
       id: 999,
       title: "Casablanca",
       year: 1942,
-      genre: "Drama",
+      genres: ["Drama"],
     });
     expect(result.success).toBe(true);
     if (result.success) {
       expect((result.data as any).id).toBeUndefined();
     }
   });
+
+  it("accepts full metadata", () => {
+    const result = insertMovieSchema.safeParse({
+      title: "The Godfather",
+      year: 1972,
+      genres: ["Crime"],
+      runtimeMinutes: 175,
+      synopsis: "An offer he can't refuse.",
+      originalLanguage: "en",
+      country: "US",
+      certification: "R",
+      externalIds: { imdb: "tt0068646", tmdb: 238 },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts null metadata, which clears it on update", () => {
+    const result = insertMovieSchema.safeParse({
+      title: "Casablanca",
+      year: 1942,
+      genres: ["Drama"],
+      runtimeMinutes: null,
+      certification: null,
+      country: null,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it.each([
+    ["a zero runtime", { runtimeMinutes: 0 }],
+    ["a fractional runtime", { runtimeMinutes: 90.5 }],
+    ["a blank synopsis", { synopsis: "  " }],
+    ["a language name instead of a code", { originalLanguage: "English" }],
+    ["an upper-case language code", { originalLanguage: "EN" }],
+    ["a lower-case country code", { country: "us" }],
+    ["a three-letter country code", { country: "USA" }],
+    ["an unknown certification", { certification: "PG-15" }],
+    ["a malformed IMDb id", { externalIds: { imdb: "0068646" } }],
+    ["a non-numeric TMDB id", { externalIds: { tmdb: "238" } }],
+    ["an unknown external site", { externalIds: { letterboxd: "the-godfather" } }],
+  ])("rejects %s", (_, metadata) => {
+    const result = insertMovieSchema.safeParse({ title: "Casablanca", year: 1942, genres: ["Drama"], ...metadata });
+    expect(result.success).toBe(false);
+  });
 });
 
 describe("insertRatingSchema", () => {
@@ -174,3 +257,155 @@ describe("insertRatingSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("insertPersonSchema", () => {
+  it("accepts and trims a name", () => {
+    const result = insertPersonSchema.safeParse({ name: "  Billy Wilder " });
+    expect(result.success && result.data).toEqual({ name: "Billy Wilder" });
+  });
+
+  it("rejects a blank name", () => {
+    const result = insertPersonSchema.safeParse({ name: "   " });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("insertCreditSchema", () => {
+  it("accepts an actor credit with character and billing order", () => {
+    const result = insertCreditSchema.safeParse({
+      movieId: 1,
+      personId: 2,
+      role: "actor",
+      character: "Norma Desmond",
+      billingOrder: 2,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts a crew credit without character or billing order", () => {
+    const result = insertCreditSchema.safeParse({ movieId: 1, personId: 2, role: "director" });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an unknown role", () => {
+    const result = insertCreditSchema.safeParse({ movieId: 1, personId: 2, role: "caterer" });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects a negative billing order", () => {
+    const result = insertCreditSchema.safeParse({ movieId: 1, personId: 2, role: "actor", billingOrder: -1 });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects a missing person", () => {
+    const result = insertCreditSchema.safeParse({ movieId: 1, role: "actor" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("movieListQuerySchema", () => {
+  it("splits a comma-separated certification list", () => {
+    expect(movieListQuerySchema.parse({ certification: "G, PG" }).certification).toEqual(["G", "PG"]);
+  });
+
+  it("coerces runtime bounds", () => {
+    expect(movieListQuerySchema.parse({ minRuntime: "90", maxRuntime: "120" })).toMatchObject({
+      minRuntime: 90,
+      maxRuntime: 120,
+    });
+  });
+
+  it.each(["PG-15", "G,,PG", ""])("rejects the certification list %j", (certification) => {
+    expect(movieListQuerySchema.safeParse({ certification }).success).toBe(false);
+  });
+});
+
+describe("reviewInputSchema", () => {
+  it("trims the review body", () => {
+    expect(reviewInputSchema.parse({ review: "  Loved it. ", spoiler: true })).toEqual({
+      review: "Loved it.",
+      spoiler: true,
+    });
+  });
+
+  it("accepts null to remove a review, or no review at all", () => {
+    expect(reviewInputSchema.parse({ review: null })).toEqual({ review: null });
+    expect(reviewInputSchema.parse({})).toEqual({});
+  });
+
+  it.each([{ review: "" }, { review: " \n " }, { review: "x".repeat(10001) }, { spoiler: "true" }])(
+    "rejects %j",
+    (input) => {
+      expect(reviewInputSchema.safeParse(input).success).toBe(false);
+    },
+  );
+});
+
+describe("reviewListQuerySchema", () => {
+  it("defaults to the newest ten", () => {
+    expect(reviewListQuerySchema.parse({})).toEqual({ sort: "newest", limit: 10 });
+  });
+
+  it("coerces the limit", () => {
+    expect(reviewListQuerySchema.parse({ sort: "helpful", limit: "25" })).toEqual({ sort: "helpful", limit: 25 });
+  });
+});
+
+describe("reviewVoteSchema", () => {
+  it("takes a boolean helpful flag", () => {
+    expect(reviewVoteSchema.parse({ helpful: false })).toEqual({ helpful: false });
+    expect(reviewVoteSchema.safeParse({ helpful: "true" }).success).toBe(false);
+    expect(reviewVoteSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("insertCriterionSchema", () => {
+  it("trims the name and takes an optional position", () => {
+    expect(insertCriterionSchema.parse({ name: " Story " })).toEqual({ name: "Story" });
+    expect(insertCriterionSchema.parse({ name: "Sound", position: 3 })).toEqual({ name: "Sound", position: 3 });
+  });
+
+  it.each([{ name: "" }, { name: "--" }, { name: "Story", position: 1.5 }, { name: "Story", position: -1 }])(
+    "rejects %j",
+    (input) => {
+      expect(insertCriterionSchema.safeParse(input).success).toBe(false);
+    },
+  );
+});
+
+describe("criterionScoresSchema", () => {
+  it("takes numeric scores by criterion, leaving the scale to the route", () => {
+    expect(criterionScoresSchema.parse({ story: 1, Acting: 4.5 })).toEqual({ story: 1, Acting: 4.5 });
+    expect(criterionScoresSchema.parse({})).toEqual({});
+  });
+
+  it.each([{ story: "4" }, { story: null }, { "": 3 }])("rejects %j", (input) => {
+    expect(criterionScoresSchema.safeParse(input).success).toBe(false);
+  });
+});
+
+describe("ratingScaleSchema", () => {
+  it.each([
+    { min: 1, max: 5, step: 1 },
+    { min: 0.5, max: 5, step: 0.5 },
+    { min: 1, max: 10, step: 1 },
+    { min: 2, max: 10, step: 0.5 },
+  ])("accepts %j", (scale) => {
+    expect(ratingScaleSchema.parse(scale)).toEqual(scale);
+  });
+
+  it.each([
+    { min: 5, max: 5, step: 1 },
+    { min: 1, max: 5, step: 0 },
+    { min: 1, max: 5, step: 3 },
+    { min: 1, max: 4.5, step: 0.5 },
+    { min: 1, max: 20, step: 1 },
+    { min: -1, max: 5, step: 1 },
+    { min: 0, max: 10, step: 1 },
+    { min: 0, max: 10, step: 0.1 },
+    { min: 0.5, max: 10, step: 0.25 },
+    { min: 0.5, max: 5, step: 1 },
+  ])("rejects %j", (scale) => {
+    expect(ratingScaleSchema.safeParse(scale).success).toBe(false);
+  });
+});
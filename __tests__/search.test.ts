@@ -0,0 +1,64 @@
+import { highlightMatches, rankTitle, similarity, wordSimilarity } from "../server/search";
+
+describe("similarity", () => {
+  it("is 1 for identical words and 0 for unrelated ones", () => {
+    expect(similarity("heat", "heat")).toBe(1);
+    expect(similarity("heat", "zzz")).toBe(0);
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(similarity("Singin'", "singin")).toBe(1);
+  });
+});
+
+describe("wordSimilarity", () => {
+  it("compares against the best-matching words of the title", () => {
+    expect(wordSimilarity("godfater", "The Godfather")).toBeGreaterThan(0.5);
+    expect(wordSimilarity("godfater", "The Godfather")).toBeGreaterThan(similarity("godfater", "The Godfather"));
+  });
+});
+
+describe("rankTitle", () => {
+  it("returns null for non-matching titles", () => {
+    expect(rankTitle("casablanca", "Chinatown")).toBeNull();
+  });
+
+  it("ranks whole-word hits above fuzzy ones", () => {
+    const exact = rankTitle("drive", "Mulholland Drive")!;
+    const fuzzy = rankTitle("drve", "Mulholland Drive")!;
+    expect(exact).toBeGreaterThan(fuzzy);
+  });
+
+  it("matches word prefixes", () => {
+    expect(rankTitle("odys", "2001: A Space Odyssey")).not.toBeNull();
+  });
+
+  it("returns null for blank queries", () => {
+    expect(rankTitle("  ", "Heat")).toBeNull();
+  });
+});
+
+describe("highlightMatches", () => {
+  it("marks exact and prefix matches", () => {
+    expect(highlightMatches("run blade", "Blade Runner")).toEqual([
+      { start: 0, end: 5 },
+      { start: 6, end: 9 },
+    ]);
+  });
+
+  it("marks a matching phrase as one range", () => {
+    expect(highlightMatches("blade run", "Blade Runner")).toEqual([{ start: 0, end: 9 }]);
+  });
+
+  it("marks the whole word for a misspelling", () => {
+    expect(highlightMatches("shawshenk", "The Shawshank Redemption")).toEqual([{ start: 4, end: 13 }]);
+  });
+
+  it("merges overlapping ranges", () => {
+    expect(highlightMatches("sunset sun", "Sunset Boulevard")).toEqual([{ start: 0, end: 6 }]);
+  });
+
+  it("returns no ranges when nothing matches", () => {
+    expect(highlightMatches("zzz", "Heat")).toEqual([]);
+  });
+});
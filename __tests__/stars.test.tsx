@@ -0,0 +1,46 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { RatingScale } from "@shared/schema";
+import { StarPicker, scaleSteps } from "@/components/Stars";
+
+/** The picker's markup with the server on `ratingScale`. */
+function renderPicker(ratingScale: RatingScale, value: number | null = null) {
+  const client = new QueryClient();
+  client.setQueryData(["/api/config"], { ratingScale });
+  return renderToStaticMarkup(
+    <QueryClientProvider client={client}>
+      <StarPicker value={value} onSelect={() => {}} label="Rating" testIdPrefix="star" />
+    </QueryClientProvider>,
+  );
+}
+
+function buttonValues(markup: string): number[] {
+  return Array.from(markup.matchAll(/data-testid="star-([\d.]+)"/g), (match) => Number(match[1]));
+}
+
+describe("scaleSteps", () => {
+  it("lists every value from min to max", () => {
+    expect(scaleSteps({ min: 0.5, max: 3, step: 0.5 })).toEqual([0.5, 1, 1.5, 2, 2.5, 3]);
+  });
+});
+
+describe("StarPicker", () => {
+  it.each([
+    { min: 1, max: 5, step: 1 },
+    { min: 0.5, max: 5, step: 0.5 },
+    { min: 3, max: 10, step: 1 },
+    { min: 0.5, max: 10, step: 0.5 },
+  ])("has one button per value of %j", (scale) => {
+    const markup = renderPicker(scale);
+
+    expect(buttonValues(markup)).toEqual(scaleSteps(scale));
+    expect(markup.match(/<svg/g)).toHaveLength(scale.max * 2);
+  });
+
+  it("labels whole and half stars", () => {
+    const markup = renderPicker({ min: 0.5, max: 2, step: 0.5 });
+
+    expect(markup).toContain('aria-label="Rating: 0.5 stars"');
+    expect(markup).toContain('aria-label="Rating: 1 star"');
+  });
+});
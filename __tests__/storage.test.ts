@@ -0,0 +1,118 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import { DatabaseStorage, MemStorage, createStorage } from "../server/storage";
+import { loadMigrations, migrateUp } from "../server/migrate";
+import type { DomainEvent } from "../server/events";
+import { runStorageContract } from "./support/storageContract";
+
+runStorageContract("MemStorage", {
+  create: async () => new MemStorage(),
+});
+
+// Set TEST_DATABASE_URL to a throwaway database to run the contract against
+// Postgres; pending migrations are applied first. Every test truncates the
+// tables, so never point this at real data.
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+if (testDatabaseUrl) {
+  const pool = new pg.Pool({ connectionString: testDatabaseUrl });
+  const db = drizzle(pool);
+  beforeAll(async () => {
+    await migrateUp(pool, await loadMigrations());
+  });
+  afterAll(() => pool.end());
+
+  runStorageContract("DatabaseStorage", {
+    create: async () => {
+      const storage = new DatabaseStorage(db);
+      await storage.clearData();
+      return storage;
+    },
+  });
+
+  describe("DatabaseStorage rating aggregates", () => {
+    let storage: DatabaseStorage;
+
+    beforeEach(async () => {
+      storage = new DatabaseStorage(db);
+      await storage.clearData();
+    });
+
+    it("reports drifted aggregates and repairs them unless it's a dry run", async () => {
+      const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+      await storage.addRating(movie.id, 5);
+      await storage.addRating(movie.id, 3);
+      await pool.query(`UPDATE movies SET rating_count = 7, rating_histogram = '{"3": 1}' WHERE id = $1`, [movie.id]);
+
+      const expected = [
+        {
+          movieId: movie.id,
+          title: "Casablanca",
+          stored: { count: 7, sum: 8, histogram: { "3": 1 } },
+          actual: { count: 2, sum: 8, histogram: { "3": 1, "5": 1 } },
+        },
+      ];
+      expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual(expected);
+      expect(await storage.recomputeRatingAggregates()).toEqual(expected);
+      expect(await storage.recomputeRatingAggregates()).toEqual([]);
+      expect(await storage.getAllMovies()).toMatchObject([{ avgRating: 4, totalRatings: 2 }]);
+    });
+  });
+
+  describe("DatabaseStorage events across instances", () => {
+    // A second pool stands in for another server process on the same database.
+    const otherPool = new pg.Pool({ connectionString: testDatabaseUrl });
+    let listener: DatabaseStorage;
+    let writer: DatabaseStorage;
+
+    beforeEach(async () => {
+      listener = new DatabaseStorage(db);
+      writer = new DatabaseStorage(drizzle(otherPool));
+      await writer.clearData();
+    });
+
+    afterEach(() => listener.events.close());
+    afterAll(() => otherPool.end());
+
+    it("delivers events written by another instance once they commit", async () => {
+      const received: DomainEvent[] = [];
+      await listener.events.subscribe((event) => received.push(event));
+
+      const movie = await writer.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+      await writer.addRating(movie.id, 4);
+      for (let waited = 0; received.length < 2 && waited < 5000; waited += 20) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(received).toEqual([
+        { type: "movie.created", movieId: movie.id },
+        expect.objectContaining({ type: "rating.created", movieId: movie.id, score: 4, totalRatings: 1 }),
+      ]);
+    });
+
+    it("holds one connection while subscribed and gives it up on close", async () => {
+      const checkedOut = () => pool.totalCount - pool.idleCount;
+      const before = checkedOut();
+      await listener.events.subscribe(() => {});
+      await listener.events.subscribe(() => {});
+      expect(checkedOut()).toBe(before + 1);
+
+      await listener.events.close();
+      expect(checkedOut()).toBe(before);
+    });
+  });
+} else {
+  describe.skip("IStorage contract: DatabaseStorage (TEST_DATABASE_URL not set)", () => {
+    it("is skipped", () => {});
+  });
+}
+
+describe("createStorage", () => {
+  it("builds a MemStorage for the memory driver", () => {
+    expect(createStorage("memory")).toBeInstanceOf(MemStorage);
+  });
+
+  it("rejects unknown drivers", () => {
+    expect(() => createStorage("sqlite")).toThrow(/Unknown STORAGE_DRIVER/);
+  });
+});
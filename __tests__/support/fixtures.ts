@@ -0,0 +1,7 @@
+import { loadFixtures, readFixtureSet } from "../../server/fixtures";
+import type { IStorage } from "../../server/storage";
+
+/** Loads fixtures/test: the ten classic films many tests rank and search over. */
+export async function loadTestFixtures(storage: IStorage): Promise<void> {
+  await loadFixtures(storage, await readFixtureSet("test"));
+}
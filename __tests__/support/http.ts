@@ -0,0 +1,89 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { IMPORT_MAX_BYTES } from "../../server/imports";
+import { registerRoutes } from "../../server/routes";
+import type { IStorage } from "../../server/storage";
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestClient {
+  /** Sends `body` as JSON, or as multipart when it is FormData. */
+  request(method: string, path: string, body?: unknown): Promise<TestResponse>;
+}
+
+export interface TestServer extends TestClient {
+  /** The server's address, like http://127.0.0.1:1234. */
+  url: string;
+  /** A client that keeps cookies between requests, like a logged-in browser. */
+  agent(): TestClient;
+  close(): Promise<void>;
+}
+
+function createClient(baseUrl: string, cookies?: Map<string, string>): TestClient {
+  return {
+    async request(method, path, body) {
+      const multipart = body instanceof FormData;
+      const headers: Record<string, string> = {};
+      if (body !== undefined && !multipart) headers["Content-Type"] = "application/json";
+      if (cookies && cookies.size > 0) {
+        headers.Cookie = Array.from(cookies, ([name, value]) => `${name}=${value}`).join("; ");
+      }
+
+      const res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: multipart ? body : body !== undefined ? JSON.stringify(body) : undefined,
+      });
+      for (const cookie of res.headers.getSetCookie()) {
+        const [pair] = cookie.split(";");
+        const separator = pair.indexOf("=");
+        cookies?.set(pair.slice(0, separator), pair.slice(separator + 1));
+      }
+
+      const text = await res.text();
+      return { status: res.status, body: text ? JSON.parse(text) : undefined };
+    },
+  };
+}
+
+/**
+ * Boots the API routes on an ephemeral port, backed by the given storage,
+ * and returns a small fetch-based client for it.
+ */
+export async function startTestServer(storage: IStorage): Promise<TestServer> {
+  const app = express();
+  // The same body parsers as server/index.ts.
+  app.use("/api/movies/import", express.json({ limit: IMPORT_MAX_BYTES }));
+  app.use(express.json());
+  const httpServer: Server = createServer(app);
+  await registerRoutes(httpServer, app, storage);
+
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    ...createClient(baseUrl),
+    url: baseUrl,
+    agent: () => createClient(baseUrl, new Map()),
+    close() {
+      return new Promise((resolve, reject) =>
+        httpServer.close((err) => (err ? reject(err) : resolve())),
+      );
+    },
+  };
+}
+
+/** Registers a user and returns an agent logged in as them. */
+export async function signUp(server: TestServer, username = "joe"): Promise<TestClient> {
+  const agent = server.agent();
+  const res = await agent.request("POST", "/api/auth/register", { username, password: "popcorn-time" });
+  if (res.status !== 201) {
+    throw new Error(`sign up failed with ${res.status}: ${JSON.stringify(res.body)}`);
+  }
+  return agent;
+}
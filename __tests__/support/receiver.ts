@@ -0,0 +1,44 @@
+import { createServer, type IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+
+export interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export interface TestReceiver {
+  url: string;
+  /** Every request received so far, oldest first. */
+  requests: ReceivedRequest[];
+  /** Answers the next requests with these statuses, then 200 again. */
+  respondWith(...statuses: number[]): void;
+  close(): Promise<void>;
+}
+
+/** A local HTTP endpoint that records what is POSTed to it, for webhook tests. */
+export async function startReceiver(): Promise<TestReceiver> {
+  const requests: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf-8") });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    requests,
+    respondWith: (...next) => statuses.push(...next),
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,1542 @@
+import { DEFAULT_RATING_SCALE, movieListQuerySchema, type MovieListResponse } from "@shared/schema";
+import { JOB_LEASE_LAPSED_ERROR, type IStorage } from "../../server/storage";
+import type { DomainEvent } from "../../server/events";
+import { WEBHOOK_JOB } from "../../server/webhooks";
+import { InvalidCursorError } from "../../server/pagination";
+import { DuplicateCreditError } from "../../server/people";
+import { OwnReviewVoteError } from "../../server/reviews";
+import { UnknownCriterionError } from "../../server/criteria";
+import { loadTestFixtures } from "./fixtures";
+
+/** Subscribes to storage's events; `take(n)` waits for the first `n`, as delivery may be asynchronous. */
+async function recordEvents(storage: IStorage) {
+  const events: DomainEvent[] = [];
+  const unsubscribe = await storage.events.subscribe((event) => events.push(event));
+  return {
+    unsubscribe,
+    async take(count: number): Promise<DomainEvent[]> {
+      for (let waited = 0; events.length < count && waited < 5000; waited += 20) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return events.slice(0, count);
+    },
+  };
+}
+
+export interface StorageHarness {
+  /** Returns an empty storage instance. Called before every test. */
+  create(): Promise<IStorage>;
+  /** Releases connections etc. once the suite is done. */
+  close?(): Promise<void>;
+}
+
+/**
+ * Behaviour every IStorage driver must share. Register a driver with
+ * `runStorageContract("name", harness)` from a test file.
+ */
+export function runStorageContract(name: string, harness: StorageHarness) {
+  describe(`IStorage contract: ${name}`, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await harness.create();
+    });
+
+    afterAll(async () => {
+      await harness.close?.();
+    });
+
+    describe("users", () => {
+      it("creates and finds users by id and username", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+
+        expect(user).toMatchObject({ id: expect.any(Number), username: "joe", password: "hashed" });
+        expect(await storage.getUser(user.id)).toMatchObject({ username: "joe" });
+        expect(await storage.getUserByUsername("joe")).toMatchObject({ id: user.id });
+      });
+
+      it("returns undefined for unknown users", async () => {
+        expect(await storage.getUser(999999)).toBeUndefined();
+        expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+      });
+
+      it("rejects duplicate usernames", async () => {
+        await storage.createUser({ username: "joe", password: "hashed" });
+        await expect(storage.createUser({ username: "joe", password: "other" })).rejects.toThrow();
+      });
+    });
+
+    describe("getAllMovies", () => {
+      it("returns an empty list for an empty store", async () => {
+        expect(await storage.getAllMovies()).toEqual([]);
+      });
+
+      it("orders movies by title", async () => {
+        await storage.addMovie({ title: "Vertigo", year: 1958, genres: ["Thriller"] });
+        await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addMovie({ title: "Metropolis", year: 1927, genres: ["Sci-Fi"] });
+
+        const titles = (await storage.getAllMovies()).map((m) => m.title);
+        expect(titles).toEqual(["Casablanca", "Metropolis", "Vertigo"]);
+      });
+
+      it("reports 0 average and 0 total for unrated movies", async () => {
+        await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        const [movie] = await storage.getAllMovies();
+        expect(movie.avgRating).toBe(0);
+        expect(movie.totalRatings).toBe(0);
+      });
+
+      it("rounds the average to one decimal", async () => {
+        const a = await storage.addMovie({ title: "A", year: 1950, genres: ["Drama"] });
+        const b = await storage.addMovie({ title: "B", year: 1950, genres: ["Drama"] });
+        const c = await storage.addMovie({ title: "C", year: 1950, genres: ["Drama"] });
+        for (const score of [5, 5, 4]) await storage.addRating(a.id, score);
+        for (const score of [4, 4, 5]) await storage.addRating(b.id, score);
+        for (const score of [1, 2]) await storage.addRating(c.id, score);
+
+        const stats = (await storage.getAllMovies()).map((m) => [m.title, m.avgRating, m.totalRatings]);
+        expect(stats).toEqual([
+          ["A", 4.7, 3],
+          ["B", 4.3, 3],
+          ["C", 1.5, 2],
+        ]);
+      });
+
+      it("returns numbers rather than numeric strings", async () => {
+        const movie = await storage.addMovie({ title: "A", year: 1950, genres: ["Drama"] });
+        await storage.addRating(movie.id, 3);
+
+        const [stats] = await storage.getAllMovies();
+        expect(typeof stats.avgRating).toBe("number");
+        expect(typeof stats.totalRatings).toBe("number");
+      });
+    });
+
+    describe("listMovies", () => {
+      const list = (query: Record<string, unknown> = {}) => storage.listMovies(movieListQuerySchema.parse(query));
+      const titles = (page: MovieListResponse) => page.items.map((m) => m.title);
+
+      async function addRated(title: string, year: number, genre: string, scores: number[]) {
+        const movie = await storage.addMovie({ title, year, genres: [genre] });
+        for (const score of scores) await storage.addRating(movie.id, score);
+        return movie;
+      }
+
+      beforeEach(async () => {
+        await addRated("Pulp Fiction", 1994, "Crime", [4, 5]);
+        await addRated("The Godfather", 1972, "Crime", [5, 5, 4]);
+        await addRated("Heat", 1995, "Crime", [5]);
+        await addRated("Casablanca", 1942, "Drama", [4, 4]);
+        await addRated("Metropolis", 1927, "Sci-Fi", []);
+      });
+
+      it("defaults to title order with no cursor when everything fits", async () => {
+        const page = await list();
+        expect(titles(page)).toEqual(["Casablanca", "Heat", "Metropolis", "Pulp Fiction", "The Godfather"]);
+        expect(page.nextCursor).toBeNull();
+      });
+
+      it.each([
+        ["year", "asc", ["Metropolis", "Casablanca", "The Godfather", "Pulp Fiction", "Heat"]],
+        ["year", "desc", ["Heat", "Pulp Fiction", "The Godfather", "Casablanca", "Metropolis"]],
+        ["title", "desc", ["The Godfather", "Pulp Fiction", "Metropolis", "Heat", "Casablanca"]],
+        ["totalRatings", "desc", ["The Godfather", "Casablanca", "Pulp Fiction", "Heat", "Metropolis"]],
+      ])("sorts by %s %s", async (sort, order, expected) => {
+        expect(titles(await list({ sort, order }))).toEqual(expected);
+      });
+
+      it("sorts by average rating descending by default, breaking ties by id", async () => {
+        expect(titles(await list({ sort: "avgRating" }))).toEqual([
+          "Heat",
+          "The Godfather",
+          "Pulp Fiction",
+          "Casablanca",
+          "Metropolis",
+        ]);
+      });
+
+      it("sorts by creation time", async () => {
+        expect(titles(await list({ sort: "createdAt", order: "asc" }))).toEqual([
+          "Pulp Fiction",
+          "The Godfather",
+          "Heat",
+          "Casablanca",
+          "Metropolis",
+        ]);
+      });
+
+      it("filters by genre case-insensitively", async () => {
+        expect(titles(await list({ genre: "crime" }))).toEqual(["Heat", "Pulp Fiction", "The Godfather"]);
+      });
+
+      it("filters by year range", async () => {
+        expect(titles(await list({ yearFrom: 1990, yearTo: 1994 }))).toEqual(["Pulp Fiction"]);
+      });
+
+      it("filters by minimum rating and votes", async () => {
+        expect(titles(await list({ minRating: 4.5 }))).toEqual(["Heat", "Pulp Fiction", "The Godfather"]);
+        expect(titles(await list({ minRating: 4.5, minVotes: 2 }))).toEqual(["Pulp Fiction", "The Godfather"]);
+      });
+
+      it("filters by runtime range and certification, leaving out movies without them", async () => {
+        const godfather = (await list({ genre: "crime", sort: "year", order: "asc" })).items[0];
+        const casablanca = (await list({ genre: "drama" })).items[0];
+        const heat = (await list({ yearFrom: 1995 })).items[0];
+        await storage.updateMovie(godfather.id, { runtimeMinutes: 175, certification: "R" });
+        await storage.updateMovie(casablanca.id, { runtimeMinutes: 102, certification: "PG" });
+        await storage.updateMovie(heat.id, { runtimeMinutes: 170 });
+
+        expect(titles(await list({ maxRuntime: 120 }))).toEqual(["Casablanca"]);
+        expect(titles(await list({ minRuntime: 120, maxRuntime: 175 }))).toEqual(["Heat", "The Godfather"]);
+        expect(titles(await list({ certification: "R" }))).toEqual(["The Godfather"]);
+        expect(titles(await list({ certification: "G,PG" }))).toEqual(["Casablanca"]);
+      });
+
+      it.each(["title", "year", "avgRating", "totalRatings", "createdAt"])(
+        "pages through every movie exactly once when sorted by %s",
+        async (sort) => {
+          const expected = titles(await list({ sort }));
+          const seen: string[] = [];
+          let cursor: string | undefined;
+          do {
+            const page: MovieListResponse = await list({ sort, limit: 2, cursor });
+            expect(page.items.length).toBeLessThanOrEqual(2);
+            seen.push(...titles(page));
+            cursor = page.nextCursor ?? undefined;
+          } while (cursor);
+
+          expect(seen).toEqual(expected);
+        },
+      );
+
+      it("applies filters across pages", async () => {
+        const first = await list({ genre: "Crime", sort: "year", order: "asc", limit: 2 });
+        expect(titles(first)).toEqual(["The Godfather", "Pulp Fiction"]);
+
+        const second = await list({ genre: "Crime", sort: "year", order: "asc", limit: 2, cursor: first.nextCursor });
+        expect(titles(second)).toEqual(["Heat"]);
+        expect(second.nextCursor).toBeNull();
+      });
+
+      it("rejects a cursor that doesn't match the sort field", async () => {
+        const { nextCursor } = await list({ sort: "title", limit: 1 });
+        await expect(list({ sort: "year", cursor: nextCursor })).rejects.toThrow(InvalidCursorError);
+      });
+    });
+
+    describe("searchMovies", () => {
+      const search = (q: string, limit = 10) => storage.searchMovies({ q, limit });
+      const titles = (results: { title: string }[]) => results.map((r) => r.title);
+
+      beforeEach(async () => {
+        await loadTestFixtures(storage);
+      });
+
+      it("finds a movie by a whole word", async () => {
+        expect(titles(await search("godfather"))[0]).toBe("The Godfather");
+      });
+
+      it("finds a movie by a partial word", async () => {
+        expect(titles(await search("shawsh"))).toEqual(["The Shawshank Redemption"]);
+      });
+
+      it("tolerates misspellings", async () => {
+        expect(titles(await search("godfater"))[0]).toBe("The Godfather");
+        expect(titles(await search("mulholand"))[0]).toBe("Mulholland Drive");
+      });
+
+      it("ranks the closest match first and includes stats", async () => {
+        const [top] = await search("blade runner");
+        expect(top).toMatchObject({ title: "Blade Runner", avgRating: 4.3, totalRatings: 3 });
+        expect(top.rank).toBeGreaterThan(0);
+      });
+
+      it("returns highlight ranges within the title", async () => {
+        const [top] = await search("runner");
+        expect(top.title).toBe("Blade Runner");
+        expect(top.matches).toEqual([{ start: 6, end: 12 }]);
+      });
+
+      it("returns nothing for unrelated queries", async () => {
+        expect(await search("zzzzqqq")).toEqual([]);
+      });
+
+      it("respects the limit", async () => {
+        expect((await search("the", 2)).length).toBeLessThanOrEqual(2);
+      });
+    });
+
+    describe("getTopRated", () => {
+      const titles = (chart: { items: { title: string }[] }) => chart.items.map((m) => m.title);
+
+      beforeEach(async () => {
+        const rate = async (title: string, year: number, genre: string, scores: number[]) => {
+          const movie = await storage.addMovie({ title, year, genres: [genre] });
+          for (const score of scores) await storage.addRating(movie.id, score);
+        };
+        await rate("One Hit Wonder", 1995, "Drama", [5]);
+        await rate("The Godfather", 1972, "Crime", [5, 5, 5, 5, 4, 5]);
+        await rate("Meh", 1998, "Crime", [2, 3]);
+        await rate("Unrated", 1990, "Crime", []);
+      });
+
+      it("ranks by Bayesian weighted score rather than the raw average", async () => {
+        const chart = await storage.getTopRated({ minVotes: 1, limit: 10 });
+
+        expect(chart.minVotes).toBe(1);
+        expect(chart.globalMean).toBe(4.33);
+        expect(chart.items.map((m) => [m.title, m.avgRating, m.weightedScore])).toEqual([
+          ["The Godfather", 4.8, 4.76],
+          ["One Hit Wonder", 5, 4.67],
+          ["Meh", 2.5, 3.11],
+        ]);
+      });
+
+      it("leaves out movies below the minimum vote count", async () => {
+        const chart = await storage.getTopRated({ minVotes: 2, limit: 10 });
+
+        expect(titles(chart)).toEqual(["The Godfather", "Meh"]);
+        expect(chart.items[0].weightedScore).toBe(4.71);
+      });
+
+      it("scopes by genre and decade", async () => {
+        expect(titles(await storage.getTopRated({ minVotes: 1, genre: "crime", limit: 10 }))).toEqual([
+          "The Godfather",
+          "Meh",
+        ]);
+        expect(titles(await storage.getTopRated({ minVotes: 1, decade: 1990, limit: 10 }))).toEqual([
+          "One Hit Wonder",
+          "Meh",
+        ]);
+      });
+
+      it("respects the limit", async () => {
+        expect(titles(await storage.getTopRated({ minVotes: 1, limit: 1 }))).toEqual(["The Godfather"]);
+      });
+    });
+
+    describe("genres", () => {
+      const slugs = (movie: { genres: { slug: string }[] }) => movie.genres.map((g) => g.slug);
+
+      it("resolves spellings of the same genre to one record", async () => {
+        const alien = await storage.addMovie({ title: "Alien", year: 1979, genres: ["Sci-Fi", "Horror"] });
+        const solaris = await storage.addMovie({ title: "Solaris", year: 1972, genres: ["sci fi"] });
+        const dune = await storage.addMovie({ title: "Dune", year: 2021, genres: ["Science Fiction", "SCI-FI"] });
+
+        expect(slugs(alien)).toEqual(["horror", "sci-fi"]);
+        expect(solaris.genres).toEqual([alien.genres[1]]);
+        expect(dune.genres).toEqual([alien.genres[1]]);
+        expect(alien.genres[1].name).toBe("Sci-Fi");
+        expect(alien.genres[1].color).toMatch(/^#[0-9a-f]{6}$/);
+      });
+
+      it("filters listings and charts by any of a movie's genres, by name or slug", async () => {
+        const heat = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime", "Thriller"] });
+        await storage.addMovie({ title: "Alien", year: 1979, genres: ["Sci-Fi"] });
+        await storage.addRating(heat.id, 5);
+
+        const list = (genre: string) => storage.listMovies(movieListQuerySchema.parse({ genre }));
+        expect((await list("thriller")).items.map((m) => m.title)).toEqual(["Heat"]);
+        expect((await list("Science Fiction")).items.map((m) => m.title)).toEqual(["Alien"]);
+        expect((await list("western")).items).toEqual([]);
+        const chart = await storage.getTopRated({ minVotes: 1, genre: "Crime", limit: 10 });
+        expect(chart.items.map((m) => m.title)).toEqual(["Heat"]);
+      });
+
+      it("lists genres with movie counts and average ratings", async () => {
+        const heat = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime", "Thriller"] });
+        const godfather = await storage.addMovie({ title: "The Godfather", year: 1972, genres: ["Crime"] });
+        await storage.addMovie({ title: "Vertigo", year: 1958, genres: ["Thriller"] });
+        await storage.addRating(heat.id, 4);
+        await storage.addRating(godfather.id, 5);
+        await storage.addRating(godfather.id, 5);
+
+        expect(await storage.listGenres()).toEqual([
+          expect.objectContaining({ slug: "crime", name: "Crime", movieCount: 2, avgRating: 4.7 }),
+          expect.objectContaining({ slug: "thriller", name: "Thriller", movieCount: 2, avgRating: 4 }),
+        ]);
+      });
+
+      it("keeps genres that no longer have movies", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.deleteMovie(movie.id);
+
+        expect(await storage.listGenres()).toEqual([
+          expect.objectContaining({ slug: "crime", movieCount: 0, avgRating: 0 }),
+        ]);
+      });
+
+      it("creates a genre or updates the one with the same slug", async () => {
+        const created = await storage.saveGenre({ name: "Sci-Fi", color: "#9333ea" });
+        const updated = await storage.saveGenre({ name: "Science Fiction", color: "#4f46e5" });
+
+        expect(created).toMatchObject({ slug: "sci-fi", name: "Sci-Fi", color: "#9333ea" });
+        expect(updated).toEqual({ id: created.id, slug: "sci-fi", name: "Science Fiction", color: "#4f46e5" });
+        const movie = await storage.addMovie({ title: "Alien", year: 1979, genres: ["sci fi"] });
+        expect(movie.genres).toEqual([updated]);
+      });
+    });
+
+    describe("getMovieById", () => {
+      it("returns the stored movie", async () => {
+        const added = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        const found = await storage.getMovieById(added.id);
+        expect(found).toMatchObject({
+          id: added.id,
+          title: "Casablanca",
+          year: 1942,
+          genres: [expect.objectContaining({ slug: "drama", name: "Drama" })],
+        });
+      });
+
+      it("returns undefined for an unknown id", async () => {
+        expect(await storage.getMovieById(999999)).toBeUndefined();
+      });
+    });
+
+    describe("addMovie", () => {
+      it("assigns an id and createdAt", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        expect(typeof movie.id).toBe("number");
+        expect(movie.createdAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe("updateMovie", () => {
+      it("applies a partial update and returns the movie", async () => {
+        const movie = await storage.addMovie({ title: "Casablanka", year: 1942, genres: ["Drama"] });
+
+        const updated = await storage.updateMovie(movie.id, { title: "Casablanca" });
+        expect(updated).toMatchObject({
+          id: movie.id,
+          title: "Casablanca",
+          year: 1942,
+          genres: [expect.objectContaining({ slug: "drama" })],
+        });
+        expect(await storage.getMovieById(movie.id)).toMatchObject({ title: "Casablanca" });
+      });
+
+      it("replaces the genres when given", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+
+        const updated = await storage.updateMovie(movie.id, { genres: ["Thriller", "Drama"] });
+        expect(updated!.genres.map((g) => g.slug)).toEqual(["drama", "thriller"]);
+        expect((await storage.getMovieById(movie.id))!.genres.map((g) => g.slug)).toEqual(["drama", "thriller"]);
+      });
+
+      it("sets and clears metadata", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        expect(movie).toMatchObject({
+          runtimeMinutes: null,
+          synopsis: null,
+          originalLanguage: null,
+          country: null,
+          certification: null,
+          externalIds: {},
+        });
+
+        const metadata = {
+          runtimeMinutes: 170,
+          synopsis: "A thief and a detective circle each other.",
+          originalLanguage: "en",
+          country: "US",
+          certification: "R" as const,
+          externalIds: { imdb: "tt0113277", tmdb: 949 },
+        };
+        expect(await storage.updateMovie(movie.id, metadata)).toMatchObject(metadata);
+        expect(await storage.getMovieById(movie.id)).toMatchObject(metadata);
+
+        const cleared = await storage.updateMovie(movie.id, { certification: null, synopsis: null });
+        expect(cleared).toMatchObject({ runtimeMinutes: 170, certification: null, synopsis: null });
+      });
+
+      it("returns undefined for an unknown id", async () => {
+        expect(await storage.updateMovie(999999, { title: "Nope" })).toBeUndefined();
+      });
+    });
+
+    describe("setMoviePoster", () => {
+      it("sets and clears the poster key, keeping the rest of the movie", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        expect(movie.posterKey).toBeNull();
+
+        const updated = await storage.setMoviePoster(movie.id, "0123456789abcdef0123456789abcdef");
+        expect(updated).toMatchObject({
+          title: "Heat",
+          posterKey: "0123456789abcdef0123456789abcdef",
+          genres: [expect.objectContaining({ slug: "crime" })],
+        });
+        expect((await storage.getMovieById(movie.id))!.posterKey).toBe("0123456789abcdef0123456789abcdef");
+
+        expect((await storage.setMoviePoster(movie.id, null))!.posterKey).toBeNull();
+      });
+
+      it("returns undefined for an unknown id", async () => {
+        expect(await storage.setMoviePoster(999999, "0123456789abcdef0123456789abcdef")).toBeUndefined();
+      });
+    });
+
+    describe("deleteMovie", () => {
+      it("removes the movie and its ratings", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5);
+
+        expect(await storage.deleteMovie(movie.id)).toBe(true);
+        expect(await storage.getMovieById(movie.id)).toBeUndefined();
+        expect(await storage.getRatingsForMovie(movie.id)).toEqual([]);
+        expect(await storage.getAllMovies()).toEqual([]);
+      });
+
+      it("returns false for an unknown id", async () => {
+        expect(await storage.deleteMovie(999999)).toBe(false);
+      });
+    });
+
+    describe("addRating", () => {
+      it("returns the new average and total", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        expect(await storage.addRating(movie.id, 5)).toEqual({ avgRating: 5, totalRatings: 1, previousScore: null });
+        expect(await storage.addRating(movie.id, 4)).toEqual({ avgRating: 4.5, totalRatings: 2, previousScore: null });
+        expect(await storage.addRating(movie.id, 4)).toEqual({ avgRating: 4.3, totalRatings: 3, previousScore: null });
+      });
+
+      it("only aggregates ratings for the given movie", async () => {
+        const a = await storage.addMovie({ title: "A", year: 1950, genres: ["Drama"] });
+        const b = await storage.addMovie({ title: "B", year: 1950, genres: ["Drama"] });
+        await storage.addRating(a.id, 1);
+
+        expect(await storage.addRating(b.id, 5)).toEqual({ avgRating: 5, totalRatings: 1, previousScore: null });
+      });
+
+      it("replaces a user's existing rating and returns the previous score", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5);
+
+        expect(await storage.addRating(movie.id, 1, user.id)).toEqual({ avgRating: 3, totalRatings: 2, previousScore: null });
+        expect(await storage.addRating(movie.id, 3, user.id)).toEqual({ avgRating: 4, totalRatings: 2, previousScore: 1 });
+        expect(await storage.getUserRating(movie.id, user.id)).toBe(3);
+      });
+
+      it("keeps ratings from different users separate", async () => {
+        const joe = await storage.createUser({ username: "joe", password: "hashed" });
+        const ann = await storage.createUser({ username: "ann", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        await storage.addRating(movie.id, 5, joe.id);
+        expect(await storage.addRating(movie.id, 2, ann.id)).toEqual({ avgRating: 3.5, totalRatings: 2, previousScore: null });
+        expect(await storage.getUserRating(movie.id, joe.id)).toBe(5);
+        expect(await storage.getUserRating(movie.id, ann.id)).toBe(2);
+      });
+    });
+
+    describe("getUserRating", () => {
+      it("returns undefined when the user hasn't rated the movie", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5);
+
+        expect(await storage.getUserRating(movie.id, user.id)).toBeUndefined();
+      });
+    });
+
+    describe("reviews", () => {
+      it("stores a review with the rating and returns it with its author", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        await storage.addRating(movie.id, 5, user.id, { review: "Here's *looking* at you.", spoiler: true });
+
+        expect(await storage.getReview(movie.id, user.id)).toEqual({
+          id: expect.any(Number),
+          movieId: movie.id,
+          score: 5,
+          body: "Here's *looking* at you.",
+          spoiler: true,
+          reviewedAt: expect.any(Date),
+          helpfulCount: 0,
+          notHelpfulCount: 0,
+          helpfulScore: 0,
+          user: { id: user.id, username: "joe" },
+          userVote: null,
+        });
+      });
+
+      it("keeps the review when re-rating without one and removes it with null", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5, user.id, { review: "A classic." });
+
+        await storage.addRating(movie.id, 4, user.id);
+        expect(await storage.getReview(movie.id, user.id)).toMatchObject({ score: 4, body: "A classic.", spoiler: false });
+
+        await storage.addRating(movie.id, 4, user.id, { spoiler: true });
+        expect((await storage.getReview(movie.id, user.id))!.spoiler).toBe(true);
+
+        await storage.addRating(movie.id, 4, user.id, { review: null });
+        expect(await storage.getReview(movie.id, user.id)).toBeUndefined();
+        expect(await storage.getUserRating(movie.id, user.id)).toBe(4);
+      });
+
+      it("ignores the spoiler flag on a rating without a review", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5, user.id, { spoiler: true });
+        await storage.addRating(movie.id, 5, user.id, { review: "Later thoughts." });
+
+        expect(await storage.getReview(movie.id, user.id)).toMatchObject({ spoiler: false });
+      });
+
+      it("lists only the movie's reviewed ratings, newest first, a page at a time", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        const other = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 3);
+        await storage.addRating(other.id, 4, undefined, { review: "Elsewhere." });
+        for (const body of ["First.", "Second.", "Third."]) {
+          await storage.addRating(movie.id, 4, undefined, { review: body });
+        }
+
+        const first = await storage.listReviews(movie.id, { sort: "newest", limit: 2 });
+        expect(first.items.map((r) => r.body)).toEqual(["Third.", "Second."]);
+        expect(first.items[0].user).toBeNull();
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = await storage.listReviews(movie.id, { sort: "newest", limit: 2, cursor: first.nextCursor! });
+        expect(second).toEqual({ items: [expect.objectContaining({ body: "First." })], nextCursor: null });
+      });
+
+      it("pages the most helpful ordering", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        for (const body of ["First.", "Second.", "Third."]) {
+          await storage.addRating(movie.id, 4, undefined, { review: body });
+        }
+
+        const first = await storage.listReviews(movie.id, { sort: "helpful", limit: 2 });
+        const second = await storage.listReviews(movie.id, { sort: "helpful", limit: 2, cursor: first.nextCursor! });
+        expect([...first.items, ...second.items].map((r) => r.body)).toEqual(["Third.", "Second.", "First."]);
+        expect(second.nextCursor).toBeNull();
+      });
+
+      it("rejects a cursor issued for the other ordering", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4, undefined, { review: "One." });
+        await storage.addRating(movie.id, 4, undefined, { review: "Two." });
+        const { nextCursor } = await storage.listReviews(movie.id, { sort: "newest", limit: 1 });
+
+        await expect(
+          storage.listReviews(movie.id, { sort: "helpful", limit: 1, cursor: nextCursor! }),
+        ).rejects.toThrow(InvalidCursorError);
+      });
+    });
+
+    describe("review votes", () => {
+      async function setup() {
+        const author = await storage.createUser({ username: "joe", password: "hashed" });
+        const voter = await storage.createUser({ username: "ana", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 5, author.id, { review: "A classic." });
+        const review = (await storage.getReview(movie.id, author.id))!;
+        return { author, voter, movie, review };
+      }
+
+      it("counts a vote, replaces it on a second vote and shows it to the voter", async () => {
+        const { voter, movie, review } = await setup();
+
+        expect(await storage.voteOnReview(review.id, voter.id, true)).toEqual({
+          helpfulCount: 1,
+          notHelpfulCount: 0,
+          helpfulScore: expect.any(Number),
+          userVote: true,
+        });
+        expect(await storage.voteOnReview(review.id, voter.id, false)).toMatchObject({
+          helpfulCount: 0,
+          notHelpfulCount: 1,
+          helpfulScore: 0,
+          userVote: false,
+        });
+
+        const [seen] = (await storage.listReviews(movie.id, { sort: "newest", limit: 10 }, voter.id)).items;
+        expect(seen).toMatchObject({ helpfulCount: 0, notHelpfulCount: 1, userVote: false });
+        const [anonymous] = (await storage.listReviews(movie.id, { sort: "newest", limit: 10 })).items;
+        expect(anonymous.userVote).toBeNull();
+      });
+
+      it("retracts a vote", async () => {
+        const { voter, review } = await setup();
+        await storage.voteOnReview(review.id, voter.id, true);
+
+        expect(await storage.retractReviewVote(review.id, voter.id)).toEqual({
+          helpfulCount: 0,
+          notHelpfulCount: 0,
+          helpfulScore: 0,
+          userVote: null,
+        });
+        expect(await storage.retractReviewVote(review.id, voter.id)).toBeUndefined();
+      });
+
+      it("rejects votes on your own review and on missing reviews", async () => {
+        const { author, voter, movie, review } = await setup();
+
+        await expect(storage.voteOnReview(review.id, author.id, true)).rejects.toThrow(OwnReviewVoteError);
+        expect(await storage.voteOnReview(999999, voter.id, true)).toBeUndefined();
+
+        await storage.addRating(movie.id, 5, author.id, { review: null });
+        expect(await storage.voteOnReview(review.id, voter.id, true)).toBeUndefined();
+      });
+
+      it("ranks most helpful by the Wilson lower bound rather than the raw share", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4, undefined, { review: "Lucky." });
+        await storage.addRating(movie.id, 4, undefined, { review: "Proven." });
+        const [proven, lucky] = (await storage.listReviews(movie.id, { sort: "newest", limit: 10 })).items;
+        const voters = [];
+        for (let i = 0; i < 5; i++) {
+          voters.push(await storage.createUser({ username: `voter${i}`, password: "hashed" }));
+        }
+
+        await storage.voteOnReview(lucky.id, voters[0].id, true);
+        for (let i = 0; i < voters.length; i++) {
+          await storage.voteOnReview(proven.id, voters[i].id, i < 4);
+        }
+
+        const { items } = await storage.listReviews(movie.id, { sort: "helpful", limit: 10 });
+        expect(items.map((r) => r.body)).toEqual(["Proven.", "Lucky."]);
+      });
+
+      it("drops the votes when the review or rating goes away", async () => {
+        const { author, voter, movie, review } = await setup();
+        await storage.voteOnReview(review.id, voter.id, true);
+
+        await storage.addRating(movie.id, 5, author.id, { review: null });
+        await storage.addRating(movie.id, 5, author.id, { review: "Second thoughts." });
+        expect(await storage.getReview(movie.id, author.id)).toMatchObject({ helpfulCount: 0, helpfulScore: 0 });
+        expect(await storage.retractReviewVote(review.id, voter.id)).toBeUndefined();
+
+        await storage.voteOnReview(review.id, voter.id, true);
+        expect(await storage.deleteRating(movie.id, author.id)).toBeDefined();
+        expect(await storage.retractReviewVote(review.id, voter.id)).toBeUndefined();
+
+        await storage.addRating(movie.id, 5, author.id, { review: "Third time." });
+        const again = (await storage.getReview(movie.id, author.id))!;
+        await storage.voteOnReview(again.id, voter.id, false);
+        expect(await storage.deleteMovie(movie.id)).toBe(true);
+        expect(await storage.retractReviewVote(again.id, voter.id)).toBeUndefined();
+      });
+    });
+
+    describe("rating criteria", () => {
+      async function setup() {
+        for (const name of ["Story", "Acting", "Visuals"]) await storage.saveCriterion({ name });
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        return { user, movie };
+      }
+
+      it("lists criteria in position order, appending new ones", async () => {
+        await storage.saveCriterion({ name: "Story" });
+        await storage.saveCriterion({ name: "Acting" });
+        await storage.saveCriterion({ name: "Sound", position: 0 });
+
+        expect((await storage.listCriteria()).map((c) => [c.slug, c.position])).toEqual([
+          ["sound", 0],
+          ["story", 0],
+          ["acting", 1],
+        ]);
+      });
+
+      it("renames and moves the criterion with the same slug", async () => {
+        const created = await storage.saveCriterion({ name: "Visuals", position: 2 });
+
+        expect(await storage.saveCriterion({ name: "visuals" })).toEqual({ ...created, name: "visuals" });
+        expect(await storage.saveCriterion({ name: "VISUALS", position: 5 })).toEqual({
+          id: created.id,
+          slug: "visuals",
+          name: "VISUALS",
+          position: 5,
+        });
+        expect(await storage.listCriteria()).toHaveLength(1);
+      });
+
+      it("stores criterion scores by name or slug and averages them per movie", async () => {
+        const { user, movie } = await setup();
+        await storage.addRating(movie.id, 4, user.id, { criteria: { Story: 3, acting: 5 } });
+        await storage.addRating(movie.id, 5, undefined, { criteria: { story: 4 } });
+
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({ story: 3, acting: 5 });
+        expect(
+          (await storage.getCriterionAverages(movie.id)).map(({ slug, avgScore, totalScores }) => ({
+            slug,
+            avgScore,
+            totalScores,
+          })),
+        ).toEqual([
+          { slug: "story", avgScore: 3.5, totalScores: 2 },
+          { slug: "acting", avgScore: 5, totalScores: 1 },
+          { slug: "visuals", avgScore: 0, totalScores: 0 },
+        ]);
+      });
+
+      it("keeps scores when re-rating without criteria and replaces them when given", async () => {
+        const { user, movie } = await setup();
+        await storage.addRating(movie.id, 4, user.id, { criteria: { story: 3, acting: 5 } });
+
+        await storage.addRating(movie.id, 5, user.id);
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({ story: 3, acting: 5 });
+
+        await storage.addRating(movie.id, 5, user.id, { criteria: { visuals: 2 } });
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({ visuals: 2 });
+
+        await storage.addRating(movie.id, 5, user.id, { criteria: {} });
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({});
+      });
+
+      it("rejects unknown criteria without saving the rating", async () => {
+        const { user, movie } = await setup();
+
+        await expect(
+          storage.addRating(movie.id, 4, user.id, { criteria: { story: 4, pacing: 2 } }),
+        ).rejects.toThrow(UnknownCriterionError);
+        expect(await storage.getUserRating(movie.id, user.id)).toBeUndefined();
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({});
+      });
+
+      it("drops scores with their rating, movie or criterion", async () => {
+        const { user, movie } = await setup();
+        const [story] = await storage.listCriteria();
+        await storage.addRating(movie.id, 4, user.id, { criteria: { story: 3, acting: 5 } });
+        await storage.addRating(movie.id, 4, undefined, { criteria: { story: 1 } });
+
+        expect(await storage.deleteCriterion(story.id)).toBe(true);
+        expect(await storage.deleteCriterion(story.id)).toBe(false);
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({ acting: 5 });
+
+        await storage.deleteRating(movie.id, user.id);
+        expect((await storage.getCriterionAverages(movie.id)).map((c) => c.totalScores)).toEqual([0, 0]);
+        expect(await storage.deleteMovie(movie.id)).toBe(true);
+      });
+    });
+
+    describe("deleteRating", () => {
+      it("removes only the user's rating and returns the new stats", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4);
+        await storage.addRating(movie.id, 1, user.id);
+
+        expect(await storage.deleteRating(movie.id, user.id)).toEqual({ avgRating: 4, totalRatings: 1 });
+        expect(await storage.getUserRating(movie.id, user.id)).toBeUndefined();
+      });
+
+      it("returns 0 average once the last rating is gone", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4, user.id);
+
+        expect(await storage.deleteRating(movie.id, user.id)).toEqual({ avgRating: 0, totalRatings: 0 });
+      });
+
+      it("returns undefined when there is nothing to delete", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        expect(await storage.deleteRating(movie.id, user.id)).toBeUndefined();
+      });
+    });
+
+    describe("recomputeRatingAggregates", () => {
+      it("finds no drift after ratings are added, replaced and removed", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4);
+        await storage.addRating(movie.id, 2, user.id);
+        await storage.addRating(movie.id, 5, user.id);
+        await storage.deleteRating(movie.id, user.id);
+        await storage.addRating(movie.id, 3, user.id);
+
+        expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual([]);
+        expect(await storage.getAllMovies()).toMatchObject([{ avgRating: 3.5, totalRatings: 2 }]);
+        expect(await storage.getRatingSummary(movie.id)).toEqual({
+          avgRating: 3.5,
+          totalRatings: 2,
+          ratingHistogram: { 3: 1, 4: 1 },
+        });
+      });
+
+      it("has no summary for unknown movies and an empty one for unrated movies", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+
+        expect(await storage.getRatingSummary(movie.id)).toEqual({ avgRating: 0, totalRatings: 0, ratingHistogram: {} });
+        expect(await storage.getRatingSummary(999999)).toBeUndefined();
+      });
+
+      it("finds no drift after loading fixtures", async () => {
+        await loadTestFixtures(storage);
+
+        expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual([]);
+      });
+
+      it("finds no drift with fractional scores", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4.5);
+        await storage.addRating(movie.id, 0.5, user.id);
+        await storage.addRating(movie.id, 3.5, user.id);
+
+        expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual([]);
+        expect(await storage.getAllMovies()).toMatchObject([{ avgRating: 4, totalRatings: 2 }]);
+        expect(await storage.getRatingSummary(movie.id)).toMatchObject({ ratingHistogram: { 3.5: 1, 4.5: 1 } });
+      });
+    });
+
+    describe("rating scale", () => {
+      const tenPoints = { min: 1, max: 10, step: 1 };
+      const halfStars = { min: 0.5, max: 5, step: 0.5 };
+
+      it("starts on the default scale", async () => {
+        expect(await storage.getRatingScale()).toEqual(DEFAULT_RATING_SCALE);
+      });
+
+      it("moves ratings and criterion scores onto the new scale", async () => {
+        await storage.saveCriterion({ name: "Story" });
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 3, user.id, { criteria: { story: 5 } });
+        await storage.addRating(movie.id, 4);
+
+        expect(await storage.rescaleRatings(tenPoints)).toEqual({
+          from: DEFAULT_RATING_SCALE,
+          to: tenPoints,
+          ratings: 2,
+          criterionScores: 1,
+        });
+        expect(await storage.getRatingScale()).toEqual(tenPoints);
+        expect(await storage.getUserRating(movie.id, user.id)).toBe(6);
+        expect(await storage.getUserCriterionScores(movie.id, user.id)).toEqual({ story: 10 });
+        expect(await storage.getAllMovies()).toMatchObject([{ avgRating: 7, totalRatings: 2 }]);
+        expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual([]);
+      });
+
+      it("keeps whole stars when moving to half stars and snaps them back", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 4);
+
+        expect(await storage.rescaleRatings(halfStars)).toMatchObject({ ratings: 0 });
+        await storage.addRating(movie.id, 2.5);
+        expect(await storage.rescaleRatings(DEFAULT_RATING_SCALE)).toMatchObject({ ratings: 1 });
+        expect((await storage.getRatingsForMovie(movie.id)).sort()).toEqual([3, 4]);
+        expect(await storage.recomputeRatingAggregates({ dryRun: true })).toEqual([]);
+      });
+
+      it("changes nothing on the same scale", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 4);
+
+        expect(await storage.rescaleRatings({ ...DEFAULT_RATING_SCALE })).toEqual({
+          from: DEFAULT_RATING_SCALE,
+          to: DEFAULT_RATING_SCALE,
+          ratings: 0,
+          criterionScores: 0,
+        });
+        expect(await storage.getRatingsForMovie(movie.id)).toEqual([4]);
+      });
+
+      it("takes another scale without moving anything only while no scores are stored", async () => {
+        expect(await storage.adoptRatingScale(tenPoints)).toBe(true);
+        expect(await storage.getRatingScale()).toEqual(tenPoints);
+
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 7);
+        expect(await storage.adoptRatingScale(tenPoints)).toBe(true);
+        expect(await storage.adoptRatingScale(DEFAULT_RATING_SCALE)).toBe(false);
+        expect(await storage.getRatingScale()).toEqual(tenPoints);
+        expect(await storage.getRatingsForMovie(movie.id)).toEqual([7]);
+      });
+
+      it("is reset to the configured scale by clearData", async () => {
+        const original = process.env.RATING_SCALE_MAX;
+        process.env.RATING_SCALE_MAX = "10";
+        try {
+          await storage.rescaleRatings(halfStars);
+          await storage.clearData();
+          expect(await storage.getRatingScale()).toEqual(tenPoints);
+        } finally {
+          if (original === undefined) delete process.env.RATING_SCALE_MAX;
+          else process.env.RATING_SCALE_MAX = original;
+          await storage.clearData();
+        }
+      });
+    });
+
+    describe("getRatingsForMovie", () => {
+      it("returns scores newest first", async () => {
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        for (const score of [1, 2, 3]) await storage.addRating(movie.id, score);
+
+        expect(await storage.getRatingsForMovie(movie.id)).toEqual([3, 2, 1]);
+      });
+
+      it("returns an empty list for a movie without ratings", async () => {
+        expect(await storage.getRatingsForMovie(999999)).toEqual([]);
+      });
+    });
+
+    describe("people", () => {
+      it("creates, finds, renames and deletes people", async () => {
+        const person = await storage.createPerson({ name: "Bily Wilder" });
+        expect(person).toMatchObject({ id: expect.any(Number), name: "Bily Wilder" });
+
+        expect(await storage.updatePerson(person.id, { name: "Billy Wilder" })).toMatchObject({ name: "Billy Wilder" });
+        expect(await storage.getPerson(person.id)).toMatchObject({
+          name: "Billy Wilder",
+          filmography: [],
+          careerAvgRating: 0,
+          ratedTitles: 0,
+        });
+        expect(await storage.deletePerson(person.id)).toBe(true);
+        expect(await storage.getPerson(person.id)).toBeUndefined();
+      });
+
+      it("returns undefined or false for unknown people", async () => {
+        expect(await storage.getPerson(999999)).toBeUndefined();
+        expect(await storage.updatePerson(999999, { name: "Nobody" })).toBeUndefined();
+        expect(await storage.deletePerson(999999)).toBe(false);
+      });
+
+      it("lists people by name, filtered by a case-insensitive substring", async () => {
+        for (const name of ["Stanley Kubrick", "Billy Wilder", "Stanley Donen", "100% Nobody"]) {
+          await storage.createPerson({ name });
+        }
+
+        const names = async (q?: string) => (await storage.listPeople({ q, limit: 10 })).map((p) => p.name);
+        expect(await names()).toEqual(["100% Nobody", "Billy Wilder", "Stanley Donen", "Stanley Kubrick"]);
+        expect(await names("stanley")).toEqual(["Stanley Donen", "Stanley Kubrick"]);
+        expect(await names("0%")).toEqual(["100% Nobody"]);
+        expect(await storage.listPeople({ limit: 1 })).toHaveLength(1);
+      });
+
+      it("builds a filmography, newest first, with each movie's roles and ratings", async () => {
+        const kelly = await storage.createPerson({ name: "Gene Kelly" });
+        const rain = await storage.addMovie({ title: "Singin' in the Rain", year: 1952, genres: ["Musical"] });
+        const paris = await storage.addMovie({ title: "An American in Paris", year: 1951, genres: ["Musical"] });
+        const anchors = await storage.addMovie({ title: "Anchors Aweigh", year: 1945, genres: ["Musical"] });
+        await storage.addCredit({ movieId: rain.id, personId: kelly.id, role: "director" });
+        await storage.addCredit({ movieId: rain.id, personId: kelly.id, role: "actor", character: "Don Lockwood", billingOrder: 1 });
+        await storage.addCredit({ movieId: paris.id, personId: kelly.id, role: "actor", character: "Jerry Mulligan" });
+        await storage.addCredit({ movieId: anchors.id, personId: kelly.id, role: "actor" });
+        for (const score of [5, 5, 4]) await storage.addRating(rain.id, score);
+        await storage.addRating(paris.id, 3);
+
+        const detail = await storage.getPerson(kelly.id);
+        expect(detail).toMatchObject({
+          name: "Gene Kelly",
+          // Each rated movie counts once: (14/3 + 3) / 2.
+          careerAvgRating: 3.8,
+          ratedTitles: 2,
+          filmography: [
+            {
+              movieId: rain.id,
+              title: "Singin' in the Rain",
+              year: 1952,
+              avgRating: 4.7,
+              totalRatings: 3,
+              credits: [
+                { role: "director", character: null, billingOrder: null },
+                { role: "actor", character: "Don Lockwood", billingOrder: 1 },
+              ],
+            },
+            { movieId: paris.id, avgRating: 3, totalRatings: 1, credits: [{ role: "actor", character: "Jerry Mulligan" }] },
+            { movieId: anchors.id, avgRating: 0, totalRatings: 0 },
+          ],
+        });
+      });
+    });
+
+    describe("credits", () => {
+      it("lists a movie's billed credits in order, then the rest by name", async () => {
+        const movie = await storage.addMovie({ title: "Sunset Boulevard", year: 1950, genres: ["Drama"] });
+        const person = async (name: string) => (await storage.createPerson({ name })).id;
+        const wilder = await person("Billy Wilder");
+        const swanson = await person("Gloria Swanson");
+        const holden = await person("William Holden");
+        const brackett = await person("Charles Brackett");
+        await storage.addCredit({ movieId: movie.id, personId: wilder, role: "director" });
+        await storage.addCredit({ movieId: movie.id, personId: swanson, role: "actor", character: "Norma Desmond", billingOrder: 2 });
+        await storage.addCredit({ movieId: movie.id, personId: holden, role: "actor", character: "Joe Gillis", billingOrder: 1 });
+        await storage.addCredit({ movieId: movie.id, personId: brackett, role: "writer" });
+
+        const credits = await storage.getMovieCredits(movie.id);
+        expect(credits.map((c) => `${c.person.name} (${c.role})`)).toEqual([
+          "William Holden (actor)",
+          "Gloria Swanson (actor)",
+          "Billy Wilder (director)",
+          "Charles Brackett (writer)",
+        ]);
+        expect(credits[0]).toEqual({
+          id: expect.any(Number),
+          role: "actor",
+          character: "Joe Gillis",
+          billingOrder: 1,
+          person: { id: holden, name: "William Holden" },
+        });
+      });
+
+      it("rejects a second credit for the same person and role", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        const mann = await storage.createPerson({ name: "Michael Mann" });
+        await storage.addCredit({ movieId: movie.id, personId: mann.id, role: "director" });
+        const writer = await storage.addCredit({ movieId: movie.id, personId: mann.id, role: "writer" });
+
+        await expect(storage.addCredit({ movieId: movie.id, personId: mann.id, role: "director" })).rejects.toThrow(
+          DuplicateCreditError,
+        );
+        await expect(storage.updateCredit(writer.id, { role: "director" })).rejects.toThrow(DuplicateCreditError);
+      });
+
+      it("updates and deletes credits", async () => {
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        const pacino = await storage.createPerson({ name: "Al Pacino" });
+        const credit = await storage.addCredit({ movieId: movie.id, personId: pacino.id, role: "actor" });
+
+        expect(await storage.updateCredit(credit.id, { character: "Vincent Hanna", billingOrder: 1 })).toEqual({
+          ...credit,
+          character: "Vincent Hanna",
+          billingOrder: 1,
+        });
+        expect(await storage.deleteCredit(credit.id)).toBe(true);
+        expect(await storage.getMovieCredits(movie.id)).toEqual([]);
+        expect(await storage.updateCredit(credit.id, { billingOrder: 2 })).toBeUndefined();
+        expect(await storage.deleteCredit(credit.id)).toBe(false);
+      });
+
+      it("removes credits along with their movie or person", async () => {
+        const heat = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        const godfather = await storage.addMovie({ title: "The Godfather", year: 1972, genres: ["Crime"] });
+        const pacino = await storage.createPerson({ name: "Al Pacino" });
+        const caan = await storage.createPerson({ name: "James Caan" });
+        await storage.addCredit({ movieId: heat.id, personId: pacino.id, role: "actor" });
+        await storage.addCredit({ movieId: godfather.id, personId: pacino.id, role: "actor" });
+        await storage.addCredit({ movieId: godfather.id, personId: caan.id, role: "actor" });
+
+        await storage.deleteMovie(heat.id);
+        expect((await storage.getPerson(pacino.id))!.filmography.map((f) => f.title)).toEqual(["The Godfather"]);
+        await storage.deletePerson(caan.id);
+        expect((await storage.getMovieCredits(godfather.id)).map((c) => c.person.name)).toEqual(["Al Pacino"]);
+      });
+    });
+
+    describe("events", () => {
+      afterEach(() => storage.events.close());
+
+      it("publishes movie and rating changes in order", async () => {
+        const recorder = await recordEvents(storage);
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.updateMovie(movie.id, { year: 1996 });
+        await storage.setMoviePoster(movie.id, "abc");
+        await storage.addRating(movie.id, 3);
+        await storage.addRating(movie.id, 5, user.id);
+        await storage.addRating(movie.id, 4, user.id);
+
+        expect(await recorder.take(6)).toEqual([
+          { type: "movie.created", movieId: movie.id },
+          { type: "movie.updated", movieId: movie.id },
+          { type: "movie.updated", movieId: movie.id },
+          { type: "rating.created", movieId: movie.id, userId: null, score: 3, previousScore: null, avgRating: 3, totalRatings: 1 },
+          { type: "rating.created", movieId: movie.id, userId: user.id, score: 5, previousScore: null, avgRating: 4, totalRatings: 2 },
+          { type: "rating.created", movieId: movie.id, userId: user.id, score: 4, previousScore: 5, avgRating: 3.5, totalRatings: 2 },
+        ]);
+      });
+
+      it("publishes deletions, rating ones with the movie's new stats", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 2);
+        await storage.addRating(movie.id, 5, user.id);
+        const recorder = await recordEvents(storage);
+        await storage.deleteRating(movie.id, user.id);
+        await storage.deleteMovie(movie.id);
+
+        expect(await recorder.take(2)).toEqual([
+          { type: "rating.deleted", movieId: movie.id, userId: user.id, score: 5, avgRating: 2, totalRatings: 1 },
+          { type: "movie.deleted", movieId: movie.id },
+        ]);
+      });
+
+      it("publishes nothing for changes that didn't happen", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const recorder = await recordEvents(storage);
+        await storage.updateMovie(999999, { year: 1996 });
+        await storage.setMoviePoster(999999, "abc");
+        await storage.deleteMovie(999999);
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await expect(storage.addRating(movie.id, 4, undefined, { criteria: { nope: 3 } })).rejects.toThrow(
+          UnknownCriterionError,
+        );
+        await storage.deleteRating(movie.id, user.id);
+        await storage.updateMovie(movie.id, { year: 1996 });
+
+        expect(await recorder.take(2)).toEqual([
+          { type: "movie.created", movieId: movie.id },
+          { type: "movie.updated", movieId: movie.id },
+        ]);
+      });
+
+      it("stops delivering once unsubscribed", async () => {
+        const kept = await recordEvents(storage);
+        const dropped = await recordEvents(storage);
+        dropped.unsubscribe();
+        await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+
+        expect(await kept.take(1)).toHaveLength(1);
+        expect(await dropped.take(0)).toEqual([]);
+      });
+    });
+
+    describe("webhooks", () => {
+      const hook = { url: "https://example.com/hook", secret: "0123456789abcdef", events: ["movie.created" as const] };
+      const succeeded = { responseStatus: 200, error: null, retryInMs: null, disableAfter: 3 };
+      const failed = { responseStatus: 500, error: "HTTP 500", retryInMs: 0, disableAfter: 3 };
+
+      it("creates, lists, updates and deletes webhooks", async () => {
+        const webhook = await storage.createWebhook(hook);
+        expect(webhook).toMatchObject({ ...hook, active: true, consecutiveFailures: 0, disabledAt: null });
+
+        expect(await storage.updateWebhook(webhook.id, { events: ["rating.created"] })).toMatchObject({
+          url: hook.url,
+          events: ["rating.created"],
+        });
+        expect(await storage.listWebhooks()).toEqual([expect.objectContaining({ id: webhook.id })]);
+        expect(await storage.updateWebhook(999999, { active: false })).toBeUndefined();
+
+        expect(await storage.deleteWebhook(webhook.id)).toBe(true);
+        expect(await storage.deleteWebhook(webhook.id)).toBe(false);
+        expect(await storage.getWebhook(webhook.id)).toBeUndefined();
+      });
+
+      it("queues deliveries of subscribed events to active webhooks", async () => {
+        const movies = await storage.createWebhook(hook);
+        const ratings = await storage.createWebhook({ ...hook, events: ["rating.created"] });
+        const off = await storage.createWebhook(hook);
+        await storage.updateWebhook(off.id, { active: false });
+
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 4);
+
+        expect(await storage.listWebhookDeliveries(movies.id, 10)).toEqual([
+          expect.objectContaining({
+            event: "movie.created",
+            status: "pending",
+            attempts: 0,
+            payload: { movieId: movie.id, movie: expect.objectContaining({ title: "Heat" }) },
+          }),
+        ]);
+        expect(await storage.listWebhookDeliveries(ratings.id, 10)).toEqual([
+          expect.objectContaining({
+            event: "rating.created",
+            payload: expect.objectContaining({ movieId: movie.id, score: 4, totalRatings: 1 }),
+          }),
+        ]);
+        expect(await storage.listWebhookDeliveries(off.id, 10)).toEqual([]);
+      });
+
+      it("queues deliveries of deletions", async () => {
+        const webhook = await storage.createWebhook({ ...hook, events: ["rating.deleted", "movie.deleted"] });
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 4, user.id);
+        await storage.deleteRating(movie.id, user.id);
+        await storage.deleteMovie(movie.id);
+
+        const deliveries = await storage.listWebhookDeliveries(webhook.id, 10);
+        expect(deliveries.map(({ event, payload }) => ({ event, payload }))).toEqual(
+          expect.arrayContaining([
+            { event: "rating.deleted", payload: { movieId: movie.id, userId: user.id, score: 4, avgRating: 0, totalRatings: 0 } },
+            { event: "movie.deleted", payload: { movieId: movie.id } },
+          ]),
+        );
+        expect(deliveries).toHaveLength(2);
+      });
+
+      it("claims each due delivery once", async () => {
+        const webhook = await storage.createWebhook(hook);
+        const first = await storage.addWebhookDelivery(webhook.id, "ping", { n: 1 });
+        const second = await storage.addWebhookDelivery(webhook.id, "ping", { n: 2 });
+        await storage.addWebhookDelivery(webhook.id, "ping", { n: 3 }, 60_000);
+
+        const claimed = await storage.claimWebhookDeliveries(10, 60_000);
+        expect(claimed.map((c) => c.delivery.id)).toEqual([first.id, second.id]);
+        expect(claimed[0].webhook).toMatchObject({ id: webhook.id, secret: hook.secret });
+        expect(await storage.claimWebhookDeliveries(10, 60_000)).toEqual([]);
+      });
+
+      it("records attempts, retrying until told to give up", async () => {
+        const webhook = await storage.createWebhook(hook);
+        const delivery = await storage.addWebhookDelivery(webhook.id, "ping", {});
+
+        expect(await storage.recordDeliveryAttempt(delivery.id, failed)).toMatchObject({
+          status: "pending",
+          attempts: 1,
+          responseStatus: 500,
+          error: "HTTP 500",
+        });
+        expect(await storage.claimWebhookDeliveries(10, 60_000)).toHaveLength(1);
+        expect(await storage.recordDeliveryAttempt(delivery.id, { ...failed, retryInMs: null })).toMatchObject({
+          status: "failed",
+          attempts: 2,
+          nextAttemptAt: null,
+        });
+        expect(await storage.claimWebhookDeliveries(10, 60_000)).toEqual([]);
+        expect(await storage.getWebhook(webhook.id)).toMatchObject({ consecutiveFailures: 2, active: true });
+
+        const other = await storage.addWebhookDelivery(webhook.id, "ping", {});
+        expect(await storage.recordDeliveryAttempt(other.id, succeeded)).toMatchObject({
+          status: "succeeded",
+          attempts: 1,
+          error: null,
+        });
+        expect(await storage.getWebhook(webhook.id)).toMatchObject({ consecutiveFailures: 0 });
+        expect(await storage.recordDeliveryAttempt(999999, succeeded)).toBeUndefined();
+      });
+
+      it("disables a webhook that keeps failing until it is turned back on", async () => {
+        const webhook = await storage.createWebhook(hook);
+        const delivery = await storage.addWebhookDelivery(webhook.id, "ping", {});
+        for (let i = 0; i < 3; i++) await storage.recordDeliveryAttempt(delivery.id, failed);
+
+        expect(await storage.getWebhook(webhook.id)).toMatchObject({
+          active: false,
+          consecutiveFailures: 3,
+          disabledAt: expect.any(Date),
+        });
+        expect(await storage.claimWebhookDeliveries(10, 60_000)).toEqual([]);
+        await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        expect(await storage.listWebhookDeliveries(webhook.id, 10)).toHaveLength(1);
+
+        expect(await storage.updateWebhook(webhook.id, { active: true })).toMatchObject({
+          active: true,
+          consecutiveFailures: 0,
+          disabledAt: null,
+        });
+        expect(await storage.claimWebhookDeliveries(10, 60_000)).toHaveLength(1);
+      });
+
+      it("queues one job to send new deliveries", async () => {
+        await storage.createWebhook(hook);
+        await storage.createWebhook({ ...hook, events: ["rating.created"] });
+        await storage.updateMovie(999999, { year: 1996 });
+        expect(await storage.listJobs({ limit: 10 })).toEqual([]);
+
+        const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+        await storage.addRating(movie.id, 4);
+        expect(await storage.listJobs({ limit: 10 })).toEqual([
+          expect.objectContaining({ name: WEBHOOK_JOB, key: WEBHOOK_JOB, status: "pending" }),
+        ]);
+      });
+
+      it("deletes a webhook's deliveries with it", async () => {
+        const webhook = await storage.createWebhook(hook);
+        const delivery = await storage.addWebhookDelivery(webhook.id, "ping", {});
+        await storage.deleteWebhook(webhook.id);
+        expect(await storage.getWebhookDelivery(delivery.id)).toBeUndefined();
+      });
+    });
+
+    describe("jobs", () => {
+      it("claims each due job once, oldest first", async () => {
+        const first = await storage.enqueueJob("a", { n: 1 });
+        await storage.enqueueJob("b");
+        const second = await storage.enqueueJob("a", { n: 2 });
+        await storage.enqueueJob("a", {}, { delayMs: 60_000 });
+
+        const claimed = await storage.claimJobs({ a: 5 }, 10, 60_000);
+        expect(claimed.map((job) => job.id)).toEqual([first!.id, second!.id]);
+        expect(claimed[0]).toMatchObject({ name: "a", payload: { n: 1 }, status: "running", attempts: 1 });
+        expect(await storage.claimJobs({ a: 5 }, 10, 60_000)).toEqual([]);
+        expect(await storage.claimJobs({ a: 5, b: 5 }, 10, 60_000)).toEqual([expect.objectContaining({ name: "b" })]);
+        expect(await storage.claimJobs({}, 10, 60_000)).toEqual([]);
+      });
+
+      it("claims running jobs again once their lease lapses", async () => {
+        const job = await storage.enqueueJob("a");
+        await storage.claimJobs({ a: 5 }, 10, 0);
+        expect(await storage.claimJobs({ a: 5 }, 10, 60_000)).toEqual([
+          expect.objectContaining({ id: job!.id, attempts: 2 }),
+        ]);
+      });
+
+      it("dead-letters running jobs whose lease lapses on their last attempt", async () => {
+        const job = await storage.enqueueJob("a");
+        await storage.claimJobs({ a: 2 }, 10, 0);
+        await storage.claimJobs({ a: 2 }, 10, 0);
+
+        expect(await storage.claimJobs({ a: 2 }, 10, 60_000)).toEqual([]);
+        expect(await storage.getJob(job!.id)).toMatchObject({
+          status: "dead",
+          attempts: 2,
+          lockedUntil: null,
+          lastError: JOB_LEASE_LAPSED_ERROR,
+          finishedAt: expect.any(Date),
+        });
+      });
+
+      it("only lets the worker holding a job finish it", async () => {
+        const job = await storage.enqueueJob("a");
+        await storage.claimJobs({ a: 5 }, 10, 0);
+        await storage.claimJobs({ a: 5 }, 10, 60_000);
+
+        // The first worker's lease lapsed and the job was claimed again.
+        expect(await storage.completeJob(job!.id, 1)).toBeUndefined();
+        expect(await storage.failJob(job!.id, 1, "boom", null)).toBeUndefined();
+        expect(await storage.getJob(job!.id)).toMatchObject({ status: "running", attempts: 2, lastError: null });
+        expect(await storage.completeJob(job!.id, 2)).toMatchObject({ status: "succeeded" });
+        expect(await storage.completeJob(job!.id, 2)).toBeUndefined();
+      });
+
+      it("skips keyed jobs while one is waiting for its first attempt", async () => {
+        const job = await storage.enqueueJob("a", {}, { key: "k" });
+        expect(job).toMatchObject({ key: "k" });
+        expect(await storage.enqueueJob("a", {}, { key: "k" })).toBeUndefined();
+        expect(await storage.enqueueJob("a", {}, { key: "other" })).toBeDefined();
+
+        await storage.claimJobs({ a: 5 }, 10, 60_000);
+        const next = await storage.enqueueJob("a", {}, { key: "k" });
+        expect(next).toBeDefined();
+        // A retry doesn't clash with the job that replaced it.
+        expect(await storage.failJob(job!.id, 1, "boom", 0)).toMatchObject({ status: "pending", key: "k" });
+      });
+
+      it("completes, retries and dead-letters jobs", async () => {
+        const done = await storage.enqueueJob("a");
+        const flaky = await storage.enqueueJob("b");
+        await storage.claimJobs({ a: 5, b: 5 }, 10, 60_000);
+
+        expect(await storage.completeJob(done!.id, 1)).toMatchObject({
+          status: "succeeded",
+          lockedUntil: null,
+          finishedAt: expect.any(Date),
+        });
+        expect(await storage.failJob(flaky!.id, 1, "boom", 0)).toMatchObject({
+          status: "pending",
+          attempts: 1,
+          lastError: "boom",
+          finishedAt: null,
+        });
+        await storage.claimJobs({ b: 5 }, 10, 60_000);
+        expect(await storage.failJob(flaky!.id, 2, "still broken", null)).toMatchObject({
+          status: "dead",
+          attempts: 2,
+          lastError: "still broken",
+          finishedAt: expect.any(Date),
+        });
+        expect(await storage.claimJobs({ b: 5 }, 10, 60_000)).toEqual([]);
+        expect(await storage.completeJob(999999, 1)).toBeUndefined();
+        expect(await storage.failJob(999999, 1, "boom", null)).toBeUndefined();
+      });
+
+      it("lists and counts jobs", async () => {
+        const a = await storage.enqueueJob("a");
+        const b = await storage.enqueueJob("b");
+        await storage.enqueueJob("a");
+        await storage.claimJobs({ b: 5 }, 10, 60_000);
+        await storage.failJob(b!.id, 1, "boom", null);
+
+        expect((await storage.listJobs({ limit: 10 })).map((job) => job.name)).toEqual(["a", "b", "a"]);
+        expect(await storage.listJobs({ status: "dead", limit: 10 })).toEqual([expect.objectContaining({ id: b!.id })]);
+        expect(await storage.listJobs({ name: "a", limit: 1 })).toEqual([expect.objectContaining({ name: "a" })]);
+        expect(await storage.getJob(a!.id)).toMatchObject({ name: "a", status: "pending" });
+        expect(await storage.countJobs()).toEqual([
+          { name: "a", pending: 2, running: 0, succeeded: 0, dead: 0 },
+          { name: "b", pending: 0, running: 0, succeeded: 0, dead: 1 },
+        ]);
+      });
+
+      it("prunes finished jobs by age", async () => {
+        const done = await storage.enqueueJob("a");
+        const dead = await storage.enqueueJob("a");
+        await storage.enqueueJob("a");
+        await storage.claimJobs({ a: 5 }, 2, 60_000);
+        await storage.completeJob(done!.id, 1);
+        await storage.failJob(dead!.id, 1, "boom", null);
+
+        expect(await storage.pruneJobs(60_000, 60_000)).toBe(0);
+        expect(await storage.pruneJobs(0, 60_000)).toBe(1);
+        expect(await storage.pruneJobs(0, 0)).toBe(1);
+        expect(await storage.listJobs({ limit: 10 })).toEqual([expect.objectContaining({ status: "pending" })]);
+      });
+
+      describe("schedules", () => {
+        afterEach(async () => {
+          jest.useRealTimers();
+          await storage.syncJobSchedules([]);
+        });
+
+        /** Moves the clock on, leaving timers alone so the database driver keeps working. */
+        function advanceClock(ms: number) {
+          jest.useFakeTimers({
+            now: Date.now() + ms,
+            doNotFake: ["nextTick", "setImmediate", "clearImmediate", "setTimeout", "clearTimeout", "setInterval", "clearInterval", "queueMicrotask", "hrtime", "performance"],
+          });
+        }
+
+        it("syncs schedules from code", async () => {
+          await storage.syncJobSchedules([
+            { name: "a", cron: "0 3 * * *" },
+            { name: "b", cron: "* * * * *" },
+          ]);
+          const [a] = await storage.listJobSchedules();
+          expect(a).toEqual({ name: "a", cron: "0 3 * * *", nextRunAt: expect.any(Date), lastRunAt: null });
+          expect(a.nextRunAt.getUTCHours()).toBe(3);
+
+          await storage.syncJobSchedules([{ name: "a", cron: "0 3 * * *" }, { name: "c", cron: "0 0 1 * *" }]);
+          expect(await storage.listJobSchedules()).toEqual([a, expect.objectContaining({ name: "c" })]);
+
+          await storage.syncJobSchedules([{ name: "a", cron: "15 4 * * *" }]);
+          const [changed, ...rest] = await storage.listJobSchedules();
+          expect(rest).toEqual([]);
+          expect(changed).toMatchObject({ cron: "15 4 * * *" });
+          expect(changed.nextRunAt.getUTCHours()).toBe(4);
+        });
+
+        it("queues due schedules once and moves them on", async () => {
+          await storage.syncJobSchedules([
+            { name: "a", cron: "* * * * *" },
+            { name: "b", cron: "0 0 1 1 *" },
+          ]);
+          expect(await storage.enqueueScheduledJobs()).toEqual([]);
+
+          advanceClock(2 * 60_000);
+          expect(await storage.enqueueScheduledJobs()).toEqual([
+            expect.objectContaining({ name: "a", key: "a", status: "pending" }),
+          ]);
+          expect(await storage.enqueueScheduledJobs()).toEqual([]);
+          const [a] = await storage.listJobSchedules();
+          expect(a.lastRunAt).toEqual(expect.any(Date));
+          expect(a.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+
+          // The run that is still waiting stands in for the next one.
+          advanceClock(4 * 60_000);
+          expect(await storage.enqueueScheduledJobs()).toEqual([]);
+          expect(await storage.listJobs({ name: "a", limit: 10 })).toHaveLength(1);
+        });
+      });
+    });
+
+    describe("clearData", () => {
+      it("removes every user, movie and rating", async () => {
+        const user = await storage.createUser({ username: "joe", password: "hashed" });
+        const movie = await storage.addMovie({ title: "Casablanca", year: 1942, genres: ["Drama"] });
+        await storage.addRating(movie.id, 4, user.id);
+
+        await storage.clearData();
+
+        expect(await storage.getAllMovies()).toEqual([]);
+        expect(await storage.getUserByUsername("joe")).toBeUndefined();
+        expect(await storage.getRatingsForMovie(movie.id)).toEqual([]);
+      });
+    });
+  });
+}
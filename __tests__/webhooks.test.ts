@@ -0,0 +1,317 @@
+import { createHmac } from "crypto";
+import { MemStorage } from "../server/storage";
+import {
+  defaultWebhookPolicy,
+  deliverWebhook,
+  dispatchWebhooks,
+  signWebhook,
+  webhookData,
+  type WebhookPolicy,
+} from "../server/webhooks";
+import { appJobs, startJobWorker } from "../server/jobs";
+import { signUp, startTestServer, type TestClient, type TestServer } from "./support/http";
+import { startReceiver, type TestReceiver } from "./support/receiver";
+
+const SECRET = "0123456789abcdef0123";
+
+/** Retries straight away, so each dispatch makes the next attempt. */
+const quickPolicy: WebhookPolicy = { ...defaultWebhookPolicy, maxAttempts: 4, disableAfter: 5, retryDelayMs: () => 0 };
+
+describe("signWebhook", () => {
+  it("is an HMAC-SHA256 of the timestamp and body", () => {
+    const expected = createHmac("sha256", SECRET).update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhook(SECRET, 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("webhookData", () => {
+  it("drops the event type and adds the movie for movie events", () => {
+    expect(webhookData({ type: "movie.updated", movieId: 1 }, { id: 1 } as never)).toEqual({
+      movieId: 1,
+      movie: { id: 1 },
+    });
+    expect(
+      webhookData({
+        type: "rating.created",
+        movieId: 1,
+        userId: null,
+        score: 4,
+        previousScore: null,
+        avgRating: 4,
+        totalRatings: 1,
+      }),
+    ).toEqual({ movieId: 1, userId: null, score: 4, previousScore: null, avgRating: 4, totalRatings: 1 });
+  });
+});
+
+describe("webhook delivery", () => {
+  let storage: MemStorage;
+  let receiver: TestReceiver;
+  const dispatch = () => dispatchWebhooks(storage, { policy: quickPolicy });
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    receiver = await startReceiver();
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it("POSTs subscribed events with a verifiable signature", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    const movie = await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addRating(movie.id, 4);
+    await dispatch();
+
+    expect(receiver.requests).toHaveLength(1);
+    const [{ headers, body }] = receiver.requests;
+    const [delivery] = await storage.listWebhookDeliveries(webhook.id, 10);
+    expect(headers).toMatchObject({
+      "content-type": "application/json",
+      "x-webhook-event": "movie.created",
+      "x-webhook-delivery": String(delivery.id),
+    });
+    expect(headers["x-webhook-signature"]).toBe(
+      signWebhook(SECRET, Number(headers["x-webhook-timestamp"]), body),
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      id: delivery.id,
+      event: "movie.created",
+      data: { movieId: movie.id, movie: { title: "Heat" } },
+    });
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 200 });
+  });
+
+  it("retries failed deliveries", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    receiver.respondWith(500, 503);
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+
+    await dispatch();
+    expect(await storage.listWebhookDeliveries(webhook.id, 10)).toMatchObject([
+      { status: "pending", attempts: 1, responseStatus: 500, error: "HTTP 500" },
+    ]);
+    await dispatch();
+    await dispatch();
+
+    expect(receiver.requests).toHaveLength(3);
+    expect(new Set(receiver.requests.map((r) => r.headers["x-webhook-delivery"])).size).toBe(1);
+    expect(await storage.listWebhookDeliveries(webhook.id, 10)).toMatchObject([
+      { status: "succeeded", attempts: 3, responseStatus: 200, error: null },
+    ]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    receiver.respondWith(500, 500, 500, 500);
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    for (let i = 0; i <= quickPolicy.maxAttempts; i++) await dispatch();
+
+    expect(receiver.requests).toHaveLength(quickPolicy.maxAttempts);
+    expect(await storage.listWebhookDeliveries(webhook.id, 10)).toMatchObject([
+      { status: "failed", attempts: quickPolicy.maxAttempts, nextAttemptAt: null },
+    ]);
+  });
+
+  it("records unreachable endpoints", async () => {
+    await receiver.close();
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await dispatch();
+
+    expect(await storage.listWebhookDeliveries(webhook.id, 10)).toMatchObject([
+      { status: "pending", attempts: 1, responseStatus: null, error: expect.any(String) },
+    ]);
+    receiver = await startReceiver();
+  });
+
+  it("disables a webhook that keeps failing", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    receiver.respondWith(...Array(10).fill(500));
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await storage.addMovie({ title: "Ronin", year: 1998, genres: ["Action"] });
+    await dispatch();
+    await dispatch();
+    expect(await storage.getWebhook(webhook.id)).toMatchObject({ active: true, consecutiveFailures: 4 });
+    await dispatch();
+    expect(await storage.getWebhook(webhook.id)).toMatchObject({ active: false, disabledAt: expect.any(Date) });
+
+    // Both deliveries have attempts left, but neither goes out again.
+    await dispatch();
+    expect(receiver.requests).toHaveLength(6);
+  });
+
+  it("leaves a delivery to the one dispatch that claimed it", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    await storage.addMovie({ title: "Heat", year: 1995, genres: ["Crime"] });
+    await Promise.all([dispatch(), dispatch()]);
+
+    expect(receiver.requests).toHaveLength(1);
+    expect(await storage.listWebhookDeliveries(webhook.id, 10)).toMatchObject([{ attempts: 1 }]);
+  });
+
+  it("sends a claimed delivery with deliverWebhook", async () => {
+    const webhook = await storage.createWebhook({ url: receiver.url, secret: SECRET, events: ["movie.created"] });
+    const delivery = await storage.addWebhookDelivery(webhook.id, "ping", { hello: "world" }, 60_000);
+
+    expect(await deliverWebhook(storage, { delivery, webhook })).toMatchObject({ status: "succeeded", attempts: 1 });
+    expect(JSON.parse(receiver.requests[0].body)).toMatchObject({ event: "ping", data: { hello: "world" } });
+  });
+});
+
+describe("admin webhook routes", () => {
+  let storage: MemStorage;
+  let server: TestServer;
+  let receiver: TestReceiver;
+  let admin: TestClient;
+  const originalAdmins = process.env.ADMIN_USERNAMES;
+
+  beforeAll(() => {
+    process.env.ADMIN_USERNAMES = "root, admin";
+  });
+
+  afterAll(() => {
+    if (originalAdmins === undefined) delete process.env.ADMIN_USERNAMES;
+    else process.env.ADMIN_USERNAMES = originalAdmins;
+  });
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    server = await startTestServer(storage);
+    receiver = await startReceiver();
+    admin = await signUp(server, "admin");
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+    await server.close();
+  });
+
+  it("are for admins only", async () => {
+    expect((await server.request("GET", "/api/admin/webhooks")).status).toBe(401);
+    const joe = await signUp(server, "joe");
+    expect(await joe.request("GET", "/api/admin/webhooks")).toEqual({ status: 403, body: { error: "Admins only" } });
+    expect((await admin.request("GET", "/api/admin/webhooks")).status).toBe(200);
+  });
+
+  it("shows the secret only when a webhook is created", async () => {
+    const created = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created", "rating.created", "movie.created"],
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      url: receiver.url,
+      events: ["movie.created", "rating.created"],
+      secret: expect.stringMatching(/^[0-9a-f]{48}$/),
+      active: true,
+    });
+
+    const listed = await admin.request("GET", "/api/admin/webhooks");
+    expect(listed.body.items).toEqual([expect.objectContaining({ id: created.body.id })]);
+    expect(listed.body.items[0]).not.toHaveProperty("secret");
+  });
+
+  it.each([
+    [{ url: "ftp://example.com/hook", events: ["movie.created"] }],
+    [{ url: "not a url", events: ["movie.created"] }],
+    [{ url: "https://example.com/hook", events: [] }],
+    [{ url: "https://example.com/hook", events: ["movie.viewed"] }],
+    [{ url: "https://example.com/hook", events: ["movie.created"], secret: "short" }],
+  ])("rejects %j", async (body) => {
+    expect(await admin.request("POST", "/api/admin/webhooks", body)).toEqual({
+      status: 400,
+      body: { error: "Invalid fields" },
+    });
+  });
+
+  it("updates, re-enables and deletes webhooks", async () => {
+    const { body: webhook } = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created"],
+    });
+    await storage.recordDeliveryAttempt((await storage.addWebhookDelivery(webhook.id, "ping", {})).id, {
+      responseStatus: 500,
+      error: "HTTP 500",
+      retryInMs: null,
+      disableAfter: 1,
+    });
+
+    const updated = await admin.request("PATCH", `/api/admin/webhooks/${webhook.id}`, {
+      events: ["rating.created"],
+      active: true,
+    });
+    expect(updated.body).toMatchObject({ events: ["rating.created"], active: true, consecutiveFailures: 0 });
+    expect(updated.body).not.toHaveProperty("secret");
+    expect((await admin.request("PATCH", `/api/admin/webhooks/${webhook.id}`, {})).status).toBe(400);
+    expect((await admin.request("PATCH", "/api/admin/webhooks/999", { active: false })).status).toBe(404);
+
+    expect((await admin.request("DELETE", `/api/admin/webhooks/${webhook.id}`)).status).toBe(204);
+    expect((await admin.request("DELETE", `/api/admin/webhooks/${webhook.id}`)).status).toBe(404);
+  });
+
+  it("test-fires a ping and logs it", async () => {
+    const { body: webhook } = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created"],
+    });
+
+    const res = await admin.request("POST", `/api/admin/webhooks/${webhook.id}/test`);
+    expect(res).toMatchObject({ status: 202, body: { event: "ping", status: "pending", attempts: 0 } });
+    expect(receiver.requests).toEqual([]);
+
+    await dispatchWebhooks(storage);
+    const { headers, body } = receiver.requests[0];
+    expect(headers["x-webhook-signature"]).toBe(
+      signWebhook(webhook.secret, Number(headers["x-webhook-timestamp"]), body),
+    );
+    expect(JSON.parse(body).data.webhook).toMatchObject({ id: webhook.id });
+    expect(JSON.parse(body).data.webhook).not.toHaveProperty("secret");
+
+    const log = await admin.request("GET", `/api/admin/webhooks/${webhook.id}/deliveries`);
+    expect(log.body.items).toEqual([expect.objectContaining({ id: res.body.id, event: "ping", status: "succeeded" })]);
+    expect((await admin.request("POST", "/api/admin/webhooks/999/test")).status).toBe(404);
+  });
+
+  it("leaves sending to the background job", async () => {
+    const { body: webhook } = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created"],
+    });
+    await admin.request("POST", `/api/admin/webhooks/${webhook.id}/test`);
+    await admin.request("POST", "/api/movies", { title: "Heat", year: 1995, genres: ["Crime"] });
+
+    const worker = await startJobWorker(storage, { ...appJobs(storage), pollMs: 60_000 });
+    try {
+      await worker.runOnce();
+    } finally {
+      await worker.stop();
+    }
+    expect(receiver.requests.map((r) => r.headers["x-webhook-event"])).toEqual(["ping", "movie.created"]);
+  });
+
+  it("redelivers a logged delivery as a new one", async () => {
+    const { body: webhook } = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created"],
+    });
+    await admin.request("POST", "/api/movies", { title: "Heat", year: 1995, genres: ["Crime"] });
+    const [original] = await storage.listWebhookDeliveries(webhook.id, 10);
+
+    const res = await admin.request("POST", `/api/admin/webhooks/deliveries/${original.id}/redeliver`);
+    expect(res).toMatchObject({ status: 202, body: { event: "movie.created", status: "pending" } });
+    expect(res.body.id).not.toBe(original.id);
+    expect(res.body.payload).toEqual(original.payload);
+    expect((await admin.request("POST", "/api/admin/webhooks/deliveries/999/redeliver")).status).toBe(404);
+  });
+
+  it("validates the delivery log query", async () => {
+    const { body: webhook } = await admin.request("POST", "/api/admin/webhooks", {
+      url: receiver.url,
+      events: ["movie.created"],
+    });
+    expect((await admin.request("GET", `/api/admin/webhooks/${webhook.id}/deliveries?limit=0`)).status).toBe(400);
+    expect((await admin.request("GET", "/api/admin/webhooks/999/deliveries")).status).toBe(404);
+  });
+});
@@ -3,8 +3,13 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import MovieList from "@/pages/MovieList";
 import MovieDetail from "@/pages/MovieDetail";
+import Login from "@/pages/Login";
+import Signup from "@/pages/Signup";
+import TopRated from "@/pages/TopRated";
+import Person from "@/pages/Person";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -12,16 +17,26 @@ function Router() {
     <Switch>
       <Route path="/" component={MovieList} />
       <Route path="/movies/:id" component={MovieDetail} />
+      <Route path="/top" component={TopRated} />
+      <Route path="/people/:id" component={Person} />
+      <Route path="/login" component={Login} />
+      <Route path="/signup" component={Signup} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <LiveUpdates />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import type { UseMutationResult } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Film } from "lucide-react";
+import type { PublicUser } from "@shared/schema";
+
+type Credentials = { username: string; password: string };
+
+export function AuthForm({
+  mode,
+  mutation,
+}: {
+  mode: "login" | "signup";
+  mutation: UseMutationResult<PublicUser, Error, Credentials>;
+}) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const isLogin = mode === "login";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    mutation.mutate(
+      { username: username.trim(), password },
+      {
+        onSuccess: (user) => {
+          toast({
+            title: isLogin ? "Welcome back" : "Account created",
+            description: `Signed in as ${user.username}.`,
+          });
+          navigate("/");
+        },
+        onError: (err: Error) => {
+          toast({ title: "Error", description: err.message, variant: "destructive" });
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6 border border-card-border bg-card">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-md bg-primary flex items-center justify-center">
+            <Film className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <h1 className="text-xl font-bold tracking-tight text-foreground" data-testid="text-auth-title">
+            {isLogin ? "Log in" : "Sign up"}
+          </h1>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              data-testid="input-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              minLength={isLogin ? undefined : 3}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              data-testid="input-password"
+              type="password"
+              autoComplete={isLogin ? "current-password" : "new-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={isLogin ? undefined : 8}
+              required
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            data-testid="button-submit-auth"
+            disabled={mutation.isPending}
+          >
+            {mutation.isPending ? "Please wait..." : isLogin ? "Log in" : "Create account"}
+          </Button>
+        </form>
+        <p className="text-sm text-muted-foreground mt-4 text-center">
+          {isLogin ? "No account yet? " : "Already have an account? "}
+          <Link
+            href={isLogin ? "/signup" : "/login"}
+            className="text-foreground underline"
+            data-testid="link-switch-auth"
+          >
+            {isLogin ? "Sign up" : "Log in"}
+          </Link>
+        </p>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useRatingScale } from "@/hooks/use-rating-scale";
+import type { CriterionAverage, CriterionScores } from "@shared/schema";
+
+const chartConfig = {
+  average: { label: "Average", color: "hsl(var(--chart-5))" },
+  user: { label: "You", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+/**
+ * The movie's per-criterion averages as a radar chart, with the signed-in
+ * user's own scores overlaid when they gave any.
+ */
+export function CriteriaRadar({
+  criteria,
+  userCriteria,
+}: {
+  criteria: CriterionAverage[];
+  userCriteria: CriterionScores;
+}) {
+  const scale = useRatingScale();
+  const hasUserScores = Object.keys(userCriteria).length > 0;
+  const data = criteria.map((criterion) => ({
+    criterion: criterion.name,
+    average: criterion.avgScore,
+    user: userCriteria[criterion.slug] ?? 0,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-72" data-testid="chart-criteria">
+      <RadarChart data={data} outerRadius="70%">
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <PolarGrid />
+        <PolarAngleAxis dataKey="criterion" />
+        <PolarRadiusAxis domain={[0, scale.max]} tickCount={scale.max + 1} axisLine={false} tick={false} />
+        <Radar
+          dataKey="average"
+          stroke="var(--color-average)"
+          fill="var(--color-average)"
+          fillOpacity={0.4}
+        />
+        {hasUserScores && (
+          <Radar dataKey="user" stroke="var(--color-user)" fill="var(--color-user)" fillOpacity={0.15} />
+        )}
+        {hasUserScores && <ChartLegend content={<ChartLegendContent />} />}
+      </RadarChart>
+    </ChartContainer>
+  );
+}
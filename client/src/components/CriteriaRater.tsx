@@ -0,0 +1,66 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { StarPicker } from "@/components/Stars";
+import type { CriterionAverage, CriterionScores } from "@shared/schema";
+
+/**
+ * A row of stars per criterion for the signed-in user. Clicking a
+ * criterion's current score again clears it.
+ */
+export function CriteriaRater({
+  movieId,
+  score,
+  criteria,
+  scores,
+}: {
+  movieId: number;
+  /** The user's overall rating; criteria can only be scored once there is one. */
+  score: number | null;
+  criteria: CriterionAverage[];
+  scores: CriterionScores;
+}) {
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: CriterionScores) => {
+      await apiRequest("POST", `/api/movies/${movieId}/rate`, { score, criteria: next });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", String(movieId)] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const setScore = (slug: string, value: number) => {
+    const { [slug]: current, ...rest } = scores;
+    saveMutation.mutate(current === value ? rest : { ...rest, [slug]: value });
+  };
+
+  if (score === null) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-criteria-needs-rating">
+        Rate the movie to score story, acting and the rest.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {criteria.map((criterion) => (
+        <div key={criterion.id} className="flex items-center gap-3" data-testid={`row-criterion-${criterion.slug}`}>
+          <span className="text-sm text-foreground w-24 truncate">{criterion.name}</span>
+          <StarPicker
+            value={scores[criterion.slug] ?? null}
+            onSelect={(value) => setScore(criterion.slug, value)}
+            label={criterion.name}
+            testIdPrefix={`button-criterion-${criterion.slug}`}
+            disabled={saveMutation.isPending}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
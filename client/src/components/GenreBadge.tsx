@@ -0,0 +1,22 @@
+import type { Genre } from "@shared/schema";
+
+export function GenreBadge({ genre }: { genre: Pick<Genre, "slug" | "name" | "color"> }) {
+  return (
+    <span
+      data-testid={`badge-genre-${genre.slug}`}
+      className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium"
+      // The color is a #rrggbb value; "1f" adds a ~12% alpha for the background.
+      style={{ backgroundColor: `${genre.color}1f`, color: genre.color }}
+    >
+      {genre.name}
+    </span>
+  );
+}
+
+/** Splits a comma-separated genre input into names, dropping blanks. */
+export function parseGenreNames(text: string): string[] {
+  return text
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
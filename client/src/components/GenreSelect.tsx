@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { GenreListResponse } from "@shared/schema";
+
+// Radix Select doesn't allow an empty item value, so "no filter" gets a sentinel.
+const ALL_GENRES = "all";
+
+export function GenreSelect({
+  value,
+  onChange,
+  className,
+  "data-testid": testId,
+}: {
+  /** The selected genre slug, or "" for all genres. */
+  value: string;
+  onChange: (slug: string) => void;
+  className?: string;
+  "data-testid"?: string;
+}) {
+  const { data } = useQuery<GenreListResponse>({ queryKey: ["/api/genres"] });
+
+  return (
+    <Select
+      value={value || ALL_GENRES}
+      onValueChange={(v) => onChange(v === ALL_GENRES ? "" : v)}
+    >
+      <SelectTrigger className={className} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_GENRES}>All genres</SelectItem>
+        {data?.items.map((genre) => (
+          <SelectItem key={genre.slug} value={genre.slug}>
+            {genre.name} ({genre.movieCount})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,24 @@
+import ReactMarkdown from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import { cn } from "@/lib/utils";
+
+/**
+ * Renders user-written Markdown. Raw HTML is dropped and the resulting tree
+ * is run through rehype-sanitize's GitHub-style allowlist, so scripts,
+ * event handlers and javascript: links never reach the page.
+ */
+export function Markdown({ children, className }: { children: string; className?: string }) {
+  return (
+    <div className={cn("prose prose-sm dark:prose-invert max-w-none", className)}>
+      <ReactMarkdown
+        skipHtml
+        rehypePlugins={[rehypeSanitize]}
+        components={{
+          a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="nofollow noopener noreferrer" />,
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import type { MovieImportReport, MovieImportRow, MovieImportStatus } from "@shared/schema";
+
+const statusBadges: Record<MovieImportStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  created: { label: "New", variant: "default" },
+  skipped: { label: "Skipped", variant: "secondary" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+function rowNote(row: MovieImportRow): string {
+  if (row.status === "error") return row.errors.join("; ");
+  if (row.duplicateOfRow !== null) return `Same movie as row ${row.duplicateOfRow}`;
+  if (row.status === "skipped") return "Already in the list";
+  return "";
+}
+
+async function sendImport(file: File, dryRun: boolean): Promise<MovieImportReport> {
+  const form = new FormData();
+  form.append("file", file);
+  const res = await apiRequest("POST", `/api/movies/import${dryRun ? "?dryRun=true" : ""}`, form);
+  return res.json();
+}
+
+/**
+ * Adds movies in bulk from a CSV or JSON file. Choosing a file runs a dry
+ * run whose per-row report is shown for review before anything is added.
+ * Importing needs a login, so nothing is shown to logged-out visitors.
+ */
+export function MovieImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<MovieImportReport | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const changeOpen = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setFile(null);
+      setPreview(null);
+    }
+  };
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (chosen: File) => sendImport(chosen, true),
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (chosen: File) => sendImport(chosen, false),
+    onSuccess: ({ counts }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/genres"] });
+      changeOpen(false);
+      toast({
+        title: "Movies imported",
+        description: `${counts.created} added, ${counts.skipped} skipped, ${counts.error} with errors.`,
+      });
+    },
+    onError,
+  });
+
+  const chooseFile = (chosen: File | undefined) => {
+    setFile(chosen ?? null);
+    setPreview(null);
+    if (chosen) previewMutation.mutate(chosen);
+  };
+
+  const toCreate = preview?.counts.created ?? 0;
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-movies">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Movies</DialogTitle>
+          <DialogDescription>
+            A CSV file with a header row (title, year, genres, runtime, synopsis, language, country,
+            certification, imdb, tmdb) or a JSON list of movies. Movies already in the list are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            data-testid="input-import-file"
+            onChange={(e) => {
+              chooseFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          {file && (
+            <p className="text-xs text-muted-foreground" data-testid="text-import-file">
+              {previewMutation.isPending ? `Checking ${file.name}...` : file.name}
+            </p>
+          )}
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-sm text-foreground" data-testid="text-import-summary">
+              {preview.counts.created} to add, {preview.counts.skipped} to skip, {preview.counts.error} with
+              errors.
+            </p>
+            {preview.ignoredColumns.length > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-import-ignored">
+                Ignored columns: {preview.ignoredColumns.join(", ")}
+              </p>
+            )}
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead className="w-16">Year</TableHead>
+                    <TableHead className="w-24">Status</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.row} data-testid={`row-import-${row.row}`}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.title ?? "—"}</TableCell>
+                      <TableCell>{row.year ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadges[row.status].variant}>{statusBadges[row.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{rowNote(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => changeOpen(false)} data-testid="button-cancel-import">
+            Cancel
+          </Button>
+          <Button
+            data-testid="button-confirm-import"
+            disabled={!file || toCreate === 0 || importMutation.isPending}
+            onClick={() => file && importMutation.mutate(file)}
+          >
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${toCreate} ${toCreate === 1 ? "movie" : "movies"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Film } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Movie } from "@shared/schema";
+
+/** Thumbnail sizes written by server/posters.ts. */
+export type PosterSize = "thumb" | "large";
+
+// Thumbnails are made by a background job after an upload, so a new poster's
+// may 404 for a moment; the placeholder shows meanwhile and the image is retried.
+const RETRY_MS = 2000;
+const MAX_RETRIES = 5;
+
+export function posterUrl(posterKey: string, size: PosterSize): string {
+  return `/posters/${size}/${posterKey}.webp`;
+}
+
+function PosterPlaceholder({ movieId, className }: { movieId: number; className?: string }) {
+  return (
+    <div
+      className={cn("aspect-[2/3] rounded-md bg-muted flex items-center justify-center", className)}
+      data-testid={`poster-placeholder-${movieId}`}
+    >
+      <Film className="w-1/3 h-1/3 text-muted-foreground" />
+    </div>
+  );
+}
+
+/** A 2:3 poster image, or a placeholder when the movie has none. */
+export function Poster({
+  movie,
+  size,
+  className,
+}: {
+  movie: Pick<Movie, "id" | "title" | "posterKey">;
+  size: PosterSize;
+  className?: string;
+}) {
+  const [retries, setRetries] = useState(0);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    setRetries(0);
+    setMissing(false);
+  }, [movie.posterKey]);
+
+  useEffect(() => {
+    if (!missing || retries >= MAX_RETRIES) return;
+    const timer = setTimeout(() => {
+      setMissing(false);
+      setRetries((n) => n + 1);
+    }, RETRY_MS);
+    return () => clearTimeout(timer);
+  }, [missing, retries]);
+
+  if (!movie.posterKey || missing) {
+    return <PosterPlaceholder movieId={movie.id} className={className} />;
+  }
+  const src = posterUrl(movie.posterKey, size);
+  return (
+    <img
+      src={retries > 0 ? `${src}?retry=${retries}` : src}
+      alt={`${movie.title} poster`}
+      loading={size === "thumb" ? "lazy" : undefined}
+      onError={() => setMissing(true)}
+      className={cn("aspect-[2/3] rounded-md object-cover", className)}
+      data-testid={`img-poster-${movie.id}`}
+    />
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Review, ReviewInput } from "@shared/schema";
+
+/** Writes, edits or removes the signed-in user's review of a movie. */
+export function ReviewComposer({
+  movieId,
+  score,
+  review,
+}: {
+  movieId: number;
+  /** The user's rating; a review can only be added once there is one. */
+  score: number | null;
+  review: Review | null;
+}) {
+  const { toast } = useToast();
+  const [body, setBody] = useState(review?.body ?? "");
+  const [spoiler, setSpoiler] = useState(review?.spoiler ?? false);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: ReviewInput) => {
+      await apiRequest("POST", `/api/movies/${movieId}/rate`, { score, ...input });
+    },
+    onSuccess: (_result, input) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", String(movieId)] });
+      if (input.review === null) {
+        setBody("");
+        setSpoiler(false);
+      }
+      toast({
+        title: input.review === null ? "Review removed" : "Review saved",
+        description: input.review === null ? "Your rating was kept." : "Thanks for sharing your thoughts.",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    saveMutation.mutate({ review: body.trim(), spoiler });
+  };
+
+  if (score === null) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-review-needs-rating">
+        Rate the movie to write a review.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Textarea
+        data-testid="input-review"
+        placeholder="What did you think? Markdown is supported."
+        rows={4}
+        maxLength={10000}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="review-spoiler"
+            data-testid="checkbox-review-spoiler"
+            checked={spoiler}
+            onCheckedChange={(checked) => setSpoiler(checked === true)}
+          />
+          <Label htmlFor="review-spoiler" className="text-sm font-normal">
+            Contains spoilers
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          {review && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              data-testid="button-remove-review"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate({ review: null })}
+            >
+              Remove
+            </Button>
+          )}
+          <Button
+            type="submit"
+            size="sm"
+            data-testid="button-save-review"
+            disabled={saveMutation.isPending || !body.trim()}
+          >
+            {saveMutation.isPending ? "Saving..." : review ? "Update Review" : "Post Review"}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Markdown } from "@/components/Markdown";
+import { StarRating } from "@/components/Stars";
+import { EyeOff, ThumbsDown, ThumbsUp } from "lucide-react";
+import type { Review, ReviewListResponse, ReviewSortField } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+const sortLabels: Record<ReviewSortField, string> = {
+  newest: "Newest",
+  helpful: "Most helpful",
+};
+
+/**
+ * Helpful / not helpful buttons with their counts. Clicking the reader's
+ * current vote again retracts it; reviewers can't vote on their own review.
+ */
+function ReviewVotes({ review }: { review: Review }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canVote = !!user && user.id !== review.user?.id;
+
+  const voteMutation = useMutation({
+    mutationFn: async (helpful: boolean) => {
+      if (review.userVote === helpful) {
+        await apiRequest("DELETE", `/api/reviews/${review.id}/vote`);
+      } else {
+        await apiRequest("POST", `/api/reviews/${review.id}/vote`, { helpful });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", String(review.movieId), "reviews"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const buttons = [
+    { helpful: true, label: "Helpful", count: review.helpfulCount, Icon: ThumbsUp },
+    { helpful: false, label: "Not helpful", count: review.notHelpfulCount, Icon: ThumbsDown },
+  ];
+
+  return (
+    <div className="flex items-center gap-1 mt-2">
+      {buttons.map(({ helpful, label, count, Icon }) => (
+        <Button
+          key={label}
+          variant={review.userVote === helpful ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 px-2 text-muted-foreground"
+          aria-label={label}
+          aria-pressed={review.userVote === helpful}
+          title={canVote ? label : user ? "You can't vote on your own review" : "Log in to vote"}
+          data-testid={`button-vote-${helpful ? "helpful" : "not-helpful"}-${review.id}`}
+          disabled={!canVote || voteMutation.isPending}
+          onClick={() => voteMutation.mutate(helpful)}
+        >
+          <Icon className="w-3.5 h-3.5 mr-1" />
+          {count}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+function ReviewItem({ review }: { review: Review }) {
+  const [revealed, setRevealed] = useState(false);
+  const hidden = review.spoiler && !revealed;
+
+  return (
+    <li className="py-4 first:pt-0 last:pb-0" data-testid={`review-${review.id}`}>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className="font-medium text-foreground">{review.user?.username ?? "Anonymous"}</span>
+        <StarRating score={review.score} size="w-3.5 h-3.5" />
+        <span className="text-muted-foreground ml-auto">
+          {new Date(review.reviewedAt).toLocaleDateString()}
+        </span>
+      </div>
+      <div className="relative">
+        <Markdown
+          className={hidden ? "blur-sm select-none pointer-events-none" : undefined}
+        >
+          {review.body}
+        </Markdown>
+        {hidden && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Button
+              variant="outline"
+              size="sm"
+              data-testid={`button-reveal-spoiler-${review.id}`}
+              onClick={() => setRevealed(true)}
+            >
+              <EyeOff className="w-4 h-4 mr-2" />
+              Show spoiler
+            </Button>
+          </div>
+        )}
+      </div>
+      <ReviewVotes review={review} />
+    </li>
+  );
+}
+
+/** A movie's reviews, a page at a time, newest or most helpful first. */
+export function ReviewList({ movieId }: { movieId: number }) {
+  const [sort, setSort] = useState<ReviewSortField>("newest");
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/movies", String(movieId), "reviews", sort],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/movies/${movieId}/reviews?${params}`);
+      return (await res.json()) as ReviewListResponse;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const reviews = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">Reviews</h3>
+        <Select value={sort} onValueChange={(v) => setSort(v as ReviewSortField)}>
+          <SelectTrigger className="w-40" data-testid="select-review-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(sortLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : reviews.length > 0 ? (
+        <>
+          <ul className="divide-y divide-border">
+            {reviews.map((review) => (
+              <ReviewItem key={review.id} review={review} />
+            ))}
+          </ul>
+          {hasNextPage && (
+            <div className="flex justify-center mt-4">
+              <Button
+                variant="outline"
+                data-testid="button-more-reviews"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading..." : "More reviews"}
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-reviews">
+          No reviews yet.
+        </p>
+      )}
+    </div>
+  );
+}
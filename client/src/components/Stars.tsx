@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { useRatingScale } from "@/hooks/use-rating-scale";
+import { cn } from "@/lib/utils";
+import type { RatingScale } from "@shared/schema";
+
+// Scores are drawn as one star per point up to the scale's max, so 3.5 on a
+// half-star scale fills three and a half of five stars.
+
+/** Every value of the scale, lowest first. */
+export function scaleSteps({ min, max, step }: RatingScale): number[] {
+  const count = Math.round((max - min) / step);
+  return Array.from({ length: count + 1 }, (_, i) => Math.round((min + i * step) * 1e6) / 1e6);
+}
+
+/** How much of star `index` (from 0) a score fills, from 0 to 1. */
+function starFill(score: number, index: number): number {
+  return Math.min(1, Math.max(0, score - index));
+}
+
+function StarGlyph({ fill, size }: { fill: number; size: string }) {
+  return (
+    <span className={cn("relative inline-block shrink-0", size)}>
+      <Star className={cn(size, "absolute inset-0 fill-none text-muted-foreground/50")} />
+      <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+        <Star className={cn(size, "max-w-none fill-amber-400 text-amber-400")} />
+      </span>
+    </span>
+  );
+}
+
+/** A score as stars on the server's rating scale. */
+export function StarRating({
+  score,
+  size = "w-4 h-4",
+  className,
+  "data-testid": testId,
+}: {
+  score: number;
+  size?: string;
+  className?: string;
+  "data-testid"?: string;
+}) {
+  const scale = useRatingScale();
+  return (
+    <span
+      role="img"
+      aria-label={`${score} out of ${scale.max}`}
+      className={cn("inline-flex items-center gap-0.5", className)}
+      data-testid={testId}
+    >
+      {Array.from({ length: scale.max }, (_, i) => (
+        <StarGlyph key={i} fill={starFill(score, i)} size={size} />
+      ))}
+    </span>
+  );
+}
+
+/**
+ * Stars to pick a score with. Each of the scale's values is a button
+ * covering its share of a star, so a half-star scale splits every star in
+ * two. Buttons are labelled "<label>: <value> stars" and given the test id
+ * `<testIdPrefix>-<value>`.
+ */
+export function StarPicker({
+  value,
+  onSelect,
+  label,
+  testIdPrefix,
+  disabled,
+  size = "w-4 h-4",
+  className,
+}: {
+  value: number | null;
+  onSelect: (score: number) => void;
+  label: string;
+  testIdPrefix: string;
+  disabled?: boolean;
+  size?: string;
+  className?: string;
+}) {
+  const scale = useRatingScale();
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value ?? 0;
+  const steps = scaleSteps(scale);
+
+  return (
+    <div
+      className={cn("flex items-center", disabled && "opacity-50", className)}
+      onMouseLeave={() => setHovered(null)}
+    >
+      {Array.from({ length: scale.max }, (_, i) => (
+        <span key={i} className="relative p-1 transition-transform hover:scale-110">
+          <StarGlyph fill={starFill(shown, i)} size={size} />
+          {steps
+            .filter((step) => step > i && step <= i + 1)
+            .map((step) => {
+              const start = Math.max(i, step - scale.step) - i;
+              return (
+                <button
+                  key={step}
+                  type="button"
+                  aria-label={`${label}: ${step} ${step === 1 ? "star" : "stars"}`}
+                  data-testid={`${testIdPrefix}-${step}`}
+                  onClick={() => onSelect(step)}
+                  onMouseEnter={() => setHovered(step)}
+                  disabled={disabled}
+                  className="absolute inset-y-0 rounded disabled:cursor-not-allowed"
+                  style={{ left: `${start * 100}%`, width: `${(step - i - start) * 100}%` }}
+                />
+              );
+            })}
+        </span>
+      ))}
+    </div>
+  );
+}
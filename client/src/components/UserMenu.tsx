@@ -0,0 +1,55 @@
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { LogIn, LogOut, User } from "lucide-react";
+
+export function UserMenu() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  const { toast } = useToast();
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <div className="flex items-center gap-2">
+        <Link href="/login">
+          <Button variant="ghost" size="sm" data-testid="link-login">
+            <LogIn className="w-4 h-4 mr-2" />
+            Log in
+          </Button>
+        </Link>
+        <Link href="/signup">
+          <Button variant="outline" size="sm" data-testid="link-signup">
+            Sign up
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="flex items-center gap-1.5 text-sm text-muted-foreground" data-testid="text-username">
+        <User className="w-4 h-4" />
+        {user.username}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        data-testid="button-logout"
+        disabled={logoutMutation.isPending}
+        onClick={() =>
+          logoutMutation.mutate(undefined, {
+            onError: (err: Error) => {
+              toast({ title: "Error", description: err.message, variant: "destructive" });
+            },
+          })
+        }
+      >
+        <LogOut className="w-4 h-4 mr-2" />
+        Log out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect } from "react";
+import type { InfiniteData, QueryClient } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type {
+  LiveEvent,
+  Movie,
+  MovieDetail,
+  MovieListResponse,
+  MovieSortField,
+  MovieWithStats,
+  RatingStats,
+} from "@shared/schema";
+
+// The movie list pages cache under ["/api/movies", listParams] and the detail
+// page under ["/api/movies", id]. Events from /api/live are patched into
+// both, so ratings and edits by other people show up without reloading.
+
+const LIVE_PATH = "/api/live";
+const MAX_RETRY_MS = 30_000;
+
+type ListParams = {
+  sort: MovieSortField;
+  order: "asc" | "desc";
+  genre?: string;
+  certification?: string;
+  minRuntime?: string;
+  maxRuntime?: string;
+};
+type ListData = InfiniteData<MovieListResponse, string | null>;
+
+function listQueries(client: QueryClient) {
+  return client
+    .getQueryCache()
+    .findAll({ queryKey: ["/api/movies"] })
+    .filter((query) => typeof query.queryKey[1] === "object" && query.queryKey.length === 2);
+}
+
+function patchListItems(client: QueryClient, movieId: number, patch: (movie: MovieWithStats) => MovieWithStats) {
+  listQueries(client).forEach((query) => {
+    client.setQueryData<ListData>(query.queryKey, (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({
+          ...page,
+          items: page.items.map((movie) => (movie.id === movieId ? patch(movie) : movie)),
+        })),
+      },
+    );
+  });
+}
+
+function patchDetail(client: QueryClient, movieId: number, patch: (movie: MovieDetail) => MovieDetail) {
+  client.setQueryData<MovieDetail>(["/api/movies", String(movieId)], (movie) => movie && patch(movie));
+}
+
+function removeMovie(client: QueryClient, movieId: number) {
+  listQueries(client).forEach((query) => {
+    client.setQueryData<ListData>(query.queryKey, (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, items: page.items.filter((movie) => movie.id !== movieId) })),
+      },
+    );
+  });
+  client.removeQueries({ queryKey: ["/api/movies", String(movieId)], exact: true });
+}
+
+/**
+ * Sets a movie's new stats wherever it is cached. They are the totals after
+ * the change rather than a delta, so applying them on top of the rater's own
+ * refetch does no harm. The detail is refetched as well, since the score
+ * distribution and criteria averages it shows can't be patched from them.
+ */
+function setRatingStats(client: QueryClient, movieId: number, { avgRating, totalRatings }: RatingStats) {
+  const update = <T extends MovieWithStats>(movie: T): T => ({ ...movie, avgRating, totalRatings });
+  patchListItems(client, movieId, update);
+  patchDetail(client, movieId, update);
+  client.invalidateQueries({ queryKey: ["/api/movies", String(movieId)], exact: true });
+}
+
+/** Orders movies the way GET /api/movies does for `sort`, ascending. */
+function compareMovies(a: MovieWithStats, b: MovieWithStats, sort: MovieSortField): number {
+  let byValue: number;
+  if (sort === "title") {
+    byValue = a.title.localeCompare(b.title);
+  } else if (sort === "createdAt") {
+    byValue = new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime();
+  } else {
+    byValue = a[sort] - b[sort];
+  }
+  return byValue || a.id - b.id;
+}
+
+/**
+ * Puts a new movie where it sorts among the loaded pages. Filtered lists are
+ * refetched instead, since only the server knows whether the movie matches,
+ * and a movie sorting after everything loaded so far is left for a later page.
+ */
+function insertMovie(client: QueryClient, movie: MovieWithStats) {
+  listQueries(client).forEach((query) => {
+    const params = query.queryKey[1] as ListParams;
+    if (params.genre || params.certification || params.minRuntime || params.maxRuntime) {
+      client.invalidateQueries({ queryKey: query.queryKey, exact: true });
+      return;
+    }
+
+    client.setQueryData<ListData>(query.queryKey, (data) => {
+      if (!data || data.pages.some((page) => page.items.some((item) => item.id === movie.id))) return data;
+      const direction = params.order === "asc" ? 1 : -1;
+      const sortsBefore = (item: MovieWithStats) => direction * compareMovies(movie, item, params.sort) < 0;
+
+      let pageIndex = data.pages.findIndex((page) => page.items.some(sortsBefore));
+      if (pageIndex === -1) {
+        if (data.pages[data.pages.length - 1]?.nextCursor !== null) return data;
+        pageIndex = data.pages.length - 1;
+      }
+      return {
+        ...data,
+        pages: data.pages.map((page, i) => {
+          if (i !== pageIndex) return page;
+          const at = page.items.findIndex(sortsBefore);
+          const items = [...page.items];
+          items.splice(at === -1 ? items.length : at, 0, movie);
+          return { ...page, items };
+        }),
+      };
+    });
+  });
+}
+
+/** Applies one live event to the cache. */
+export function applyLiveEvent(client: QueryClient, event: LiveEvent) {
+  switch (event.type) {
+    case "movie.created":
+      insertMovie(client, event.movie);
+      break;
+    case "movie.updated": {
+      const update = <T extends Movie>(movie: T): T => ({ ...movie, ...event.movie });
+      patchListItems(client, event.movie.id, update);
+      patchDetail(client, event.movie.id, update);
+      break;
+    }
+    case "movie.deleted":
+      removeMovie(client, event.movieId);
+      break;
+    case "rating.created":
+    case "rating.deleted":
+      setRatingStats(client, event.movieId, event);
+      break;
+  }
+}
+
+/**
+ * Keeps the movie queries current from /api/live while mounted. The socket
+ * reconnects with backoff when it drops, refetching the movie queries once
+ * it is back since events sent in between were missed.
+ */
+export function useLiveUpdates() {
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let retryMs = 1000;
+    let connected = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_PATH}`);
+      socket.onopen = () => {
+        if (connected) queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+        connected = true;
+        retryMs = 1000;
+      };
+      socket.onmessage = (message) => {
+        applyLiveEvent(queryClient, JSON.parse(message.data) as LiveEvent);
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        retry = setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      socket?.close();
+    };
+  }, []);
+}
@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_RATING_SCALE, type AppConfig, type RatingScale } from "@shared/schema";
+
+/** The server's rating scale (GET /api/config); the default one until it has loaded. */
+export function useRatingScale(): RatingScale {
+  const { data } = useQuery<AppConfig>({ queryKey: ["/api/config"] });
+  return data?.ratingScale ?? DEFAULT_RATING_SCALE;
+}
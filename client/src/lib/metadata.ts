@@ -0,0 +1,34 @@
+import type { ExternalIds } from "@shared/schema";
+
+/** 175 → "2h 55m". */
+export function formatRuntime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function displayName(type: "language" | "region", code: string): string {
+  try {
+    return new Intl.DisplayNames(undefined, { type }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/** "en" → "English", falling back to the code. */
+export function languageName(code: string): string {
+  return displayName("language", code);
+}
+
+/** "US" → "United States", falling back to the code. */
+export function countryName(code: string): string {
+  return displayName("region", code);
+}
+
+export function externalLinks(ids: ExternalIds): { label: string; url: string }[] {
+  const links: { label: string; url: string }[] = [];
+  if (ids.imdb) links.push({ label: "IMDb", url: `https://www.imdb.com/title/${ids.imdb}/` });
+  if (ids.tmdb) links.push({ label: "TMDB", url: `https://www.themoviedb.org/movie/${ids.tmdb}` });
+  return links;
+}
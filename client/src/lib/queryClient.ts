@@ -12,10 +12,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // FormData goes out as multipart; the browser sets its Content-Type boundary.
+  const multipart = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !multipart ? { "Content-Type": "application/json" } : {},
+    body: multipart ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
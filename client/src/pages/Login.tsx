@@ -0,0 +1,7 @@
+import { AuthForm } from "@/components/AuthForm";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function Login() {
+  const { loginMutation } = useAuth();
+  return <AuthForm mode="login" mutation={loginMutation} />;
+}
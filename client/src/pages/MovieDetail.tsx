@@ -1,44 +1,231 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams, Link } from "wouter";
+import { useParams, Link, useLocation } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, Star, Calendar, Tag } from "lucide-react";
-import type { MovieDetail as MovieDetailType } from "@shared/schema";
+import { GenreBadge, parseGenreNames } from "@/components/GenreBadge";
+import { Poster } from "@/components/Poster";
+import { CriteriaRadar } from "@/components/CriteriaRadar";
+import { CriteriaRater } from "@/components/CriteriaRater";
+import { ReviewComposer } from "@/components/ReviewComposer";
+import { ReviewList } from "@/components/ReviewList";
+import { StarPicker, StarRating, scaleSteps } from "@/components/Stars";
+import { useRatingScale } from "@/hooks/use-rating-scale";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { countryName, externalLinks, formatRuntime, languageName } from "@/lib/metadata";
+import { ArrowLeft, Star, Calendar, Tag, Pencil, Trash2, Clock, Globe, ExternalLink, ImagePlus } from "lucide-react";
+import {
+  FIRST_FILM_YEAR,
+  movieCertifications,
+  type CreditRole,
+  type InsertMovie,
+  type MovieCertification,
+  type MovieCredit,
+  type MovieCreditListResponse,
+  type MovieDetail as MovieDetailType,
+  type RatingResult,
+} from "@shared/schema";
 
-function formatStars(score: number): string {
-  const rounded = Math.round(score);
-  return "★".repeat(rounded) + "☆".repeat(5 - rounded);
+// Radix Select doesn't allow an empty item value, so "not rated" gets a sentinel.
+const NO_CERTIFICATION = "none";
+
+const crewRoleLabels: Record<Exclude<CreditRole, "actor">, string> = {
+  director: "Director",
+  writer: "Writer",
+  producer: "Producer",
+  composer: "Music",
+  cinematographer: "Cinematography",
+  editor: "Editor",
+};
+
+function PersonLink({ credit }: { credit: MovieCredit }) {
+  return (
+    <Link
+      href={`/people/${credit.person.id}`}
+      className="text-foreground hover:underline"
+      data-testid={`link-person-${credit.person.id}`}
+    >
+      {credit.person.name}
+    </Link>
+  );
 }
 
 export default function MovieDetail() {
   const params = useParams<{ id: string }>();
   const id = params.id;
   const { toast } = useToast();
-  const [hoveredStar, setHoveredStar] = useState(0);
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const scale = useRatingScale();
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState("");
+  const [year, setYear] = useState("");
+  const [genres, setGenres] = useState("");
+  const [runtime, setRuntime] = useState("");
+  const [certification, setCertification] = useState("");
+  const [language, setLanguage] = useState("");
+  const [country, setCountry] = useState("");
+  const [imdbId, setImdbId] = useState("");
+  const [tmdbId, setTmdbId] = useState("");
+  const [synopsis, setSynopsis] = useState("");
+  const posterInput = useRef<HTMLInputElement>(null);
 
   const { data: movie, isLoading } = useQuery<MovieDetailType>({
     queryKey: ["/api/movies", id],
   });
+  const { data: credits } = useQuery<MovieCreditListResponse>({
+    queryKey: ["/api/movies", id, "credits"],
+  });
+  const cast = credits?.items.filter((c) => c.role === "actor") ?? [];
+  const crew = credits?.items.filter((c) => c.role !== "actor") ?? [];
+  const directors = crew.filter((c) => c.role === "director");
+  const links = movie ? externalLinks(movie.externalIds) : [];
 
   const rateMutation = useMutation({
     mutationFn: async (score: number) => {
       const res = await apiRequest("POST", `/api/movies/${id}/rate`, { score });
+      return (await res.json()) as RatingResult;
+    },
+    onSuccess: (result, score) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      toast({
+        title: result.previousScore === null ? "Rating submitted" : "Rating updated",
+        description:
+          result.previousScore === null
+            ? "Your rating has been recorded."
+            : `Your rating changed from ${result.previousScore} to ${score}.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const clearRatingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/movies/${id}/rate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      toast({ title: "Rating cleared", description: "Your rating has been removed." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<InsertMovie>) => {
+      const res = await apiRequest("PATCH", `/api/movies/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movies", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/genres"] });
+      setEditing(false);
+      toast({ title: "Movie updated", description: "Your changes have been saved." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const posterMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const form = new FormData();
+      form.append("poster", file);
+      const res = await apiRequest("POST", `/api/movies/${id}/poster`, form);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/movies", id] });
       queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
-      toast({ title: "Rating submitted", description: "Your rating has been recorded." });
+      toast({ title: "Poster uploaded", description: "The new poster is now shown." });
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
     },
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/movies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/movies", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      toast({ title: "Movie deleted", description: "The movie has been removed from the list." });
+      navigate("/");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const startEditing = () => {
+    if (!movie) return;
+    setTitle(movie.title);
+    setYear(String(movie.year));
+    setGenres(movie.genres.map((g) => g.name).join(", "));
+    setRuntime(movie.runtimeMinutes ? String(movie.runtimeMinutes) : "");
+    setCertification(movie.certification ?? "");
+    setLanguage(movie.originalLanguage ?? "");
+    setCountry(movie.country ?? "");
+    setImdbId(movie.externalIds.imdb ?? "");
+    setTmdbId(movie.externalIds.tmdb ? String(movie.externalIds.tmdb) : "");
+    setSynopsis(movie.synopsis ?? "");
+    setEditing(true);
+  };
+
+  const handleUpdate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const genreNames = parseGenreNames(genres);
+    if (!title.trim() || !year.trim() || genreNames.length === 0) return;
+    updateMutation.mutate({
+      title: title.trim(),
+      year: Number(year),
+      genres: genreNames,
+      // Blank inputs clear the field rather than leaving it unchanged.
+      runtimeMinutes: runtime.trim() ? Number(runtime) : null,
+      certification: (certification || null) as MovieCertification | null,
+      originalLanguage: language.trim().toLowerCase() || null,
+      country: country.trim().toUpperCase() || null,
+      synopsis: synopsis.trim() || null,
+      externalIds: {
+        ...(imdbId.trim() ? { imdb: imdbId.trim() } : {}),
+        ...(tmdbId.trim() ? { tmdb: Number(tmdbId) } : {}),
+      },
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -84,25 +271,296 @@ export default function MovieDetail() {
           </Button>
         </Link>
 
-        <div className="mb-8">
-          <h1
-            className="text-3xl font-bold tracking-tight text-foreground mb-3"
-            data-testid="text-movie-title"
-          >
-            {movie.title}
-          </h1>
-          <div className="flex items-center gap-4 flex-wrap">
-            <div className="flex items-center gap-1.5 text-muted-foreground">
-              <Calendar className="w-4 h-4" />
-              <span className="text-sm" data-testid="text-movie-year">{movie.year}</span>
-            </div>
-            <div className="flex items-center gap-1.5 text-muted-foreground">
-              <Tag className="w-4 h-4" />
-              <span className="text-sm" data-testid="text-movie-genre">{movie.genre}</span>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div className="flex items-start gap-5">
+            <Poster movie={movie} size="large" className="w-28 sm:w-40 shrink-0" />
+            <div>
+              <h1
+                className="text-3xl font-bold tracking-tight text-foreground mb-3"
+                data-testid="text-movie-title"
+              >
+                {movie.title}
+              </h1>
+              <div className="flex items-center gap-4 flex-wrap">
+                <div className="flex items-center gap-1.5 text-muted-foreground">
+                  <Calendar className="w-4 h-4" />
+                  <span className="text-sm" data-testid="text-movie-year">{movie.year}</span>
+                </div>
+                <div className="flex items-center gap-1.5 text-muted-foreground" data-testid="text-movie-genres">
+                  <Tag className="w-4 h-4" />
+                  {movie.genres.map((genre) => (
+                    <GenreBadge key={genre.slug} genre={genre} />
+                  ))}
+                </div>
+                {movie.runtimeMinutes && (
+                  <div className="flex items-center gap-1.5 text-muted-foreground">
+                    <Clock className="w-4 h-4" />
+                    <span className="text-sm" data-testid="text-movie-runtime">
+                      {formatRuntime(movie.runtimeMinutes)}
+                    </span>
+                  </div>
+                )}
+                {movie.certification && (
+                  <span
+                    className="px-1.5 py-0.5 rounded border border-border text-xs font-semibold text-muted-foreground"
+                    data-testid="badge-certification"
+                  >
+                    {movie.certification}
+                  </span>
+                )}
+                {(movie.originalLanguage || movie.country) && (
+                  <div className="flex items-center gap-1.5 text-muted-foreground">
+                    <Globe className="w-4 h-4" />
+                    <span className="text-sm" data-testid="text-movie-origin">
+                      {[
+                        movie.originalLanguage && languageName(movie.originalLanguage),
+                        movie.country && countryName(movie.country),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </div>
+                )}
+              </div>
+              {directors.length > 0 && (
+                <p className="text-sm text-muted-foreground mt-2" data-testid="text-movie-directors">
+                  Directed by{" "}
+                  {directors.map((credit, i) => (
+                    <span key={credit.id}>
+                      {i > 0 && (i === directors.length - 1 ? " and " : ", ")}
+                      <PersonLink credit={credit} />
+                    </span>
+                  ))}
+                </p>
+              )}
+              {links.length > 0 && (
+                <div className="flex items-center gap-3 mt-2">
+                  {links.map((link) => (
+                    <a
+                      key={link.label}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground hover:underline"
+                      data-testid={`link-external-${link.label.toLowerCase()}`}
+                    >
+                      {link.label}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            {user && (
+              <>
+                <input
+                  ref={posterInput}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  className="hidden"
+                  data-testid="input-poster"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) posterMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-upload-poster"
+                  disabled={posterMutation.isPending}
+                  onClick={() => posterInput.current?.click()}
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  {posterMutation.isPending ? "Uploading..." : "Poster"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-edit-movie"
+                  onClick={() => (editing ? setEditing(false) : startEditing())}
+                >
+                  <Pencil className="w-4 h-4 mr-2" />
+                  {editing ? "Cancel" : "Edit"}
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" data-testid="button-delete-movie">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {movie.title}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This permanently removes the movie and all of its{" "}
+                        {movie.totalRatings} {movie.totalRatings === 1 ? "rating" : "ratings"}.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        data-testid="button-confirm-delete"
+                        onClick={() => deleteMutation.mutate()}
+                        disabled={deleteMutation.isPending}
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
         </div>
 
+        {editing && user && (
+          <Card className="mb-6 p-6 border border-card-border bg-card">
+            <h2 className="text-lg font-semibold mb-4 text-foreground">Edit Movie</h2>
+            <form onSubmit={handleUpdate} className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-title">Title</Label>
+                <Input
+                  id="edit-title"
+                  data-testid="input-edit-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-year">Year</Label>
+                <Input
+                  id="edit-year"
+                  data-testid="input-edit-year"
+                  type="number"
+                  min={FIRST_FILM_YEAR}
+                  max={new Date().getFullYear()}
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-genres">Genres</Label>
+                <Input
+                  id="edit-genres"
+                  data-testid="input-edit-genres"
+                  placeholder="Comma-separated"
+                  value={genres}
+                  onChange={(e) => setGenres(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-runtime">Runtime (minutes)</Label>
+                <Input
+                  id="edit-runtime"
+                  data-testid="input-edit-runtime"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={runtime}
+                  onChange={(e) => setRuntime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-certification">Certification</Label>
+                <Select
+                  value={certification || NO_CERTIFICATION}
+                  onValueChange={(v) => setCertification(v === NO_CERTIFICATION ? "" : v)}
+                >
+                  <SelectTrigger id="edit-certification" data-testid="select-edit-certification">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CERTIFICATION}>None</SelectItem>
+                    {movieCertifications.map((c) => (
+                      <SelectItem key={c} value={c}>
+                        {c}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-language">Language</Label>
+                  <Input
+                    id="edit-language"
+                    data-testid="input-edit-language"
+                    placeholder="en"
+                    maxLength={2}
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-country">Country</Label>
+                  <Input
+                    id="edit-country"
+                    data-testid="input-edit-country"
+                    placeholder="US"
+                    maxLength={2}
+                    value={country}
+                    onChange={(e) => setCountry(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-imdb">IMDb ID</Label>
+                <Input
+                  id="edit-imdb"
+                  data-testid="input-edit-imdb"
+                  placeholder="tt0068646"
+                  value={imdbId}
+                  onChange={(e) => setImdbId(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-tmdb">TMDB ID</Label>
+                <Input
+                  id="edit-tmdb"
+                  data-testid="input-edit-tmdb"
+                  type="number"
+                  min={1}
+                  value={tmdbId}
+                  onChange={(e) => setTmdbId(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-3">
+                <Label htmlFor="edit-synopsis">Synopsis</Label>
+                <Textarea
+                  id="edit-synopsis"
+                  data-testid="input-edit-synopsis"
+                  maxLength={5000}
+                  value={synopsis}
+                  onChange={(e) => setSynopsis(e.target.value)}
+                />
+              </div>
+              <div className="sm:col-span-3 flex justify-end">
+                <Button
+                  type="submit"
+                  data-testid="button-save-movie"
+                  disabled={updateMutation.isPending}
+                >
+                  {updateMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {movie.synopsis && (
+          <p className="text-foreground leading-relaxed mb-6" data-testid="text-movie-synopsis">
+            {movie.synopsis}
+          </p>
+        )}
+
         <Card className="p-6 border border-card-border bg-card mb-6">
           <div className="flex items-center justify-between mb-6">
             <div>
@@ -113,12 +571,7 @@ export default function MovieDetail() {
                 <span className="text-4xl font-bold text-foreground" data-testid="text-detail-avg">
                   {movie.avgRating > 0 ? movie.avgRating.toFixed(1) : "—"}
                 </span>
-                <span
-                  className="text-2xl text-amber-500 dark:text-amber-400 tracking-wider"
-                  data-testid="text-detail-stars"
-                >
-                  {formatStars(movie.avgRating)}
-                </span>
+                <StarRating score={movie.avgRating} size="w-6 h-6" data-testid="text-detail-stars" />
               </div>
               <p className="text-sm text-muted-foreground mt-1" data-testid="text-detail-count">
                 {movie.totalRatings} {movie.totalRatings === 1 ? "rating" : "ratings"}
@@ -128,47 +581,105 @@ export default function MovieDetail() {
 
           <div className="border-t border-border pt-6">
             <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-4">
-              Rate this movie
+              {movie.userRating !== null ? "Your rating" : "Rate this movie"}
             </h3>
-            <div className="flex items-center gap-2">
-              {[1, 2, 3, 4, 5].map((star) => (
-                <button
-                  key={star}
-                  data-testid={`button-star-${star}`}
-                  onClick={() => rateMutation.mutate(star)}
-                  onMouseEnter={() => setHoveredStar(star)}
-                  onMouseLeave={() => setHoveredStar(0)}
-                  disabled={rateMutation.isPending}
-                  className="group relative w-12 h-12 flex items-center justify-center rounded-md transition-all duration-150 hover:scale-110 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <Star
-                    className={`w-7 h-7 transition-colors duration-150 ${
-                      star <= hoveredStar
-                        ? "fill-amber-400 text-amber-400"
-                        : "fill-none text-muted-foreground/50 group-hover:text-amber-300"
-                    }`}
+            {user ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <StarPicker
+                    value={movie.userRating}
+                    onSelect={(score) => rateMutation.mutate(score)}
+                    label="Rate"
+                    testIdPrefix="button-star"
+                    disabled={rateMutation.isPending}
+                    size="w-7 h-7"
                   />
-                </button>
-              ))}
-            </div>
-            {rateMutation.isPending && (
-              <p className="text-sm text-muted-foreground mt-3">Submitting your rating...</p>
+                  {movie.userRating !== null && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-2"
+                      data-testid="button-clear-rating"
+                      onClick={() => clearRatingMutation.mutate()}
+                      disabled={clearRatingMutation.isPending}
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                {rateMutation.isPending && (
+                  <p className="text-sm text-muted-foreground mt-3">Submitting your rating...</p>
+                )}
+                {movie.criteria.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">
+                      Your breakdown
+                    </h3>
+                    <CriteriaRater
+                      movieId={movie.id}
+                      score={movie.userRating}
+                      criteria={movie.criteria}
+                      scores={movie.userCriteria}
+                    />
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-testid="text-login-to-rate">
+                <Link href="/login" className="text-foreground underline">
+                  Log in
+                </Link>{" "}
+                to rate this movie.
+              </p>
             )}
           </div>
         </Card>
 
-        {movie.ratings && movie.ratings.length > 0 && (
+        {credits && credits.items.length > 0 && (
+          <Card className="p-6 border border-card-border bg-card mb-6" data-testid="card-credits">
+            {cast.length > 0 && (
+              <>
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">Cast</h3>
+                <ul className="space-y-1.5 mb-6">
+                  {cast.map((credit) => (
+                    <li key={credit.id} className="flex items-baseline justify-between gap-4 text-sm">
+                      <PersonLink credit={credit} />
+                      {credit.character && <span className="text-muted-foreground">{credit.character}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {crew.length > 0 && (
+              <>
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">Crew</h3>
+                <ul className="space-y-1.5">
+                  {crew.map((credit) => (
+                    <li key={credit.id} className="flex items-baseline justify-between gap-4 text-sm">
+                      <PersonLink credit={credit} />
+                      <span className="text-muted-foreground">
+                        {crewRoleLabels[credit.role as Exclude<CreditRole, "actor">]}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </Card>
+        )}
+
+        {movie.totalRatings > 0 && (
           <Card className="p-6 border border-card-border bg-card">
             <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-4">
               Rating Distribution
             </h3>
             <div className="space-y-2">
-              {[5, 4, 3, 2, 1].map((score) => {
-                const count = movie.ratings.filter((r) => r === score).length;
+              {scaleSteps(scale).reverse().map((score) => {
+                const count = movie.ratingHistogram[String(score)] ?? 0;
                 const percentage = movie.totalRatings > 0 ? (count / movie.totalRatings) * 100 : 0;
                 return (
                   <div key={score} className="flex items-center gap-3" data-testid={`bar-rating-${score}`}>
-                    <span className="text-sm text-muted-foreground w-3 text-right">{score}</span>
+                    <span className="text-sm text-muted-foreground w-7 text-right">{score}</span>
                     <Star className="w-3.5 h-3.5 text-amber-500 dark:text-amber-400 fill-amber-500 dark:fill-amber-400" />
                     <div className="flex-1 h-2.5 bg-muted rounded-full overflow-hidden">
                       <div
@@ -183,6 +694,43 @@ export default function MovieDetail() {
             </div>
           </Card>
         )}
+
+        {movie.criteria.some((c) => c.totalScores > 0) && (
+          <Card className="p-6 border border-card-border bg-card mt-6" data-testid="card-criteria">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-4">
+              Breakdown
+            </h3>
+            <div className="grid gap-6 sm:grid-cols-[1fr_auto] items-center">
+              <CriteriaRadar criteria={movie.criteria} userCriteria={movie.userCriteria} />
+              <ul className="space-y-1.5 text-sm">
+                {movie.criteria.map((criterion) => (
+                  <li
+                    key={criterion.id}
+                    className="flex items-baseline justify-between gap-6"
+                    data-testid={`text-criterion-avg-${criterion.slug}`}
+                  >
+                    <span className="text-foreground">{criterion.name}</span>
+                    <span className="text-muted-foreground">
+                      {criterion.totalScores > 0 ? criterion.avgScore.toFixed(1) : "—"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 border border-card-border bg-card mt-6">
+          {user && (
+            <div className="mb-6 pb-6 border-b border-border">
+              <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">
+                {movie.userReview ? "Your review" : "Write a review"}
+              </h3>
+              <ReviewComposer movieId={movie.id} score={movie.userRating} review={movie.userReview} />
+            </div>
+          )}
+          <ReviewList movieId={movie.id} />
+        </Card>
       </div>
     </div>
   );
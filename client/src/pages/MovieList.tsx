@@ -1,41 +1,65 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Film, Plus, Star, X, ChevronRight } from "lucide-react";
-import type { MovieWithStats } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserMenu } from "@/components/UserMenu";
+import { GenreBadge, parseGenreNames } from "@/components/GenreBadge";
+import { GenreSelect } from "@/components/GenreSelect";
+import { Poster } from "@/components/Poster";
+import { MovieImportDialog } from "@/components/MovieImportDialog";
+import { StarRating } from "@/components/Stars";
+import { Film, Plus, X, ChevronRight, ArrowUp, ArrowDown, Search, Trophy } from "lucide-react";
+import {
+  FIRST_FILM_YEAR,
+  movieCertifications,
+  type MovieListResponse,
+  type MovieSearchResponse,
+  type MovieSortField,
+  type MovieWithStats,
+  type SearchMatch,
+} from "@shared/schema";
 
-function formatStars(score: number): string {
-  const rounded = Math.round(score);
-  return "★".repeat(rounded) + "☆".repeat(5 - rounded);
-}
+const ANY_CERTIFICATION = "any";
 
-function GenreBadge({ genre }: { genre: string }) {
-  const colorMap: Record<string, string> = {
-    Crime: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
-    Drama: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
-    "Sci-Fi":
-      "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
-    Thriller:
-      "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
-    Musical:
-      "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
-  };
-  const colors = colorMap[genre] || "bg-muted text-muted-foreground";
-  return (
-    <span
-      data-testid={`badge-genre-${genre.toLowerCase()}`}
-      className={`inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium ${colors}`}
-    >
-      {genre}
-    </span>
-  );
+const sortLabels: Record<MovieSortField, string> = {
+  title: "Title",
+  year: "Year",
+  avgRating: "Rating",
+  totalRatings: "Votes",
+  createdAt: "Recently added",
+};
+
+const PAGE_SIZE = 25;
+
+function HighlightedTitle({ title, matches }: { title: string; matches: SearchMatch[] }) {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const { start, end } of matches) {
+    if (start > pos) parts.push(title.slice(pos, start));
+    parts.push(
+      <mark key={start} className="bg-amber-200/70 dark:bg-amber-500/30 text-foreground rounded-sm">
+        {title.slice(start, end)}
+      </mark>,
+    );
+    pos = end;
+  }
+  if (pos < title.length) parts.push(title.slice(pos));
+  return <>{parts}</>;
 }
 
 function RatingDisplay({
@@ -47,12 +71,7 @@ function RatingDisplay({
 }) {
   return (
     <div className="flex items-center gap-2">
-      <span
-        className="text-amber-500 dark:text-amber-400 text-sm tracking-wide"
-        data-testid="text-stars"
-      >
-        {formatStars(avgRating)}
-      </span>
+      <StarRating score={avgRating} size="w-3.5 h-3.5" data-testid="text-stars" />
       <span
         className="text-sm font-medium text-foreground"
         data-testid="text-avg-rating"
@@ -73,28 +92,89 @@ export default function MovieList() {
   const [showForm, setShowForm] = useState(false);
   const [title, setTitle] = useState("");
   const [year, setYear] = useState("");
-  const [genre, setGenre] = useState("");
+  const [genres, setGenres] = useState("");
+  const [sort, setSort] = useState<MovieSortField>("title");
+  const [order, setOrder] = useState<"asc" | "desc">("asc");
+  const [genreFilter, setGenreFilter] = useState("");
+  const [certificationFilter, setCertificationFilter] = useState("");
+  const [minRuntime, setMinRuntime] = useState("");
+  const [maxRuntime, setMaxRuntime] = useState("");
+  const [search, setSearch] = useState("");
+  const debouncedMinRuntime = useDebounce(minRuntime.trim());
+  const debouncedMaxRuntime = useDebounce(maxRuntime.trim());
+  const debouncedSearch = useDebounce(search.trim());
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  const { data: movies, isLoading } = useQuery<MovieWithStats[]>({
-    queryKey: ["/api/movies"],
+  const { data: searchResults, isFetching: isSearching } = useQuery<MovieSearchResponse>({
+    queryKey: ["/api/search", debouncedSearch],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedSearch });
+      const res = await apiRequest("GET", `/api/search?${params}`);
+      return res.json();
+    },
+    enabled: debouncedSearch.length > 0,
   });
 
+  const listParams = {
+    sort,
+    order,
+    genre: genreFilter,
+    certification: certificationFilter,
+    minRuntime: debouncedMinRuntime,
+    maxRuntime: debouncedMaxRuntime,
+  };
+  const filtered = Boolean(
+    listParams.genre || listParams.certification || listParams.minRuntime || listParams.maxRuntime,
+  );
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/movies", listParams],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+      if (listParams.genre) params.set("genre", listParams.genre);
+      if (listParams.certification) params.set("certification", listParams.certification);
+      if (listParams.minRuntime) params.set("minRuntime", listParams.minRuntime);
+      if (listParams.maxRuntime) params.set("maxRuntime", listParams.maxRuntime);
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/movies?${params}`);
+      return (await res.json()) as MovieListResponse;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const listedMovies = data?.pages.flatMap((page) => page.items);
+  const searching = debouncedSearch.length > 0;
+  const movies: (MovieWithStats & { matches?: SearchMatch[] })[] | undefined = searching
+    ? searchResults?.items
+    : listedMovies;
+
+  const changeSort = (value: MovieSortField) => {
+    setSort(value);
+    setOrder(value === "title" ? "asc" : "desc");
+  };
+
   const addMovieMutation = useMutation({
     mutationFn: async (data: {
       title: string;
       year: number;
-      genre: string;
+      genres: string[];
     }) => {
       const res = await apiRequest("POST", "/api/movies", data);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/genres"] });
       setShowForm(false);
       setTitle("");
       setYear("");
-      setGenre("");
+      setGenres("");
       toast({
         title: "Movie added",
         description: "The movie has been added to the list.",
@@ -111,11 +191,12 @@ export default function MovieList() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!title.trim() || !year.trim() || !genre.trim()) return;
+    const genreNames = parseGenreNames(genres);
+    if (!title.trim() || !year.trim() || genreNames.length === 0) return;
     addMovieMutation.mutate({
       title: title.trim(),
       year: Number(year),
-      genre: genre.trim(),
+      genres: genreNames,
     });
   };
 
@@ -139,21 +220,33 @@ export default function MovieList() {
               </p>
             </div>
           </div>
-          <Button
-            data-testid="button-add-movie"
-            onClick={() => setShowForm(!showForm)}
-            variant={showForm ? "secondary" : "default"}
-          >
-            {showForm ? (
-              <X className="w-4 h-4 mr-2" />
-            ) : (
-              <Plus className="w-4 h-4 mr-2" />
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/top">
+              <Button variant="outline" data-testid="link-top-rated">
+                <Trophy className="w-4 h-4 mr-2" />
+                Top Rated
+              </Button>
+            </Link>
+            <MovieImportDialog />
+            {user && (
+              <Button
+                data-testid="button-add-movie"
+                onClick={() => setShowForm(!showForm)}
+                variant={showForm ? "secondary" : "default"}
+              >
+                {showForm ? (
+                  <X className="w-4 h-4 mr-2" />
+                ) : (
+                  <Plus className="w-4 h-4 mr-2" />
+                )}
+                {showForm ? "Cancel" : "Add Movie"}
+              </Button>
             )}
-            {showForm ? "Cancel" : "Add Movie"}
-          </Button>
+          </div>
         </div>
 
-        {showForm && (
+        {showForm && user && (
           <Card className="mb-6 p-6 border border-card-border bg-card">
             <h2 className="text-lg font-semibold mb-4 text-foreground">
               Add a New Movie
@@ -180,7 +273,7 @@ export default function MovieList() {
                   data-testid="input-year"
                   type="number"
                   placeholder="e.g. 1942"
-                  min={1888}
+                  min={FIRST_FILM_YEAR}
                   max={new Date().getFullYear()}
                   value={year}
                   onChange={(e) => setYear(e.target.value)}
@@ -188,13 +281,13 @@ export default function MovieList() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="genre">Genre</Label>
+                <Label htmlFor="genres">Genres</Label>
                 <Input
-                  id="genre"
-                  data-testid="input-genre"
-                  placeholder="e.g. Drama"
-                  value={genre}
-                  onChange={(e) => setGenre(e.target.value)}
+                  id="genres"
+                  data-testid="input-genres"
+                  placeholder="e.g. Drama, Romance"
+                  value={genres}
+                  onChange={(e) => setGenres(e.target.value)}
                   required
                 />
               </div>
@@ -211,7 +304,86 @@ export default function MovieList() {
           </Card>
         )}
 
-        {isLoading ? (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <div className="relative flex-1 min-w-48">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              data-testid="input-search"
+              placeholder="Search titles"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <Select value={sort} onValueChange={(v) => changeSort(v as MovieSortField)}>
+            <SelectTrigger className="w-44" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(sortLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            data-testid="button-toggle-order"
+            aria-label={order === "asc" ? "Ascending" : "Descending"}
+            onClick={() => setOrder(order === "asc" ? "desc" : "asc")}
+          >
+            {order === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+          </Button>
+          <GenreSelect
+            className="w-44"
+            data-testid="select-filter-genre"
+            value={genreFilter}
+            onChange={setGenreFilter}
+          />
+          <Select
+            value={certificationFilter || ANY_CERTIFICATION}
+            onValueChange={(v) => setCertificationFilter(v === ANY_CERTIFICATION ? "" : v)}
+          >
+            <SelectTrigger className="w-36" data-testid="select-filter-certification">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_CERTIFICATION}>Any rating</SelectItem>
+              {movieCertifications.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {c}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1.5">
+            <Input
+              className="w-24"
+              data-testid="input-min-runtime"
+              type="number"
+              min={0}
+              placeholder="Min min"
+              aria-label="Minimum runtime in minutes"
+              value={minRuntime}
+              onChange={(e) => setMinRuntime(e.target.value)}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              className="w-24"
+              data-testid="input-max-runtime"
+              type="number"
+              min={0}
+              placeholder="Max min"
+              aria-label="Maximum runtime in minutes"
+              value={maxRuntime}
+              onChange={(e) => setMaxRuntime(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isLoading || (searching && isSearching && !searchResults) ? (
           <div className="space-y-3">
             {Array.from({ length: 5 }).map((_, i) => (
               <Card key={i} className="p-4 border border-card-border bg-card">
@@ -229,7 +401,7 @@ export default function MovieList() {
             <div className="hidden sm:grid grid-cols-12 gap-4 px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
               <div className="col-span-5">Title</div>
               <div className="col-span-1 text-center">Year</div>
-              <div className="col-span-2 text-center">Genre</div>
+              <div className="col-span-2 text-center">Genres</div>
               <div className="col-span-3 text-center">Rating</div>
               <div className="col-span-1"></div>
             </div>
@@ -240,12 +412,17 @@ export default function MovieList() {
                   className="p-4 border border-card-border bg-card hover-elevate cursor-pointer transition-colors"
                 >
                   <div className="grid grid-cols-12 gap-4 items-center">
-                    <div className="col-span-12 sm:col-span-5">
+                    <div className="col-span-12 sm:col-span-5 flex items-center gap-3">
+                      <Poster movie={movie} size="thumb" className="w-8 shrink-0" />
                       <span
                         className="font-medium text-foreground"
                         data-testid={`text-title-${movie.id}`}
                       >
-                        {movie.title}
+                        {movie.matches ? (
+                          <HighlightedTitle title={movie.title} matches={movie.matches} />
+                        ) : (
+                          movie.title
+                        )}
                       </span>
                     </div>
                     <div className="col-span-4 sm:col-span-1 text-center">
@@ -256,8 +433,10 @@ export default function MovieList() {
                         {movie.year}
                       </span>
                     </div>
-                    <div className="col-span-4 sm:col-span-2 text-center">
-                      <GenreBadge genre={movie.genre} />
+                    <div className="col-span-4 sm:col-span-2 flex flex-wrap justify-center gap-1">
+                      {movie.genres.map((genre) => (
+                        <GenreBadge key={genre.slug} genre={genre} />
+                      ))}
                     </div>
                     <div className="col-span-3 sm:col-span-3 flex justify-center">
                       <RatingDisplay
@@ -273,6 +452,18 @@ export default function MovieList() {
               </Link>
             ))}
           </div>
+        ) : searching || filtered ? (
+          <Card className="p-12 text-center border border-card-border bg-card">
+            <Film className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              No matching movies
+            </h3>
+            <p className="text-sm text-muted-foreground" data-testid="text-no-results">
+              {searching
+                ? `Nothing matches "${debouncedSearch}".`
+                : "No movies match these filters yet."}
+            </p>
+          </Card>
         ) : (
           <Card className="p-12 text-center border border-card-border bg-card">
             <Film className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -293,10 +484,20 @@ export default function MovieList() {
         )}
 
         {movies && movies.length > 0 && (
-          <div className="mt-4 text-center">
+          <div className="mt-4 text-center space-y-3">
+            {!searching && hasNextPage && (
+              <Button
+                variant="outline"
+                data-testid="button-load-more"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            )}
             <p className="text-xs text-muted-foreground">
-              {movies.length} {movies.length === 1 ? "movie" : "movies"} in
-              collection
+              {movies.length} {movies.length === 1 ? "movie" : "movies"}{" "}
+              {searching ? "found" : hasNextPage ? "shown" : "in collection"}
             </p>
           </div>
         )}
@@ -0,0 +1,134 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Star, User } from "lucide-react";
+import type { CreditRole, FilmographyEntry, PersonDetail } from "@shared/schema";
+
+const roleLabels: Record<CreditRole, string> = {
+  director: "Director",
+  writer: "Writer",
+  producer: "Producer",
+  actor: "Actor",
+  composer: "Music",
+  cinematographer: "Cinematography",
+  editor: "Editor",
+};
+
+function describeCredits(entry: FilmographyEntry): string {
+  return entry.credits
+    .map((credit) =>
+      credit.role === "actor" && credit.character ? `as ${credit.character}` : roleLabels[credit.role],
+    )
+    .join(" · ");
+}
+
+export default function Person() {
+  const params = useParams<{ id: string }>();
+  const { data: person, isLoading } = useQuery<PersonDetail>({
+    queryKey: ["/api/people", params.id],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Skeleton className="h-8 w-32 mb-8" />
+          <Skeleton className="h-10 w-2/3 mb-4" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!person) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="p-8 text-center border border-card-border bg-card max-w-sm">
+          <h2 className="text-lg font-semibold mb-2 text-foreground">Person not found</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            The person you're looking for doesn't exist.
+          </p>
+          <Link href="/">
+            <Button data-testid="button-back-home">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to list
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/">
+          <Button variant="ghost" className="mb-6 -ml-2" data-testid="link-back">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to list
+          </Button>
+        </Link>
+
+        <div className="flex items-center gap-3 mb-8">
+          <div className="w-10 h-10 rounded-md bg-primary flex items-center justify-center">
+            <User className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground" data-testid="text-person-name">
+            {person.name}
+          </h1>
+        </div>
+
+        <Card className="p-6 border border-card-border bg-card mb-6">
+          <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-1">
+            Career Average
+          </h2>
+          <div className="flex items-baseline gap-3">
+            <span className="text-4xl font-bold text-foreground" data-testid="text-career-avg">
+              {person.ratedTitles > 0 ? person.careerAvgRating.toFixed(1) : "—"}
+            </span>
+            <Star className="w-6 h-6 text-amber-500 dark:text-amber-400 fill-amber-500 dark:fill-amber-400" />
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            Across {person.ratedTitles} rated {person.ratedTitles === 1 ? "title" : "titles"}, each counted once
+          </p>
+        </Card>
+
+        <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">
+          Filmography
+        </h2>
+        {person.filmography.length > 0 ? (
+          <div className="space-y-2">
+            {person.filmography.map((entry) => (
+              <Link key={entry.movieId} href={`/movies/${entry.movieId}`}>
+                <Card
+                  data-testid={`card-filmography-${entry.movieId}`}
+                  className="p-4 border border-card-border bg-card hover-elevate cursor-pointer"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <span className="font-medium text-foreground">{entry.title}</span>
+                      <span className="text-sm text-muted-foreground ml-2">({entry.year})</span>
+                      <p className="text-xs text-muted-foreground mt-0.5">{describeCredits(entry)}</p>
+                    </div>
+                    <div className="text-right">
+                      <span className="text-sm font-medium text-foreground" data-testid={`text-film-avg-${entry.movieId}`}>
+                        {entry.totalRatings > 0 ? entry.avgRating.toFixed(1) : "—"}
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-1">({entry.totalRatings})</span>
+                    </div>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <Card className="p-8 text-center border border-card-border bg-card">
+            <p className="text-sm text-muted-foreground">No credits yet.</p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
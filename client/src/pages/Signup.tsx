@@ -0,0 +1,7 @@
+import { AuthForm } from "@/components/AuthForm";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function Signup() {
+  const { registerMutation } = useAuth();
+  return <AuthForm mode="signup" mutation={registerMutation} />;
+}
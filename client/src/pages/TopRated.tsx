@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GenreSelect } from "@/components/GenreSelect";
+import { ArrowLeft, Trophy } from "lucide-react";
+import type { TopChartResponse } from "@shared/schema";
+
+const ALL_DECADES = "all";
+
+function decadeOptions(): number[] {
+  const latest = Math.floor(new Date().getFullYear() / 10) * 10;
+  const decades: number[] = [];
+  for (let decade = latest; decade >= 1920; decade -= 10) decades.push(decade);
+  return decades;
+}
+
+export default function TopRated() {
+  const [genre, setGenre] = useState("");
+  const [decade, setDecade] = useState(ALL_DECADES);
+
+  const { data: chart, isLoading } = useQuery<TopChartResponse>({
+    queryKey: ["/api/charts/top", genre, decade],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (genre) params.set("genre", genre);
+      if (decade !== ALL_DECADES) params.set("decade", decade);
+      const res = await apiRequest("GET", `/api/charts/top?${params}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/">
+          <Button variant="ghost" className="mb-6 -ml-2" data-testid="link-back">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to list
+          </Button>
+        </Link>
+
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 rounded-md bg-primary flex items-center justify-center">
+            <Trophy className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground" data-testid="text-page-title">
+            Top Rated
+          </h1>
+        </div>
+        <p className="text-sm text-muted-foreground mb-6">
+          Ranked by weighted score: each average is blended with the overall mean
+          {chart ? ` (${chart.globalMean.toFixed(2)})` : ""} until a movie has enough votes
+          {chart ? ` (at least ${chart.minVotes} to be listed)` : ""}.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <GenreSelect className="w-44" data-testid="select-chart-genre" value={genre} onChange={setGenre} />
+          <Select value={decade} onValueChange={setDecade}>
+            <SelectTrigger className="w-40" data-testid="select-chart-decade">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DECADES}>All decades</SelectItem>
+              {decadeOptions().map((d) => (
+                <SelectItem key={d} value={String(d)}>
+                  {d}s
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : chart && chart.items.length > 0 ? (
+          <div className="space-y-2">
+            <div className="hidden sm:grid grid-cols-12 gap-4 px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              <div className="col-span-1">#</div>
+              <div className="col-span-6">Title</div>
+              <div className="col-span-2 text-center">Weighted</div>
+              <div className="col-span-2 text-center">Average</div>
+              <div className="col-span-1 text-right">Votes</div>
+            </div>
+            {chart.items.map((movie, i) => (
+              <Link key={movie.id} href={`/movies/${movie.id}`}>
+                <Card
+                  data-testid={`card-chart-${movie.id}`}
+                  className="p-4 border border-card-border bg-card hover-elevate cursor-pointer"
+                >
+                  <div className="grid grid-cols-12 gap-4 items-center">
+                    <div className="col-span-1 text-sm font-semibold text-muted-foreground">{i + 1}</div>
+                    <div className="col-span-11 sm:col-span-6">
+                      <span className="font-medium text-foreground">{movie.title}</span>
+                      <span className="text-sm text-muted-foreground ml-2">({movie.year})</span>
+                    </div>
+                    <div className="col-span-4 sm:col-span-2 text-center">
+                      <span
+                        className="text-sm font-semibold text-foreground"
+                        data-testid={`text-weighted-${movie.id}`}
+                      >
+                        {movie.weightedScore.toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="col-span-4 sm:col-span-2 text-center">
+                      <span className="text-sm text-muted-foreground" data-testid={`text-raw-avg-${movie.id}`}>
+                        {movie.avgRating.toFixed(1)}
+                      </span>
+                    </div>
+                    <div className="col-span-4 sm:col-span-1 text-right">
+                      <span className="text-xs text-muted-foreground">{movie.totalRatings}</span>
+                    </div>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <Card className="p-12 text-center border border-card-border bg-card">
+            <Trophy className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No movies have enough ratings for this chart yet.
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
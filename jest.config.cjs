@@ -3,8 +3,10 @@ module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
   roots: ["<rootDir>/__tests__"],
+  testPathIgnorePatterns: ["/node_modules/", "/__tests__/support/"],
   moduleNameMapper: {
     "^@shared/(.*)$": "<rootDir>/shared/$1",
+    "^@/(.*)$": "<rootDir>/client/src/$1",
   },
   transform: {
     "^.+\\.tsx?$": [
@@ -0,0 +1,16 @@
+CREATE TABLE "movies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"year" integer NOT NULL,
+	"genre" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "ratings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"movie_id" integer NOT NULL,
+	"score" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_movie_id_movies_id_fk" FOREIGN KEY ("movie_id") REFERENCES "public"."movies"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,44 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_sum" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_1_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_2_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_3_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_4_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_5_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', "movies"."title")) STORED;--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_movie_user_unique" UNIQUE("movie_id","user_id");--> statement-breakpoint
+CREATE INDEX "movies_search_vector_idx" ON "movies" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "movies_title_trgm_idx" ON "movies" USING gin ("title" gin_trgm_ops);--> statement-breakpoint
+-- Existing ratings have no user and whole-star scores from 1 to 5; count
+-- them into the new aggregates so movies don't start out unrated.
+UPDATE "movies" SET
+  "rating_count" = "totals"."count",
+  "rating_sum" = "totals"."sum",
+  "rating_1_count" = "totals"."ones",
+  "rating_2_count" = "totals"."twos",
+  "rating_3_count" = "totals"."threes",
+  "rating_4_count" = "totals"."fours",
+  "rating_5_count" = "totals"."fives"
+FROM (
+  SELECT "movie_id", count(*) AS "count", sum("score") AS "sum",
+    count(*) FILTER (WHERE "score" = 1) AS "ones",
+    count(*) FILTER (WHERE "score" = 2) AS "twos",
+    count(*) FILTER (WHERE "score" = 3) AS "threes",
+    count(*) FILTER (WHERE "score" = 4) AS "fours",
+    count(*) FILTER (WHERE "score" = 5) AS "fives"
+  FROM "ratings"
+  GROUP BY "movie_id"
+) "totals"
+WHERE "movies"."id" = "totals"."movie_id";
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE "genres" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"color" text NOT NULL,
+	CONSTRAINT "genres_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "movie_genres" (
+	"movie_id" integer NOT NULL,
+	"genre_id" integer NOT NULL,
+	CONSTRAINT "movie_genres_movie_id_genre_id_pk" PRIMARY KEY("movie_id","genre_id")
+);
+--> statement-breakpoint
+ALTER TABLE "movie_genres" ADD CONSTRAINT "movie_genres_movie_id_movies_id_fk" FOREIGN KEY ("movie_id") REFERENCES "public"."movies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "movie_genres" ADD CONSTRAINT "movie_genres_genre_id_genres_id_fk" FOREIGN KEY ("genre_id") REFERENCES "public"."genres"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "movie_genres_genre_id_idx" ON "movie_genres" USING btree ("genre_id");--> statement-breakpoint
+-- Split the free-text movies.genre values ("Crime", "Crime/Drama", "sci fi", ...)
+-- into genres keyed by slug. The separators and slug rules match
+-- GENRE_SEPARATORS and genreSlug() in server/genres.ts.
+CREATE TEMP TABLE "movie_genre_names" ON COMMIT DROP AS
+SELECT "movie_id", "name", CASE "slug"
+    WHEN 'science-fiction' THEN 'sci-fi'
+    WHEN 'scifi' THEN 'sci-fi'
+    ELSE "slug"
+  END AS "slug"
+FROM (
+  SELECT "movies"."id" AS "movie_id", trim("part") AS "name",
+    trim(BOTH '-' FROM regexp_replace(lower(trim("part")), '[^a-z0-9]+', '-', 'g')) AS "slug"
+  FROM "movies", regexp_split_to_table("movies"."genre", '[,;/|]') AS "part"
+) "parts"
+WHERE "slug" <> '';--> statement-breakpoint
+-- Each genre is named after its most common spelling.
+INSERT INTO "genres" ("slug", "name", "color")
+SELECT DISTINCT ON ("slug") "slug", "name", CASE "slug"
+    WHEN 'crime' THEN '#dc2626'
+    WHEN 'drama' THEN '#2563eb'
+    WHEN 'sci-fi' THEN '#9333ea'
+    WHEN 'thriller' THEN '#d97706'
+    WHEN 'musical' THEN '#16a34a'
+    ELSE '#64748b'
+  END
+FROM (
+  SELECT "slug", "name", count(*) AS "uses" FROM "movie_genre_names" GROUP BY "slug", "name"
+) "spellings"
+ORDER BY "slug", "uses" DESC, "name";--> statement-breakpoint
+INSERT INTO "movie_genres" ("movie_id", "genre_id")
+SELECT DISTINCT "movie_genre_names"."movie_id", "genres"."id"
+FROM "movie_genre_names"
+JOIN "genres" ON "genres"."slug" = "movie_genre_names"."slug";--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "genre";
\ No newline at end of file
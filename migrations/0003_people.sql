@@ -0,0 +1,19 @@
+CREATE TABLE "credits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"movie_id" integer NOT NULL,
+	"person_id" integer NOT NULL,
+	"role" text NOT NULL,
+	"character" text,
+	"billing_order" integer,
+	CONSTRAINT "credits_movie_person_role_unique" UNIQUE("movie_id","person_id","role")
+);
+--> statement-breakpoint
+CREATE TABLE "people" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "credits" ADD CONSTRAINT "credits_movie_id_movies_id_fk" FOREIGN KEY ("movie_id") REFERENCES "public"."movies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credits" ADD CONSTRAINT "credits_person_id_people_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."people"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credits_person_id_idx" ON "credits" USING btree ("person_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "movies" ADD COLUMN "runtime_minutes" integer;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "synopsis" text;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "original_language" text;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "country" text;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "certification" text;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "external_ids" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
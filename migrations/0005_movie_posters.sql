@@ -0,0 +1 @@
+ALTER TABLE "movies" ADD COLUMN "poster_key" text;
\ No newline at end of file
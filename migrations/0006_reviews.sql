@@ -0,0 +1,6 @@
+ALTER TABLE "ratings" ADD COLUMN "review" text;--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "spoiler" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "helpful_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "not_helpful_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "ratings_movie_reviewed_at_idx" ON "ratings" USING btree ("movie_id","reviewed_at");
\ No newline at end of file
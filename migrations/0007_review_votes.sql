@@ -0,0 +1,11 @@
+CREATE TABLE "review_votes" (
+	"rating_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"helpful" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "review_votes_rating_id_user_id_pk" PRIMARY KEY("rating_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD COLUMN "helpful_score" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "review_votes" ADD CONSTRAINT "review_votes_rating_id_ratings_id_fk" FOREIGN KEY ("rating_id") REFERENCES "public"."ratings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_votes" ADD CONSTRAINT "review_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "criterion_scores" (
+	"rating_id" integer NOT NULL,
+	"criterion_id" integer NOT NULL,
+	"score" integer NOT NULL,
+	CONSTRAINT "criterion_scores_rating_id_criterion_id_pk" PRIMARY KEY("rating_id","criterion_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rating_criteria" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "rating_criteria_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "criterion_scores" ADD CONSTRAINT "criterion_scores_rating_id_ratings_id_fk" FOREIGN KEY ("rating_id") REFERENCES "public"."ratings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "criterion_scores" ADD CONSTRAINT "criterion_scores_criterion_id_rating_criteria_id_fk" FOREIGN KEY ("criterion_id") REFERENCES "public"."rating_criteria"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "criterion_scores_criterion_id_idx" ON "criterion_scores" USING btree ("criterion_id");--> statement-breakpoint
+-- The criteria the film club scores by default; see rating_criteria in shared/schema.ts.
+INSERT INTO "rating_criteria" ("slug", "name", "position") VALUES
+  ('story', 'Story', 0),
+  ('acting', 'Acting', 1),
+  ('visuals', 'Visuals', 2),
+  ('sound', 'Sound', 3);
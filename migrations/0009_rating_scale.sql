@@ -0,0 +1,24 @@
+CREATE TABLE "settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "criterion_scores" ALTER COLUMN "score" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "movies" ALTER COLUMN "rating_sum" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "ratings" ALTER COLUMN "score" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "rating_histogram" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+-- Carry the five star counts over, leaving out scores nobody gave. Existing
+-- scores are on the default 1-5 scale (no "rating_scale" setting); with
+-- another scale configured the server won't start until `npm run ratings:rescale`.
+UPDATE "movies" SET "rating_histogram" = jsonb_strip_nulls(jsonb_build_object(
+  '1', NULLIF("rating_1_count", 0),
+  '2', NULLIF("rating_2_count", 0),
+  '3', NULLIF("rating_3_count", 0),
+  '4', NULLIF("rating_4_count", 0),
+  '5', NULLIF("rating_5_count", 0)
+));--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "rating_1_count";--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "rating_2_count";--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "rating_3_count";--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "rating_4_count";--> statement-breakpoint
+ALTER TABLE "movies" DROP COLUMN "rating_5_count";
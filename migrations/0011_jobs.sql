@@ -0,0 +1,24 @@
+CREATE TABLE "job_schedules" (
+	"name" text PRIMARY KEY NOT NULL,
+	"cron" text NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"last_run_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"key" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_until" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "jobs_due_idx" ON "jobs" USING btree ("run_at") WHERE "jobs"."status" = 'pending';--> statement-breakpoint
+CREATE INDEX "jobs_status_name_idx" ON "jobs" USING btree ("status","name");--> statement-breakpoint
+CREATE UNIQUE INDEX "jobs_waiting_key_idx" ON "jobs" USING btree ("key") WHERE "jobs"."status" = 'pending' AND "jobs"."attempts" = 0;
\ No newline at end of file
@@ -0,0 +1,13 @@
+DROP INDEX "movies_title_trgm_idx";
+DROP INDEX "movies_search_vector_idx";
+ALTER TABLE "ratings" DROP CONSTRAINT "ratings_movie_user_unique";
+ALTER TABLE "ratings" DROP COLUMN "user_id";
+ALTER TABLE "movies" DROP COLUMN "search_vector";
+ALTER TABLE "movies" DROP COLUMN "rating_5_count";
+ALTER TABLE "movies" DROP COLUMN "rating_4_count";
+ALTER TABLE "movies" DROP COLUMN "rating_3_count";
+ALTER TABLE "movies" DROP COLUMN "rating_2_count";
+ALTER TABLE "movies" DROP COLUMN "rating_1_count";
+ALTER TABLE "movies" DROP COLUMN "rating_sum";
+ALTER TABLE "movies" DROP COLUMN "rating_count";
+DROP TABLE "users";
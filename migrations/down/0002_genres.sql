@@ -0,0 +1,12 @@
+-- Folds each movie's genres back into one free-text value, e.g. "Crime, Drama".
+ALTER TABLE "movies" ADD COLUMN "genre" text;
+UPDATE "movies" SET "genre" = (
+  SELECT string_agg("genres"."name", ', ' ORDER BY "genres"."name")
+  FROM "movie_genres"
+  JOIN "genres" ON "genres"."id" = "movie_genres"."genre_id"
+  WHERE "movie_genres"."movie_id" = "movies"."id"
+);
+UPDATE "movies" SET "genre" = 'Unknown' WHERE "genre" IS NULL;
+ALTER TABLE "movies" ALTER COLUMN "genre" SET NOT NULL;
+DROP TABLE "movie_genres";
+DROP TABLE "genres";
@@ -0,0 +1,6 @@
+ALTER TABLE "movies" DROP COLUMN "external_ids";
+ALTER TABLE "movies" DROP COLUMN "certification";
+ALTER TABLE "movies" DROP COLUMN "country";
+ALTER TABLE "movies" DROP COLUMN "original_language";
+ALTER TABLE "movies" DROP COLUMN "synopsis";
+ALTER TABLE "movies" DROP COLUMN "runtime_minutes";
@@ -0,0 +1,6 @@
+DROP INDEX "ratings_movie_reviewed_at_idx";
+ALTER TABLE "ratings" DROP COLUMN "not_helpful_count";
+ALTER TABLE "ratings" DROP COLUMN "helpful_count";
+ALTER TABLE "ratings" DROP COLUMN "reviewed_at";
+ALTER TABLE "ratings" DROP COLUMN "spoiler";
+ALTER TABLE "ratings" DROP COLUMN "review";
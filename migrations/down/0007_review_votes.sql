@@ -0,0 +1,2 @@
+DROP TABLE "review_votes";
+ALTER TABLE "ratings" DROP COLUMN "helpful_score";
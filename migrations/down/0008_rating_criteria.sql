@@ -0,0 +1,2 @@
+DROP TABLE "criterion_scores";
+DROP TABLE "rating_criteria";
@@ -0,0 +1,18 @@
+-- Only exact for data on the default 1-5 scale: run `npm run ratings:rescale`
+-- with the default scale configured first.
+ALTER TABLE "movies" ADD COLUMN "rating_1_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "movies" ADD COLUMN "rating_2_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "movies" ADD COLUMN "rating_3_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "movies" ADD COLUMN "rating_4_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "movies" ADD COLUMN "rating_5_count" integer DEFAULT 0 NOT NULL;
+UPDATE "movies" SET
+  "rating_1_count" = COALESCE(("rating_histogram" ->> '1')::int, 0),
+  "rating_2_count" = COALESCE(("rating_histogram" ->> '2')::int, 0),
+  "rating_3_count" = COALESCE(("rating_histogram" ->> '3')::int, 0),
+  "rating_4_count" = COALESCE(("rating_histogram" ->> '4')::int, 0),
+  "rating_5_count" = COALESCE(("rating_histogram" ->> '5')::int, 0);
+ALTER TABLE "movies" DROP COLUMN "rating_histogram";
+ALTER TABLE "ratings" ALTER COLUMN "score" SET DATA TYPE integer USING ROUND("score");
+ALTER TABLE "movies" ALTER COLUMN "rating_sum" SET DATA TYPE integer USING ROUND("rating_sum");
+ALTER TABLE "criterion_scores" ALTER COLUMN "score" SET DATA TYPE integer USING ROUND("score");
+DROP TABLE "settings";
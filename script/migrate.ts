@@ -0,0 +1,73 @@
+import { getPool } from "../server/db";
+import {
+  baselineMigrations,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  migrationStatus,
+  type Migration,
+} from "../server/migrate";
+
+// npm run migrate [status]        — list applied and pending migrations
+// npm run migrate up              — apply every pending migration
+// npm run migrate down [steps]    — roll back the last `steps` migrations (default 1)
+// npm run migrate baseline <ver>  — mark migrations up to <ver> as applied without running them
+
+function parseCount(raw: string | undefined, name: string): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return n;
+}
+
+function listTags(verb: string, migrations: Migration[]) {
+  if (migrations.length === 0) {
+    console.log(`Nothing to ${verb}.`);
+    return;
+  }
+  for (const migration of migrations) console.log(`${verb}: ${migration.tag}`);
+}
+
+async function main() {
+  const [command = "status", arg] = process.argv.slice(2);
+  const pool = getPool();
+  const migrations = await loadMigrations();
+
+  try {
+    switch (command) {
+      case "status": {
+        const status = await migrationStatus(pool, migrations);
+        for (const m of status.applied) {
+          const note = m.modified ? "  (file changed since it was applied)" : "";
+          console.log(`[x] ${m.tag}  applied ${m.appliedAt.toISOString()}${note}`);
+        }
+        for (const m of status.pending) console.log(`[ ] ${m.tag}  pending`);
+        for (const m of status.unknown) console.log(`[?] ${m.tag}  applied, but not in this build`);
+        break;
+      }
+      case "up":
+        listTags("apply", await migrateUp(pool, migrations));
+        break;
+      case "down":
+        listTags("revert", await migrateDown(pool, migrations, parseCount(arg, "steps") ?? 1));
+        break;
+      case "baseline": {
+        const version = parseCount(arg, "version");
+        if (version === undefined) throw new Error("Usage: npm run migrate baseline <version>");
+        listTags("baseline", await baselineMigrations(pool, migrations, version));
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}" (expected status, up, down or baseline)`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { createStorage, type RatingAggregateDrift } from "../server/storage";
+import { getPool } from "../server/db";
+
+// Rebuilds the denormalized rating aggregates on `movies` (rating_count,
+// rating_sum, rating_histogram) from the `ratings` table and reports any movie
+// whose stored values had drifted. With --dry-run nothing is written and the
+// command exits non-zero when drift is found, so it can be used as a check.
+function describeHistogram(histogram: Record<string, number>): string {
+  const scores = Object.keys(histogram).sort((a, b) => Number(a) - Number(b));
+  return `{${scores.map((score) => `${score}: ${histogram[score]}`).join(", ")}}`;
+}
+
+function describeDrift({ movieId, title, stored, actual }: RatingAggregateDrift): string {
+  return [
+    `#${movieId} ${title}`,
+    `  count:     ${stored.count} -> ${actual.count}`,
+    `  sum:       ${stored.sum} -> ${actual.sum}`,
+    `  histogram: ${describeHistogram(stored.histogram)} -> ${describeHistogram(actual.histogram)}`,
+  ].join("\n");
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const storage = createStorage();
+
+  try {
+    const drifts = await storage.recomputeRatingAggregates({ dryRun });
+    if (drifts.length === 0) {
+      console.log("Rating aggregates are up to date.");
+      return;
+    }
+
+    console.log(drifts.map(describeDrift).join("\n"));
+    console.log(
+      dryRun
+        ? `${drifts.length} movie(s) have drifted aggregates (dry run, nothing changed).`
+        : `Recomputed aggregates for ${drifts.length} movie(s).`,
+    );
+    if (dryRun) process.exitCode = 1;
+  } finally {
+    if (process.env.DATABASE_URL) await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import { createStorage, DatabaseStorage } from "../server/storage";
+import { getPool } from "../server/db";
+import { prepareSchema } from "../server/migrate";
+import { describeScale, ensureRatingScale, ratingScale } from "../server/scale";
+
+// Moves every stored rating and criterion score onto the scale configured by
+// RATING_SCALE_MIN, RATING_SCALE_MAX and RATING_SCALE_STEP (see
+// server/scale.ts) and rebuilds the movie aggregates. The server only checks
+// the scale at startup and won't start until this has been run.
+async function main() {
+  const storage = createStorage();
+  if (!(storage instanceof DatabaseStorage)) {
+    throw new Error("The memory driver starts empty on every boot; there is nothing to rescale");
+  }
+
+  try {
+    await prepareSchema(getPool(), { autoMigrate: false });
+    const configured = ratingScale();
+    const result = await ensureRatingScale(storage, { rescale: true }, configured);
+    if (!result) {
+      console.log(`Ratings are already on ${describeScale(configured)}.`);
+      return;
+    }
+    console.log(
+      `Rescaled ${result.ratings} rating(s) and ${result.criterionScores} criterion score(s) from ${describeScale(result.from)} to ${describeScale(result.to)}.`,
+    );
+  } finally {
+    await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+import { getPool } from "../server/db";
+import { loadFixtures, readFixtureSet, type FixtureMode } from "../server/fixtures";
+import { prepareSchema } from "../server/migrate";
+import { DatabaseStorage, createStorage } from "../server/storage";
+
+// npm run seed [set] [--reset | --append]
+//
+// Loads a fixture set from fixtures/<set>/ (default "demo") into the
+// database. Without a flag it only seeds an empty database.
+function parseArgs(args: string[]): { set: string; mode: FixtureMode } {
+  const flags = args.filter((a) => a.startsWith("--"));
+  const positional = args.filter((a) => !a.startsWith("--"));
+
+  const unknown = flags.find((f) => f !== "--reset" && f !== "--append");
+  if (unknown) throw new Error(`Unknown option ${unknown}`);
+  if (flags.includes("--reset") && flags.includes("--append")) {
+    throw new Error("Pass at most one of --reset and --append");
+  }
+  if (positional.length > 1) throw new Error("Usage: npm run seed [set] [--reset | --append]");
+
+  const mode = flags.includes("--reset") ? "reset" : flags.includes("--append") ? "append" : "empty";
+  return { set: positional[0] ?? "demo", mode };
+}
+
+async function main() {
+  const { set, mode } = parseArgs(process.argv.slice(2));
+  const storage = createStorage();
+  if (!(storage instanceof DatabaseStorage)) {
+    throw new Error("The memory driver starts empty on every boot; set MEMORY_FIXTURES instead");
+  }
+
+  try {
+    await prepareSchema(getPool(), { autoMigrate: false });
+    const fixtures = await readFixtureSet(set);
+    const summary = await loadFixtures(storage, fixtures, mode);
+    console.log(
+      `Loaded fixture set "${set}": ${summary.movies} movie(s), ${summary.genres} genre(s), ${summary.criteria} criteria, ${summary.ratings} rating(s), ${summary.users} user(s), ${summary.people} people, ${summary.credits} credit(s).`,
+    );
+  } finally {
+    await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
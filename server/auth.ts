@@ -0,0 +1,177 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { insertUserSchema, type PublicUser, type User } from "@shared/schema";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { getPool } from "./db";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toPublicUser({ password: _password, ...user }: User): PublicUser {
+  return user;
+}
+
+// Sessions live next to the rest of the data: in Postgres when the storage
+// driver is, in process memory otherwise.
+function createSessionStore(storage: IStorage): session.Store {
+  if (storage instanceof DatabaseStorage) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({ pool: getPool(), createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is required in production");
+  }
+  return "movie-rater-dev-secret";
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not logged in" });
+  }
+  next();
+};
+
+/** Usernames allowed into the /api/admin routes, from comma-separated ADMIN_USERNAMES. */
+export function adminUsernames(): string[] {
+  return (process.env.ADMIN_USERNAMES ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not logged in" });
+  }
+  if (!adminUsernames().includes(req.user.username)) {
+    return res.status(403).json({ error: "Admins only" });
+  }
+  next();
+};
+
+export function setupAuth(app: Express, storage: IStorage) {
+  // A Passport instance per app (rather than the module singleton) keeps the
+  // strategy and (de)serializers bound to this app's storage.
+  const authenticator = new passport.Passport();
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(storage),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 30 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  app.use(authenticator.initialize());
+  app.use(authenticator.session());
+
+  authenticator.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  authenticator.serializeUser((user, done) => done(null, user.id));
+  authenticator.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const parsed = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(parsed.username)) {
+        return res.status(409).json({ error: "Username taken" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed,
+        password: await hashPassword(parsed.password),
+      });
+      const publicUser = toPublicUser(user);
+
+      req.login(publicUser, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser);
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    authenticator.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return res.status(500).json({ error: "Failed to log in" });
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,22 @@
+// Bayesian ("IMDb style") weighted rating: a movie's average is pulled
+// towards the global mean until it has enough votes to stand on its own.
+//
+//   weighted = v / (v + m) * R + m / (v + m) * C
+//
+// where R is the movie's mean score, v its vote count, m the minimum vote
+// count and C the mean score across all ratings.
+
+export const DEFAULT_CHART_MIN_VOTES = 2;
+
+export function chartMinVotes(): number {
+  const configured = Number(process.env.CHART_MIN_VOTES);
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_CHART_MIN_VOTES;
+}
+
+export function bayesianScore(mean: number, votes: number, minVotes: number, prior: number): number {
+  return (votes / (votes + minVotes)) * mean + (minVotes / (votes + minVotes)) * prior;
+}
+
+export function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
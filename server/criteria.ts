@@ -0,0 +1,55 @@
+import type { CriterionAverage, CriterionScores, RatingCriterion } from "@shared/schema";
+import { slugify } from "./genres";
+
+// Rating criteria are the dimensions a rating can score next to its overall
+// score (story, acting, ...). Like genres they are identified by slug, so a
+// score can name its criterion as "Story" or "story". Migration 0008 seeds
+// the default set.
+
+export class UnknownCriterionError extends Error {
+  constructor(name: string) {
+    super(`Unknown rating criterion "${name}"`);
+    this.name = "UnknownCriterionError";
+  }
+}
+
+export function criterionSlug(name: string): string {
+  return slugify(name);
+}
+
+/** Position order, then name, as listed everywhere. */
+export function compareCriteria(a: RatingCriterion, b: RatingCriterion): number {
+  return a.position - b.position || a.name.localeCompare(b.name);
+}
+
+/**
+ * Maps each score onto its criterion's id. Throws UnknownCriterionError for
+ * a name that matches none of `criteria`, so nothing is written for a
+ * partly valid set.
+ */
+export function resolveCriterionScores(
+  scores: CriterionScores,
+  criteria: RatingCriterion[],
+): { criterionId: number; score: number }[] {
+  return Object.entries(scores).map(([name, score]) => {
+    const criterion = criteria.find((c) => c.slug === criterionSlug(name));
+    if (!criterion) throw new UnknownCriterionError(name);
+    return { criterionId: criterion.id, score };
+  });
+}
+
+/** Every criterion with the mean of its scores, rounded to one decimal like avgRating. */
+export function toCriterionAverages(
+  criteria: RatingCriterion[],
+  totals: { criterionId: number; sum: number; count: number }[],
+): CriterionAverage[] {
+  return [...criteria].sort(compareCriteria).map((criterion) => {
+    const total = totals.find((t) => t.criterionId === criterion.id);
+    const count = total?.count ?? 0;
+    return {
+      ...criterion,
+      avgScore: count === 0 ? 0 : Math.round((total!.sum / count) * 10) / 10,
+      totalScores: count,
+    };
+  });
+}
@@ -0,0 +1,122 @@
+// Five-field cron expressions for scheduled jobs, evaluated in UTC:
+//
+//   minute hour day-of-month month day-of-week
+//
+// Each field takes *, a number, a range (1-5), a step (*/15 or 0-30/10) or a
+// comma-separated list of those. Day of week runs 0-6 from Sunday, and 7 is
+// Sunday too. As in classic cron, when both day fields are restricted a time
+// matches if either of them does.
+
+export class InvalidCronError extends Error {
+  constructor(cron: string, message: string) {
+    super(`Invalid cron expression "${cron}": ${message}`);
+    this.name = "InvalidCronError";
+  }
+}
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were `*`, which decides how they combine. */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+const fieldRanges: [name: string, min: number, max: number][] = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day of month", 1, 31],
+  ["month", 1, 12],
+  ["day of week", 0, 7],
+];
+
+// The longest it can take for a valid expression to come round: leap days
+// are up to 8 years apart (2096 to 2104).
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(cron: string, field: string, [name, min, max]: (typeof fieldRanges)[number]): Set<number> {
+  const values = new Set<number>();
+  const number = (text: string) => {
+    if (!/^\d+$/.test(text)) throw new InvalidCronError(cron, `bad ${name} "${field}"`);
+    const value = Number(text);
+    if (value < min || value > max) throw new InvalidCronError(cron, `${name} ${value} is outside ${min}-${max}`);
+    return value;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    if (rest.length > 0) throw new InvalidCronError(cron, `bad ${name} "${field}"`);
+    const step = stepText === undefined ? 1 : number(stepText);
+    if (step === 0) throw new InvalidCronError(cron, `${name} step can't be 0`);
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [min, max];
+    } else if (range.includes("-")) {
+      const [start, end, ...more] = range.split("-");
+      if (more.length > 0) throw new InvalidCronError(cron, `bad ${name} "${field}"`);
+      [from, to] = [number(start), number(end)];
+      if (from > to) throw new InvalidCronError(cron, `${name} range ${range} is backwards`);
+    } else {
+      from = number(range);
+      to = stepText === undefined ? from : max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(cron: string): CronSchedule {
+  const fields = cron.trim().split(/\s+/);
+  if (fields.length !== 5) throw new InvalidCronError(cron, "expected 5 fields");
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(cron, field, fieldRanges[i]),
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const byMonthDay = schedule.daysOfMonth.has(date.getUTCDate());
+  const byWeekDay = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return byMonthDay && byWeekDay;
+  return byMonthDay || byWeekDay;
+}
+
+/** The first time after `after` (to the minute) that `cron` matches. */
+export function nextCronRun(cron: string, after: Date): Date {
+  const schedule = parseCron(cron);
+  const next = new Date(after);
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skips a whole month, day or hour whenever it can't match.
+  while (next.getTime() - after.getTime() <= SEARCH_LIMIT_MS) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+  throw new InvalidCronError(cron, "it never matches");
+}
@@ -0,0 +1,29 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+
+export type Database = NodePgDatabase & { $client: pg.Pool };
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+let pool: pg.Pool | undefined;
+let db: Database | undefined;
+
+// The pool is only created on first use so that importing the server
+// modules doesn't require DATABASE_URL (e.g. with STORAGE_DRIVER=memory).
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is required");
+    }
+    pool = new pg.Pool({
+      connectionString: process.env.DATABASE_URL,
+    });
+  }
+  return pool;
+}
+
+export function getDb(): Database {
+  if (!db) {
+    db = drizzle(getPool());
+  }
+  return db;
+}
@@ -0,0 +1,157 @@
+import { sql } from "drizzle-orm";
+import type pg from "pg";
+import type { RatingResult, RatingStats } from "@shared/schema";
+import type { Database, Transaction } from "./db";
+
+// Storage publishes a DomainEvent for every change other instances may need
+// to hear about. The server runs several processes on one port (reusePort),
+// so with Postgres events travel through NOTIFY on the "domain_events"
+// channel and every process, the publishing one included, receives them on
+// its LISTEN connection. NOTIFY inside a transaction is only delivered once
+// it commits, so listeners never hear of a change that was rolled back.
+// MemStorage can only ever have one process, so it delivers in-process.
+//
+// NOTIFY payloads are capped at 8000 bytes, which a movie's synopsis alone
+// can exceed, so movie events carry just the id and listeners read the rest.
+
+export const EVENT_CHANNEL = "domain_events";
+
+export type DomainEvent =
+  | { type: "movie.created"; movieId: number }
+  | { type: "movie.updated"; movieId: number }
+  | { type: "movie.deleted"; movieId: number }
+  | ({ type: "rating.created"; movieId: number; userId: number | null; score: number } & RatingResult)
+  | ({ type: "rating.deleted"; movieId: number; userId: number; score: number } & RatingStats);
+
+export type EventListener = (event: DomainEvent) => void;
+
+export interface EventBus {
+  /**
+   * Calls `listener` with every event from now on, resolving once events
+   * are being received. Returns a function that unsubscribes it again.
+   */
+  subscribe(listener: EventListener): Promise<() => void>;
+  /** Stops receiving events and drops every listener. */
+  close(): Promise<void>;
+}
+
+/** Queues `event` on the transaction (or statement) `db` is running. */
+export async function notify(db: Database | Transaction, event: DomainEvent): Promise<void> {
+  await db.execute(sql`SELECT pg_notify(${EVENT_CHANNEL}, ${JSON.stringify(event)})`);
+}
+
+/** Hands each event to every listener, so one that throws can't starve the rest. */
+function dispatch(listeners: Set<EventListener>, event: DomainEvent) {
+  Array.from(listeners).forEach((listener) => {
+    try {
+      listener(event);
+    } catch {
+      // A listener's failure is its own; the event still reaches the others.
+    }
+  });
+}
+
+export class LocalEventBus implements EventBus {
+  private listeners = new Set<EventListener>();
+
+  publish(event: DomainEvent) {
+    dispatch(this.listeners, event);
+  }
+
+  async subscribe(listener: EventListener): Promise<() => void> {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+  }
+}
+
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+
+/**
+ * Receives NOTIFY events on a pool connection it holds for as long as
+ * anyone is subscribed. The connection is only taken on the first
+ * subscribe, so scripts that never listen don't hold one. A dropped
+ * connection is retried with backoff; events sent while it is down are
+ * lost.
+ */
+export class PgEventBus implements EventBus {
+  private listeners = new Set<EventListener>();
+  private client: pg.PoolClient | undefined;
+  private connecting: Promise<void> | undefined;
+  private retry: ReturnType<typeof setTimeout> | undefined;
+  private retryMs = RETRY_MIN_MS;
+  private closed = false;
+
+  constructor(private pool: pg.Pool) {}
+
+  async subscribe(listener: EventListener): Promise<() => void> {
+    if (this.closed) throw new Error("Event bus is closed");
+    this.listeners.add(listener);
+    try {
+      await (this.connecting ??= this.listen());
+    } catch (err) {
+      this.listeners.delete(listener);
+      this.connecting = undefined;
+      throw err;
+    }
+    return () => this.listeners.delete(listener);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.listeners.clear();
+    clearTimeout(this.retry);
+    await this.connecting?.catch(() => undefined);
+    // Destroyed rather than returned, so the pool never hands out a
+    // connection that is still listening.
+    this.client?.release(true);
+    this.client = undefined;
+  }
+
+  private async listen(): Promise<void> {
+    const client = await this.pool.connect();
+    client.on("notification", ({ channel, payload }) => {
+      if (channel !== EVENT_CHANNEL || !payload) return;
+      let event: DomainEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        return;
+      }
+      dispatch(this.listeners, event);
+    });
+    client.on("error", (err) => this.dropped(client, err));
+
+    try {
+      await client.query(`LISTEN ${EVENT_CHANNEL}`);
+    } catch (err) {
+      client.release(err as Error);
+      throw err;
+    }
+    if (this.closed) {
+      client.release(true);
+      return;
+    }
+    this.client = client;
+    this.retryMs = RETRY_MIN_MS;
+  }
+
+  private dropped(client: pg.PoolClient, err: Error) {
+    if (this.client !== client) return;
+    this.client = undefined;
+    client.release(err);
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    if (this.closed) return;
+    this.retry = setTimeout(() => {
+      this.connecting = this.listen().catch(() => this.scheduleRetry());
+    }, this.retryMs);
+    this.retryMs = Math.min(this.retryMs * 2, RETRY_MAX_MS);
+  }
+}
@@ -0,0 +1,298 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+  DEFAULT_RATING_SCALE,
+  FIRST_FILM_YEAR,
+  insertCriterionSchema,
+  insertGenreSchema,
+  insertMovieSchema,
+  insertUserSchema,
+  isValidYear,
+  movieCreditSchema,
+  reviewInputSchema,
+} from "@shared/schema";
+import { hashPassword } from "./auth";
+import { criterionSlug } from "./criteria";
+import { genreSlug } from "./genres";
+import { isOnScale, ratingScale, rescaleScore } from "./scale";
+import type { IStorage } from "./storage";
+
+// A fixture set is a directory under fixtures/ holding any number of .json,
+// .yaml or .yml files, merged in filename order. Movies are identified by
+// title + year and users by username, so ratings can refer to either without
+// knowing database ids. Genres listed under `genres` set the name and badge
+// color; movies may also name genres that aren't listed, which get a default
+// color. Credits name people, who are created as needed and matched by name
+// (an existing person with the same name is reused when appending). Rating
+// criteria listed under `criteria` are saved by slug like genres, and a
+// rating's `criteria` scores them by name. Scores are written on the default
+// 1-5 scale whatever the configured one, and rescaled onto the store's scale
+// as they are loaded; a store without scores is first put on the configured
+// scale.
+
+const movieKeySchema = z.object({ title: z.string(), year: z.number().int() });
+
+const fixtureScoreSchema = z
+  .number()
+  .refine((score) => isOnScale(score, DEFAULT_RATING_SCALE), { message: "Scores are whole stars from 1 to 5" });
+
+const fixtureFileSchema = z
+  .object({
+    users: z.array(insertUserSchema).default([]),
+    genres: z.array(insertGenreSchema).default([]),
+    criteria: z.array(insertCriterionSchema).default([]),
+    movies: z.array(insertMovieSchema).default([]),
+    ratings: z
+      .array(
+        z.object({
+          movie: movieKeySchema,
+          score: fixtureScoreSchema,
+          user: z.string().optional(),
+          ...reviewInputSchema.shape,
+          criteria: z.record(z.string().trim().min(1), fixtureScoreSchema).optional(),
+        }),
+      )
+      .default([]),
+    credits: z
+      .array(
+        movieCreditSchema.omit({ personId: true }).extend({
+          movie: movieKeySchema,
+          person: z.string().trim().min(1).max(200),
+        }),
+      )
+      .default([]),
+  })
+  .strict();
+
+export type Fixtures = z.infer<typeof fixtureFileSchema>;
+
+export type FixtureMode = "empty" | "reset" | "append";
+
+export type FixtureSummary = {
+  users: number;
+  genres: number;
+  criteria: number;
+  movies: number;
+  ratings: number;
+  people: number;
+  credits: number;
+};
+
+export class FixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureError";
+  }
+}
+
+const FIXTURE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export function defaultFixturesDir(): string {
+  return path.resolve(process.env.FIXTURES_DIR || "fixtures");
+}
+
+function movieKey({ title, year }: { title: string; year: number }): string {
+  return `${title} (${year})`;
+}
+
+function parseFixtureFile(file: string, contents: string): Fixtures {
+  let raw: unknown;
+  try {
+    raw = file.endsWith(".json") ? JSON.parse(contents) : parseYaml(contents);
+  } catch (err) {
+    throw new FixtureError(`${file}: ${(err as Error).message}`);
+  }
+
+  const parsed = fixtureFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new FixtureError(`${file}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/** Reads and merges every file of the named set, checking natural keys and references. */
+export async function readFixtureSet(name: string, dir: string = defaultFixturesDir()): Promise<Fixtures> {
+  const setDir = path.join(dir, name);
+  let files: string[];
+  try {
+    files = (await readdir(setDir)).filter((f) => FIXTURE_EXTENSIONS.includes(path.extname(f))).sort();
+  } catch {
+    throw new FixtureError(`Unknown fixture set "${name}" (no directory ${setDir})`);
+  }
+  if (files.length === 0) {
+    throw new FixtureError(`Fixture set "${name}" has no .json, .yaml or .yml files`);
+  }
+
+  const merged: Fixtures = { users: [], genres: [], criteria: [], movies: [], ratings: [], credits: [] };
+  for (const file of files) {
+    const fixtures = parseFixtureFile(file, await readFile(path.join(setDir, file), "utf-8"));
+    merged.users.push(...fixtures.users);
+    merged.genres.push(...fixtures.genres);
+    merged.criteria.push(...fixtures.criteria);
+    merged.movies.push(...fixtures.movies);
+    merged.ratings.push(...fixtures.ratings);
+    merged.credits.push(...fixtures.credits);
+  }
+
+  checkFixtures(merged);
+  return merged;
+}
+
+/**
+ * Checks what the file schema can't: natural keys are unique, movie years
+ * follow the year rule and ratings and credits refer to listed movies and
+ * users. Throws FixtureError on the first problem.
+ */
+export function checkFixtures(fixtures: Fixtures): void {
+  const usernames = new Set<string>();
+  for (const user of fixtures.users) {
+    if (usernames.has(user.username)) throw new FixtureError(`Duplicate user "${user.username}"`);
+    usernames.add(user.username);
+  }
+  const genreSlugs = new Set<string>();
+  for (const genre of fixtures.genres) {
+    const slug = genreSlug(genre.name);
+    if (genreSlugs.has(slug)) throw new FixtureError(`Duplicate genre "${genre.name}"`);
+    genreSlugs.add(slug);
+  }
+  const criterionSlugs = new Set<string>();
+  for (const criterion of fixtures.criteria) {
+    const slug = criterionSlug(criterion.name);
+    if (criterionSlugs.has(slug)) throw new FixtureError(`Duplicate criterion "${criterion.name}"`);
+    criterionSlugs.add(slug);
+  }
+  const movieKeys = new Set<string>();
+  for (const movie of fixtures.movies) {
+    const key = movieKey(movie);
+    if (movieKeys.has(key)) throw new FixtureError(`Duplicate movie "${key}"`);
+    if (!isValidYear(movie.year)) {
+      throw new FixtureError(`Movie "${key}": year must be from ${FIRST_FILM_YEAR} to ${new Date().getFullYear()}`);
+    }
+    movieKeys.add(key);
+  }
+  for (const rating of fixtures.ratings) {
+    if (!movieKeys.has(movieKey(rating.movie))) {
+      throw new FixtureError(`Rating refers to unknown movie "${movieKey(rating.movie)}"`);
+    }
+    if (rating.user !== undefined && !usernames.has(rating.user)) {
+      throw new FixtureError(`Rating refers to unknown user "${rating.user}"`);
+    }
+  }
+  const creditKeys = new Set<string>();
+  for (const credit of fixtures.credits) {
+    if (!movieKeys.has(movieKey(credit.movie))) {
+      throw new FixtureError(`Credit refers to unknown movie "${movieKey(credit.movie)}"`);
+    }
+    const key = `${movieKey(credit.movie)}/${credit.person}/${credit.role}`;
+    if (creditKeys.has(key)) {
+      throw new FixtureError(`Duplicate credit: ${credit.person} as ${credit.role} on "${movieKey(credit.movie)}"`);
+    }
+    creditKeys.add(key);
+  }
+}
+
+/**
+ * Writes fixtures through the storage API. The whole set is checked before
+ * anything is written, so fixtures that can't load leave the store as it
+ * was; only a storage failure part way can leave it half loaded.
+ *
+ * - `empty` (default) refuses to touch a store that already has movies.
+ * - `reset` clears every user, movie, genre, criterion, person and rating first.
+ * - `append` keeps existing data and reuses movies, users and people whose
+ *   natural key already exists; listed genres and criteria are updated, and ratings are
+ *   always added (a user's rating replaces their existing one). Credits on
+ *   movies that already existed are skipped.
+ */
+export async function loadFixtures(
+  storage: IStorage,
+  fixtures: Fixtures,
+  mode: FixtureMode = "empty",
+): Promise<FixtureSummary> {
+  checkFixtures(fixtures);
+  if (mode === "empty" && (await storage.getAllMovies()).length > 0) {
+    throw new FixtureError("The store already has movies; pass --reset or --append");
+  }
+  // Ratings may score criteria listed in the set or, unless it is reset, already saved.
+  const criterionSlugs = new Set(fixtures.criteria.map((c) => criterionSlug(c.name)));
+  if (mode !== "reset") (await storage.listCriteria()).forEach((c) => criterionSlugs.add(c.slug));
+  for (const rating of fixtures.ratings) {
+    const unknown = Object.keys(rating.criteria ?? {}).find((name) => !criterionSlugs.has(criterionSlug(name)));
+    if (unknown !== undefined) throw new FixtureError(`Rating refers to unknown criterion "${unknown}"`);
+  }
+
+  if (mode === "reset") {
+    await storage.clearData();
+  }
+  const existingMovies = await storage.getAllMovies();
+
+  const summary: FixtureSummary = { users: 0, genres: 0, criteria: 0, movies: 0, ratings: 0, people: 0, credits: 0 };
+
+  const userIds = new Map<string, number>();
+  for (const user of fixtures.users) {
+    const existing = await storage.getUserByUsername(user.username);
+    if (existing) {
+      userIds.set(user.username, existing.id);
+      continue;
+    }
+    const created = await storage.createUser({ ...user, password: await hashPassword(user.password) });
+    userIds.set(user.username, created.id);
+    summary.users++;
+  }
+
+  for (const genre of fixtures.genres) {
+    await storage.saveGenre(genre);
+    summary.genres++;
+  }
+
+  for (const criterion of fixtures.criteria) {
+    await storage.saveCriterion(criterion);
+    summary.criteria++;
+  }
+
+  const movieIds = new Map(existingMovies.map((m) => [movieKey(m), m.id] as const));
+  const newMovies = new Set<string>();
+  for (const movie of fixtures.movies) {
+    if (movieIds.has(movieKey(movie))) continue;
+    const created = await storage.addMovie(movie);
+    movieIds.set(movieKey(movie), created.id);
+    newMovies.add(movieKey(movie));
+    summary.movies++;
+  }
+
+  // A store without scores takes the configured scale; one with scores keeps its own.
+  await storage.adoptRatingScale(ratingScale());
+  const scale = await storage.getRatingScale();
+  const rescale = (score: number) => rescaleScore(score, DEFAULT_RATING_SCALE, scale);
+  for (const rating of fixtures.ratings) {
+    const userId = rating.user === undefined ? undefined : userIds.get(rating.user);
+    const criteria =
+      rating.criteria &&
+      Object.fromEntries(Object.entries(rating.criteria).map(([name, score]) => [name, rescale(score)]));
+    await storage.addRating(movieIds.get(movieKey(rating.movie))!, rescale(rating.score), userId, {
+      review: rating.review,
+      spoiler: rating.spoiler,
+      criteria,
+    });
+    summary.ratings++;
+  }
+
+  const personIds = new Map<string, number>();
+  for (const { movie, person: name, ...credit } of fixtures.credits) {
+    if (!newMovies.has(movieKey(movie))) continue;
+
+    let personId = personIds.get(name);
+    if (personId === undefined) {
+      const existing = (await storage.listPeople({ q: name, limit: 100 })).find((p) => p.name === name);
+      personId = existing?.id ?? (await storage.createPerson({ name })).id;
+      personIds.set(name, personId);
+      if (!existing) summary.people++;
+    }
+    await storage.addCredit({ ...credit, movieId: movieIds.get(movieKey(movie))!, personId });
+    summary.credits++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,46 @@
+// Genre slugs: lowercase ASCII words joined by "-", so "Sci-Fi" and "sci fi"
+// both become "sci-fi". A few common spellings are folded into one slug on
+// top of that. Migration 0002 applies the same rules, and GENRE_SEPARATORS,
+// in SQL when splitting the old free-text movies.genre column; keep the two
+// in step.
+
+const SLUG_ALIASES: Record<string, string> = {
+  "science-fiction": "sci-fi",
+  scifi: "sci-fi",
+};
+
+/** Lowercase ASCII words joined by "-", without the genre aliases. */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function genreSlug(name: string): string {
+  const slug = slugify(name);
+  return SLUG_ALIASES[slug] ?? slug;
+}
+
+/** What separates genre names in free text; "&" doesn't, so "Rock & Roll" is one genre. */
+export const GENRE_SEPARATORS = /[,;/|]/;
+
+/** The genre names in free text such as "Crime/Drama" or a CSV import cell. */
+export function splitGenres(text: string): string[] {
+  return text
+    .split(GENRE_SEPARATORS)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+// Badge colors for genres created on the fly (from a new movie's genre list);
+// fixtures and the migration set their own.
+const GENRE_PALETTE = ["#dc2626", "#2563eb", "#9333ea", "#d97706", "#16a34a", "#0891b2", "#db2777", "#4f46e5"];
+
+export function defaultGenreColor(slug: string): string {
+  let hash = 0;
+  for (let i = 0; i < slug.length; i++) {
+    hash = (hash * 31 + slug.charCodeAt(i)) >>> 0;
+  }
+  return GENRE_PALETTE[hash % GENRE_PALETTE.length];
+}
@@ -0,0 +1,269 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import type { z } from "zod";
+import {
+  FIRST_FILM_YEAR,
+  insertMovieSchema,
+  isValidYear,
+  type InsertMovie,
+  type MovieImportReport,
+  type MovieImportRow,
+} from "@shared/schema";
+import { splitGenres } from "./genres";
+import type { IStorage } from "./storage";
+
+// POST /api/movies/import takes a multipart `file` (.csv or .json) or a JSON
+// body. JSON is an array of movies shaped like POST /api/movies bodies, or a
+// fixture-style { movies: [...] }. CSV has a header row naming the columns:
+//
+//   title, year, genres, runtime, synopsis, language, country, certification, imdb, tmdb
+//
+// Header names are matched ignoring case, spaces and punctuation, so
+// "Runtime Minutes" and "original_language" work too; other columns are left
+// out and listed in the report. Genres are separated by commas, semicolons,
+// "/" or "|" within their cell (see splitGenres), and empty cells are left
+// unset.
+//
+// Each row is checked like a POST /api/movies body. Rows whose title and year
+// (ignoring case and extra spaces) match an existing movie, or an earlier row,
+// are skipped, so running the same import twice adds nothing the second time.
+
+export const IMPORT_MAX_BYTES = 2 * 1024 * 1024;
+export const IMPORT_MAX_ROWS = 1000;
+
+export class InvalidImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImportError";
+  }
+}
+
+/** Movie rows read from an import, not yet validated. */
+export type ImportFile = {
+  rows: unknown[];
+  /** CSV columns that don't name a movie field. */
+  ignoredColumns: string[];
+};
+
+const csvColumns = {
+  title: "title",
+  year: "year",
+  genre: "genres",
+  genres: "genres",
+  runtime: "runtimeMinutes",
+  runtimeminutes: "runtimeMinutes",
+  synopsis: "synopsis",
+  language: "originalLanguage",
+  originallanguage: "originalLanguage",
+  country: "country",
+  certification: "certification",
+  imdb: "imdb",
+  imdbid: "imdb",
+  tmdb: "tmdb",
+  tmdbid: "tmdb",
+} as const;
+
+type CsvField = (typeof csvColumns)[keyof typeof csvColumns];
+
+const numericCsvFields: CsvField[] = ["year", "runtimeMinutes", "tmdb"];
+
+function csvField(column: string): CsvField | undefined {
+  return csvColumns[column.toLowerCase().replace(/[^a-z]/g, "") as keyof typeof csvColumns];
+}
+
+/**
+ * Splits CSV text into records of fields. Quoted fields may hold commas,
+ * line breaks and doubled quotes; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Skips a byte order mark, which spreadsheet exports often start with.
+  for (let i = text.startsWith("\uFEFF") ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new InvalidImportError("Invalid CSV: a quoted field is never closed");
+  if (field !== "" || record.length > 0) records.push([...record, field]);
+
+  return records.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function csvValue(field: CsvField, cell: string): unknown {
+  if (field === "genres") return splitGenres(cell);
+  // Anything else is left a string, so the row fails with "Expected number".
+  return numericCsvFields.includes(field) && /^-?\d+$/.test(cell) ? Number(cell) : cell;
+}
+
+export function readCsvImport(text: string): ImportFile {
+  const [header = [], ...records] = parseCsv(text);
+  const fields = header.map(csvField);
+  const ignoredColumns = header.filter((column, i) => !fields[i] && column.trim() !== "");
+  fields.forEach((field, i) => {
+    if (field && fields.indexOf(field) !== i) {
+      throw new InvalidImportError(`Columns "${header[fields.indexOf(field)]}" and "${header[i]}" are the same field`);
+    }
+  });
+
+  const rows = records.map((cells) => {
+    const movie: Record<string, unknown> = {};
+    const externalIds: Record<string, unknown> = {};
+    fields.forEach((field, i) => {
+      const cell = cells[i]?.trim();
+      if (!field || !cell) return;
+      if (field === "imdb" || field === "tmdb") externalIds[field] = csvValue(field, cell);
+      else movie[field] = csvValue(field, cell);
+    });
+    if (Object.keys(externalIds).length > 0) movie.externalIds = externalIds;
+    return movie;
+  });
+  return { rows, ignoredColumns };
+}
+
+/** Reads an already parsed JSON import: an array of movies, or `{ movies: [...] }`. */
+export function readJsonImport(body: unknown): ImportFile {
+  const rows =
+    body !== null && typeof body === "object" && !Array.isArray(body) ? (body as { movies?: unknown }).movies : body;
+  if (!Array.isArray(rows)) {
+    throw new InvalidImportError("JSON imports must be an array of movies or { movies: [...] }");
+  }
+  return { rows, ignoredColumns: [] };
+}
+
+function readImportFile(file: Express.Multer.File): ImportFile {
+  const text = file.buffer.toString("utf-8");
+  const extension = file.originalname.toLowerCase().split(".").pop();
+
+  if (extension === "json" || (extension !== "csv" && file.mimetype === "application/json")) {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch (err) {
+      throw new InvalidImportError(`Invalid JSON: ${(err as Error).message}`);
+    }
+    return readJsonImport(body);
+  }
+  if (extension === "csv" || file.mimetype === "text/csv") return readCsvImport(text);
+  throw new InvalidImportError("Imports must be .csv or .json files");
+}
+
+/**
+ * Reads the rows of an import request: a multipart `file` field, or else the
+ * JSON body. Rejects with a MulterError when the file is over `maxBytes`, and
+ * with an InvalidImportError when nothing was sent, it can't be read or it
+ * holds no rows or more than IMPORT_MAX_ROWS.
+ */
+export async function receiveImport(
+  req: Request,
+  res: Response,
+  maxBytes = IMPORT_MAX_BYTES,
+): Promise<ImportFile> {
+  let file: ImportFile;
+  if (req.is("multipart/form-data")) {
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes, files: 1 } }).single("file");
+    await new Promise<void>((resolve, reject) => upload(req, res, (err: unknown) => (err ? reject(err) : resolve())));
+    if (!req.file) throw new InvalidImportError("No file uploaded");
+    file = readImportFile(req.file);
+  } else {
+    file = readJsonImport(req.body);
+  }
+
+  if (file.rows.length === 0) throw new InvalidImportError("The import has no movies");
+  if (file.rows.length > IMPORT_MAX_ROWS) {
+    throw new InvalidImportError(`Imports are limited to ${IMPORT_MAX_ROWS} movies`);
+  }
+  return file;
+}
+
+function movieKey(title: string, year: number): string {
+  return `${title.trim().replace(/\s+/g, " ").toLowerCase()} (${year})`;
+}
+
+function issueMessage(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Validates every row and adds the new, valid ones in order, unless
+ * `dryRun`, which only reports what would happen. Rows are added one at a
+ * time, so a storage failure part way leaves the earlier ones added.
+ */
+export async function importMovies(
+  storage: IStorage,
+  { rows, ignoredColumns }: ImportFile,
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<MovieImportReport> {
+  const existing = new Map((await storage.getAllMovies()).map((m) => [movieKey(m.title, m.year), m.id]));
+  // The row that first had each title and year, and the movie it added.
+  const imported = new Map<string, { row: number; movieId: number | null }>();
+  const report: MovieImportReport = {
+    dryRun,
+    counts: { created: 0, skipped: 0, error: 0 },
+    ignoredColumns,
+    rows: [],
+  };
+
+  for (let index = 0; index < rows.length; index++) {
+    const raw = rows[index];
+    const fields = (raw !== null && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const parsed = insertMovieSchema.safeParse(raw);
+    const result: MovieImportRow = {
+      row: index + 1,
+      status: "error",
+      title: typeof fields.title === "string" ? fields.title : null,
+      year: typeof fields.year === "number" ? fields.year : null,
+      movieId: null,
+      duplicateOfRow: null,
+      errors: parsed.success ? [] : parsed.error.issues.map(issueMessage),
+    };
+    if (Number.isInteger(result.year) && !isValidYear(result.year!)) {
+      result.errors.push(`year: Must be from ${FIRST_FILM_YEAR} to ${new Date().getFullYear()}`);
+    }
+
+    if (parsed.success && result.errors.length === 0) {
+      const movie: InsertMovie = parsed.data;
+      const key = movieKey(movie.title, movie.year);
+      if (existing.has(key)) {
+        result.status = "skipped";
+        result.movieId = existing.get(key)!;
+      } else if (imported.has(key)) {
+        const first = imported.get(key)!;
+        result.status = "skipped";
+        result.movieId = first.movieId;
+        result.duplicateOfRow = first.row;
+      } else {
+        result.status = "created";
+        if (!dryRun) result.movieId = (await storage.addMovie(movie)).id;
+        imported.set(key, { row: result.row, movieId: result.movieId });
+      }
+    }
+    report.counts[result.status]++;
+    report.rows.push(result);
+  }
+  return report;
+}
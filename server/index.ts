@@ -1,6 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { serveStatic } from "./static";
+import { DatabaseStorage, MemStorage, getStorage } from "./storage";
+import { getPool } from "./db";
+import { prepareSchema } from "./migrate";
+import { loadFixtures, readFixtureSet } from "./fixtures";
+import { ensureRatingScale } from "./scale";
+import { appJobs, startJobWorker } from "./jobs";
+import { IMPORT_MAX_BYTES } from "./imports";
+import { serveStatic, servePosters } from "./static";
 import { createServer } from "http";
 
 const app = express();
@@ -12,6 +19,9 @@ declare module "http" {
   }
 }
 
+// Movie imports may be larger than other JSON bodies; once parsed here the
+// general parser below leaves them alone.
+app.use("/api/movies/import", express.json({ limit: IMPORT_MAX_BYTES }));
 app.use(
   express.json({
     verify: (req, _res, buf) => {
@@ -60,7 +70,29 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  await registerRoutes(httpServer, app);
+  const storage = getStorage();
+  if (storage instanceof DatabaseStorage) {
+    const applied = await prepareSchema(getPool(), {
+      autoMigrate: process.env.MIGRATE_ON_BOOT !== "false",
+    });
+    for (const migration of applied) {
+      log(`applied ${migration.tag}`, "migrate");
+    }
+  }
+  // Stored scores must be on the configured rating scale. A store without
+  // scores takes it; rewriting scores is left to `npm run ratings:rescale`,
+  // so a changed scale stops the boot.
+  await ensureRatingScale(storage, { rescale: false });
+  // Postgres is seeded out of band with `npm run seed`; the in-memory store
+  // starts empty on every boot unless a fixture set is named.
+  if (storage instanceof MemStorage && process.env.MEMORY_FIXTURES) {
+    await loadFixtures(storage, await readFixtureSet(process.env.MEMORY_FIXTURES));
+    log(`loaded fixture set ${process.env.MEMORY_FIXTURES}`, "fixtures");
+  }
+  await registerRoutes(httpServer, app, storage);
+  servePosters(app);
+  // Every process runs background jobs; claims keep them from running one twice.
+  await startJobWorker(storage, appJobs(storage, (message) => log(message, "jobs")));
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -100,4 +132,7 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
-})();
+})().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
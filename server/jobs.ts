@@ -0,0 +1,187 @@
+import type { Job } from "@shared/schema";
+import { parseCron } from "./cron";
+import { POSTER_THUMBNAILS_JOB, posterDir, writeThumbnails } from "./posters";
+import { WEBHOOK_JOB, dispatchWebhooks } from "./webhooks";
+import type { IStorage, JobScheduleDefinition } from "./storage";
+
+// Work that shouldn't hold up a request runs as a background job: a row in
+// the jobs table naming its handler, claimed by whichever process gets to it
+// first (FOR UPDATE SKIP LOCKED with Postgres) and run there. A handler that
+// throws is retried with exponential backoff; once its attempts run out the
+// job is dead-lettered and left for an admin to look at in GET /api/admin/jobs.
+//
+// A job may run more than once: a worker that dies mid-job loses its lease
+// and the job is claimed again, or dead-lettered if that was its last attempt.
+// Handlers must therefore be safe to repeat. A worker that outlives its lease
+// can't record how its run went, since the job is no longer its to finish.
+
+export const JOB_MAX_ATTEMPTS = 5;
+/** Delay before the first retry; it doubles for each one after. */
+export const JOB_RETRY_BASE_MS = 10_000;
+/** How long a claimed job may run before another worker may take it over. */
+export const JOB_LEASE_MS = 5 * 60_000;
+
+export const RECOMPUTE_RATINGS_JOB = "ratings.recompute";
+export const PRUNE_JOBS_JOB = "jobs.prune";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How long finished jobs stay listed before PRUNE_JOBS_JOB deletes them. */
+const KEEP_SUCCEEDED_MS = DAY_MS;
+const KEEP_DEAD_MS = 30 * DAY_MS;
+
+export type JobHandler = {
+  run(payload: Record<string, unknown>, job: Job): Promise<void>;
+  maxAttempts?: number;
+  /** The delay before retrying after attempt number `attempt` (from 1) failed. */
+  retryDelayMs?(attempt: number): number;
+};
+
+export type JobHandlers = Record<string, JobHandler>;
+
+export type JobWorkerOptions = {
+  handlers: JobHandlers;
+  /** Recurring jobs; each must name one of `handlers`. */
+  schedules?: JobScheduleDefinition[];
+  /** How often to look for due jobs. */
+  pollMs?: number;
+  /** Jobs run at once by this worker. */
+  concurrency?: number;
+};
+
+export interface JobWorker {
+  /** Runs everything due now, and anything that falls due meanwhile, resolving once it has all finished. */
+  runOnce(): Promise<void>;
+  /** Stops claiming jobs, resolving once the running ones have finished. */
+  stop(): Promise<void>;
+}
+
+function defaultRetryDelayMs(attempt: number): number {
+  return JOB_RETRY_BASE_MS * 2 ** (attempt - 1);
+}
+
+/**
+ * Runs one claimed job and records how it went, resolving undefined when the
+ * job was taken over while it ran.
+ */
+export async function runJob(
+  storage: Pick<IStorage, "completeJob" | "failJob">,
+  handler: JobHandler,
+  job: Job,
+): Promise<Job | undefined> {
+  try {
+    await handler.run(job.payload, job);
+  } catch (err) {
+    const retry = job.attempts < (handler.maxAttempts ?? JOB_MAX_ATTEMPTS);
+    const retryDelayMs = handler.retryDelayMs ?? defaultRetryDelayMs;
+    return storage.failJob(
+      job.id,
+      job.attempts,
+      err instanceof Error ? err.message : String(err),
+      retry ? retryDelayMs(job.attempts) : null,
+    );
+  }
+  return storage.completeJob(job.id, job.attempts);
+}
+
+/**
+ * Runs jobs until stopped: enqueues due schedules and claims due jobs every
+ * `pollMs`, keeping up to `concurrency` of them running.
+ */
+export async function startJobWorker(
+  storage: IStorage,
+  { handlers, schedules = [], pollMs = 1000, concurrency = 4 }: JobWorkerOptions,
+): Promise<JobWorker> {
+  const maxAttempts = Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => [name, handler.maxAttempts ?? JOB_MAX_ATTEMPTS]),
+  );
+  for (const schedule of schedules) {
+    parseCron(schedule.cron);
+    if (!handlers[schedule.name]) throw new Error(`No handler for scheduled job "${schedule.name}"`);
+  }
+  await storage.syncJobSchedules(schedules);
+
+  const running = new Set<Promise<unknown>>();
+  let polling: Promise<number> | undefined;
+  let stopped = false;
+
+  // Resolves to how many jobs it started.
+  const poll = async (): Promise<number> => {
+    await storage.enqueueScheduledJobs();
+    let started = 0;
+    while (!stopped && running.size < concurrency) {
+      const claimed = await storage.claimJobs(maxAttempts, concurrency - running.size, JOB_LEASE_MS);
+      if (claimed.length === 0) break;
+      for (const job of claimed) {
+        const run: Promise<unknown> = runJob(storage, handlers[job.name], job)
+          .catch(() => undefined)
+          .finally(() => running.delete(run));
+        running.add(run);
+      }
+      started += claimed.length;
+    }
+    return started;
+  };
+
+  const tick = (): Promise<number> =>
+    (polling ??= poll()
+      .catch(() => 0)
+      .finally(() => {
+        polling = undefined;
+      }));
+
+  const timer = setInterval(() => void tick(), pollMs);
+  timer.unref();
+
+  return {
+    async runOnce() {
+      let started: number;
+      do {
+        started = await tick();
+        await Promise.all(running);
+      } while (started > 0 && !stopped);
+    },
+    async stop() {
+      stopped = true;
+      clearInterval(timer);
+      await polling;
+      await Promise.all(running);
+    },
+  };
+}
+
+/**
+ * The app's background jobs: what each one does, and which recur. `log`
+ * takes what the handlers report.
+ */
+export function appJobs(
+  storage: IStorage,
+  log: (message: string) => void = () => {},
+): Required<Pick<JobWorkerOptions, "handlers" | "schedules">> {
+  return {
+    handlers: {
+      [WEBHOOK_JOB]: {
+        // Deliveries have their own retries; the job only fails when storage does.
+        run: () => dispatchWebhooks(storage),
+      },
+      [POSTER_THUMBNAILS_JOB]: {
+        run: (payload) => writeThumbnails(String(payload.key), posterDir()),
+      },
+      [RECOMPUTE_RATINGS_JOB]: {
+        run: async () => {
+          const drifts = await storage.recomputeRatingAggregates();
+          if (drifts.length > 0) log(`recomputed rating aggregates for ${drifts.length} movie(s)`);
+        },
+      },
+      [PRUNE_JOBS_JOB]: {
+        run: async () => {
+          await storage.pruneJobs(KEEP_SUCCEEDED_MS, KEEP_DEAD_MS);
+        },
+      },
+    },
+    schedules: [
+      { name: WEBHOOK_JOB, cron: "* * * * *" },
+      { name: RECOMPUTE_RATINGS_JOB, cron: "30 3 * * *" },
+      { name: PRUNE_JOBS_JOB, cron: "0 4 * * *" },
+    ],
+  };
+}
@@ -0,0 +1,88 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import type { LiveEvent } from "@shared/schema";
+import type { DomainEvent } from "./events";
+import type { IStorage } from "./storage";
+
+// Clients connect to /api/live and receive every LiveEvent as a JSON text
+// message. The socket is one-way: anything a client sends is ignored.
+// Upgrades for other paths (Vite's HMR socket in development) are left to
+// their own listeners.
+//
+// Events come from storage's event bus, so clients of every server process
+// hear about changes made through any of them.
+
+export const LIVE_PATH = "/api/live";
+
+// Connections that miss a ping for this long are dropped, so clients that
+// vanished without closing don't pile up.
+const HEARTBEAT_MS = 30_000;
+
+/** The client-facing form of a storage event; undefined when the movie is gone again. */
+export async function toLiveEvent(
+  storage: Pick<IStorage, "getMovieById">,
+  event: DomainEvent,
+): Promise<LiveEvent | undefined> {
+  if (event.type === "rating.created" || event.type === "rating.deleted") {
+    // Picked rather than spread, so who rated (and what they had before)
+    // stays off the unauthenticated socket.
+    const { type, movieId, score, avgRating, totalRatings } = event;
+    return { type, movieId, score, avgRating, totalRatings };
+  }
+  if (event.type === "movie.deleted") return event;
+
+  const movie = await storage.getMovieById(event.movieId);
+  if (!movie) return undefined;
+  return event.type === "movie.created"
+    ? { type: event.type, movie: { ...movie, avgRating: 0, totalRatings: 0 } }
+    : { type: event.type, movie };
+}
+
+/** Serves /api/live on `httpServer` until it closes, resolving once storage events are flowing. */
+export async function attachLiveUpdates(httpServer: Server, storage: IStorage): Promise<void> {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+    ws.on("error", () => ws.terminate());
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  const publish = (event: LiveEvent) => {
+    const message = JSON.stringify(event);
+    wss.clients.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(message);
+    });
+  };
+  // Movie events wait on a read, so each event queues behind the previous
+  // one to keep them in order.
+  let sending = Promise.resolve();
+  const unsubscribe = await storage.events.subscribe((event) => {
+    sending = sending
+      .then(() => toLiveEvent(storage, event))
+      .then((live) => live && publish(live))
+      .catch(() => undefined);
+  });
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    wss.close();
+  });
+}
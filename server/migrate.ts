@@ -0,0 +1,236 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import type pg from "pg";
+
+// Migrations are generated from shared/schema.ts with `npm run db:generate`
+// (drizzle-kit), which writes `<tag>.sql` files and lists them, in order, in
+// meta/_journal.json. The matching rollback lives in `down/<tag>.sql` and is
+// written by hand.
+
+export type Migration = {
+  version: number;
+  tag: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: number;
+  tag: string;
+  checksum: string;
+  appliedAt: Date;
+};
+
+export type MigrationStatus = {
+  applied: (AppliedMigration & { modified: boolean })[];
+  pending: Migration[];
+  /** Applied in the database but unknown to this build (e.g. after a code rollback). */
+  unknown: AppliedMigration[];
+};
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+// Arbitrary, but must be the same for every process migrating this database.
+const MIGRATION_LOCK_ID = 7217001;
+
+export function defaultMigrationsDir(): string {
+  return path.resolve(process.env.MIGRATIONS_DIR || "migrations");
+}
+
+function checksumOf(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex");
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function loadMigrations(dir: string = defaultMigrationsDir()): Promise<Migration[]> {
+  const journal = await readOptional(path.join(dir, "meta", "_journal.json"));
+  if (journal === null) {
+    throw new MigrationError(`No migration journal found in ${dir}`);
+  }
+
+  const entries: { idx: number; tag: string }[] = JSON.parse(journal).entries;
+  return Promise.all(
+    entries.map(async ({ idx, tag }) => {
+      const up = await readOptional(path.join(dir, `${tag}.sql`));
+      if (up === null) {
+        throw new MigrationError(`Migration ${tag} is in the journal but ${tag}.sql is missing`);
+      }
+      const down = await readOptional(path.join(dir, "down", `${tag}.sql`));
+      return { version: idx, tag, up, down, checksum: checksumOf(up) };
+    }),
+  );
+}
+
+async function ensureMigrationsTable(client: pg.PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version integer PRIMARY KEY,
+      tag text NOT NULL,
+      checksum text NOT NULL,
+      applied_at timestamp NOT NULL DEFAULT now()
+    )
+  `);
+}
+
+async function appliedMigrations(client: pg.PoolClient): Promise<AppliedMigration[]> {
+  const { rows } = await client.query(
+    "SELECT version, tag, checksum, applied_at AS \"appliedAt\" FROM schema_migrations ORDER BY version",
+  );
+  return rows;
+}
+
+/**
+ * Runs `fn` on a dedicated connection holding the migration advisory lock,
+ * so concurrently booting instances apply each migration exactly once.
+ */
+async function withMigrationLock<T>(pool: pg.Pool, fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function inTransaction(client: pg.PoolClient, tag: string, fn: () => Promise<void>): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await fn();
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw new MigrationError(`Migration ${tag} failed: ${(err as Error).message}`);
+  }
+}
+
+function computeStatus(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus {
+  const known = new Map(migrations.map((m) => [m.version, m]));
+  const appliedVersions = new Set(applied.map((a) => a.version));
+
+  return {
+    applied: applied
+      .filter((a) => known.has(a.version))
+      .map((a) => ({ ...a, modified: known.get(a.version)!.checksum !== a.checksum })),
+    pending: migrations.filter((m) => !appliedVersions.has(m.version)),
+    unknown: applied.filter((a) => !known.has(a.version)),
+  };
+}
+
+export async function migrationStatus(pool: pg.Pool, migrations: Migration[]): Promise<MigrationStatus> {
+  return withMigrationLock(pool, async (client) => computeStatus(migrations, await appliedMigrations(client)));
+}
+
+/** Applies every pending migration in order, each in its own transaction. */
+export async function migrateUp(pool: pg.Pool, migrations: Migration[]): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    const { pending } = computeStatus(migrations, await appliedMigrations(client));
+    for (const migration of pending) {
+      await inTransaction(client, migration.tag, async () => {
+        await client.query(migration.up);
+        await client.query("INSERT INTO schema_migrations (version, tag, checksum) VALUES ($1, $2, $3)", [
+          migration.version,
+          migration.tag,
+          migration.checksum,
+        ]);
+      });
+    }
+    return pending;
+  });
+}
+
+/** Rolls back the last `steps` applied migrations, newest first. */
+export async function migrateDown(pool: pg.Pool, migrations: Migration[], steps = 1): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    const { applied, unknown } = computeStatus(migrations, await appliedMigrations(client));
+    if (unknown.length > 0) {
+      throw new MigrationError(
+        `The database has migrations this build doesn't know about: ${unknown.map((m) => m.tag).join(", ")}`,
+      );
+    }
+
+    const known = new Map(migrations.map((m) => [m.version, m]));
+    const toRevert = applied
+      .slice(-steps)
+      .reverse()
+      .map((a) => known.get(a.version)!);
+    const missingDown = toRevert.find((m) => m.down === null);
+    if (missingDown) {
+      throw new MigrationError(`Migration ${missingDown.tag} has no down/${missingDown.tag}.sql`);
+    }
+
+    for (const migration of toRevert) {
+      await inTransaction(client, migration.tag, async () => {
+        await client.query(migration.down!);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version]);
+      });
+    }
+    return toRevert;
+  });
+}
+
+/**
+ * Records every migration up to and including `version` as applied without
+ * running it. For databases whose schema was created with `drizzle-kit push`
+ * before migrations existed.
+ */
+export async function baselineMigrations(pool: pg.Pool, migrations: Migration[], version: number): Promise<Migration[]> {
+  if (!migrations.some((m) => m.version === version)) {
+    throw new MigrationError(`Unknown migration version ${version}`);
+  }
+
+  return withMigrationLock(pool, async (client) => {
+    const { pending } = computeStatus(migrations, await appliedMigrations(client));
+    const baselined = pending.filter((m) => m.version <= version);
+    for (const migration of baselined) {
+      await client.query("INSERT INTO schema_migrations (version, tag, checksum) VALUES ($1, $2, $3)", [
+        migration.version,
+        migration.tag,
+        migration.checksum,
+      ]);
+    }
+    return baselined;
+  });
+}
+
+/**
+ * Brings the schema up to date on boot (unless `autoMigrate` is false, for
+ * deployments that run `npm run migrate up` as a separate step) and throws if
+ * any migration is still pending, so the server never runs against an
+ * out-of-date schema.
+ */
+export async function prepareSchema(
+  pool: pg.Pool,
+  { autoMigrate = true, dir }: { autoMigrate?: boolean; dir?: string } = {},
+): Promise<Migration[]> {
+  const migrations = await loadMigrations(dir);
+  const applied = autoMigrate ? await migrateUp(pool, migrations) : [];
+
+  const { pending } = await migrationStatus(pool, migrations);
+  if (pending.length > 0) {
+    throw new MigrationError(
+      `Database schema is behind: pending migrations ${pending.map((m) => m.tag).join(", ")}. Run \`npm run migrate up\`.`,
+    );
+  }
+  return applied;
+}
@@ -0,0 +1,85 @@
+import type { MovieListQuery, MovieListResponse, MovieSortField, MovieWithStats } from "@shared/schema";
+
+export type SortOrder = "asc" | "desc";
+
+/** Position of the last row on a page: its sort key value and id. */
+export type Cursor = {
+  value: string | number;
+  id: number;
+};
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function resolveOrder(query: Pick<MovieListQuery, "sort" | "order">): SortOrder {
+  return query.order ?? (query.sort === "title" ? "asc" : "desc");
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+/** Unpacks an encoded cursor, leaving it to the caller to check which type its value should be. */
+export function readCursor(raw: string): Cursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 2 || !Number.isInteger(parsed[1])) {
+    throw new InvalidCursorError();
+  }
+  const [value, id] = parsed;
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new InvalidCursorError();
+  }
+  return { value, id };
+}
+
+export function decodeCursor(raw: string, sort: MovieSortField): Cursor {
+  const { value, id } = readCursor(raw);
+  const expected = sort === "title" || sort === "createdAt" ? "string" : "number";
+  if (typeof value !== expected) {
+    throw new InvalidCursorError();
+  }
+  if (sort === "createdAt" && isNaN(Date.parse(String(value)))) {
+    throw new InvalidCursorError();
+  }
+
+  return { value, id };
+}
+
+export function cursorFor(movie: MovieWithStats, sort: MovieSortField): Cursor {
+  const value = sort === "createdAt" ? (movie.createdAt ?? new Date(0)).toISOString() : movie[sort];
+  return { value, id: movie.id };
+}
+
+/** Ascending comparison of two cursors, used to sort and seek in memory. */
+export function compareCursors(a: Cursor, b: Cursor, sort: MovieSortField): number {
+  let byValue: number;
+  if (sort === "title") {
+    byValue = String(a.value).localeCompare(String(b.value));
+  } else {
+    byValue = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  }
+  return byValue || a.id - b.id;
+}
+
+/**
+ * Turns `limit + 1` rows into a page: the extra row only signals that
+ * another page exists.
+ */
+export function toPage(rows: MovieWithStats[], query: MovieListQuery): MovieListResponse {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > query.limit && last ? encodeCursor(cursorFor(last, query.sort)) : null,
+  };
+}
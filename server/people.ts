@@ -0,0 +1,55 @@
+import type { Credit, FilmographyEntry, Person, PersonDetail } from "@shared/schema";
+
+export class DuplicateCreditError extends Error {
+  constructor() {
+    super("The person already has this role on the movie");
+    this.name = "DuplicateCreditError";
+  }
+}
+
+/** One of a person's credits joined to its movie's rating totals. */
+export type CreditedMovie = {
+  credit: Credit;
+  movie: { id: number; title: string; year: number; ratingCount: number; ratingSum: number };
+};
+
+function average(sum: number, count: number): number {
+  return count === 0 ? 0 : Math.round((sum / count) * 10) / 10;
+}
+
+/**
+ * Groups a person's credits by movie, newest first. The career average
+ * weighs every rated movie equally, however many ratings it has, and uses
+ * exact per-movie means rather than the rounded ones shown in the list.
+ */
+export function buildPersonDetail(person: Person, rows: CreditedMovie[]): PersonDetail {
+  const byMovie = new Map<number, FilmographyEntry>();
+  const means: number[] = [];
+  for (const { credit, movie } of rows) {
+    let entry = byMovie.get(movie.id);
+    if (!entry) {
+      entry = {
+        movieId: movie.id,
+        title: movie.title,
+        year: movie.year,
+        avgRating: average(movie.ratingSum, movie.ratingCount),
+        totalRatings: movie.ratingCount,
+        credits: [],
+      };
+      byMovie.set(movie.id, entry);
+      if (movie.ratingCount > 0) means.push(movie.ratingSum / movie.ratingCount);
+    }
+    const { movieId: _movieId, personId: _personId, ...rest } = credit;
+    entry.credits.push(rest);
+  }
+
+  const filmography = Array.from(byMovie.values()).sort(
+    (a, b) => b.year - a.year || a.title.localeCompare(b.title),
+  );
+  return {
+    ...person,
+    filmography,
+    careerAvgRating: average(means.reduce((a, b) => a + b, 0), means.length),
+    ratedTitles: means.length,
+  };
+}
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { Request, Response } from "express";
+import multer from "multer";
+import sharp, { type Metadata } from "sharp";
+
+// Posters live on local disk under POSTER_DIR:
+//
+//   original/<key>.<jpg|png|webp>   the upload as received
+//   thumb/<key>.webp                92×138, for list rows
+//   large/<key>.webp                500×750, for the detail page
+//
+// The key is a hash of the uploaded bytes, so a file's content never changes
+// once written and GET /posters/... can be cached for good. Replacing a
+// poster points the movie at a new key; files are never overwritten.
+//
+// Uploads only write the original; the thumbnails are made by the
+// POSTER_THUMBNAILS_JOB background job, so they 404 for a moment after.
+
+export const POSTER_THUMBNAILS_JOB = "posters.thumbnails";
+
+export const POSTER_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const DEFAULT_POSTER_MAX_BYTES = 5 * 1024 * 1024;
+
+// The most pixels sharp will decode (e.g. 5000×8000). A small, highly
+// compressed file can declare dimensions that take gigabytes to decode, so
+// larger images are refused before decoding.
+export const POSTER_MAX_PIXELS = 40_000_000;
+
+export const posterSizes = {
+  thumb: { width: 92, height: 138 },
+  large: { width: 500, height: 750 },
+} as const;
+
+// sharp's format names for the accepted types, with the extension to save under.
+const formatExtensions: Record<string, string> = { jpeg: "jpg", png: "png", webp: "webp" };
+
+export class InvalidPosterError extends Error {
+  constructor(message = "Posters must be JPEG, PNG or WebP images") {
+    super(message);
+    this.name = "InvalidPosterError";
+  }
+}
+
+export class PosterTooLargeError extends Error {
+  constructor(maxPixels = POSTER_MAX_PIXELS) {
+    super(`Posters can be at most ${maxPixels} pixels`);
+    this.name = "PosterTooLargeError";
+  }
+}
+
+function openImage(image: Buffer, maxPixels = POSTER_MAX_PIXELS) {
+  return sharp(image, { limitInputPixels: maxPixels });
+}
+
+export function posterDir(): string {
+  return path.resolve(process.env.POSTER_DIR || path.join("uploads", "posters"));
+}
+
+export function posterMaxBytes(): number {
+  const configured = Number(process.env.POSTER_MAX_BYTES);
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_POSTER_MAX_BYTES;
+}
+
+/**
+ * Reads a single `poster` file field from a multipart request into memory.
+ * Rejects with a MulterError when the file is over `maxBytes` and with an
+ * InvalidPosterError when its declared type isn't an accepted image type.
+ */
+export function receivePoster(
+  req: Request,
+  res: Response,
+  maxBytes = posterMaxBytes(),
+): Promise<Express.Multer.File | undefined> {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+    fileFilter: (_req, file, cb) =>
+      POSTER_MIME_TYPES.includes(file.mimetype) ? cb(null, true) : cb(new InvalidPosterError()),
+  }).single("poster");
+
+  return new Promise((resolve, reject) =>
+    upload(req, res, (err: unknown) => (err ? reject(err) : resolve(req.file))),
+  );
+}
+
+/**
+ * Writes the original under `dir` and returns the poster key. The image is
+ * decoded rather than trusted by its declared type, so anything that isn't a
+ * readable JPEG, PNG or WebP throws InvalidPosterError; this includes a
+ * header that parses in front of truncated data, so writeThumbnails can't
+ * fail on it later. Images over `maxPixels` throw PosterTooLargeError.
+ */
+export async function savePoster(
+  image: Buffer,
+  dir = posterDir(),
+  maxPixels = POSTER_MAX_PIXELS,
+): Promise<string> {
+  let metadata: Metadata;
+  try {
+    // Only reads the header, so the size can be checked before decoding.
+    metadata = await sharp(image).metadata();
+  } catch {
+    throw new InvalidPosterError();
+  }
+  const extension = metadata.format && formatExtensions[metadata.format];
+  if (!extension) throw new InvalidPosterError();
+  if ((metadata.width ?? 0) * (metadata.height ?? 0) > maxPixels) throw new PosterTooLargeError(maxPixels);
+  try {
+    // Reads every pixel but only keeps a thumbnail-sized result.
+    const { width, height } = posterSizes.thumb;
+    await openImage(image, maxPixels).resize(width, height, { fit: "cover" }).raw().toBuffer();
+  } catch {
+    throw new InvalidPosterError();
+  }
+
+  const key = createHash("sha256").update(image).digest("hex").slice(0, 32);
+  await mkdir(path.join(dir, "original"), { recursive: true });
+  await writeFile(path.join(dir, "original", `${key}.${extension}`), image);
+  return key;
+}
+
+/** Writes the thumbnails of the original saved under `key`. */
+export async function writeThumbnails(key: string, dir = posterDir()): Promise<void> {
+  const image = await readOriginal(key, dir);
+  for (const [size, { width, height }] of Object.entries(posterSizes)) {
+    const thumbnail = await openImage(image)
+      .rotate() // honor EXIF orientation before cropping
+      .resize(width, height, { fit: "cover" })
+      .webp({ quality: 80 })
+      .toBuffer();
+    await mkdir(path.join(dir, size), { recursive: true });
+    await writeFile(path.join(dir, size, `${key}.webp`), thumbnail);
+  }
+}
+
+async function readOriginal(key: string, dir: string): Promise<Buffer> {
+  if (!/^[0-9a-f]{32}$/.test(key)) throw new Error(`Invalid poster key "${key}"`);
+  for (const extension of Object.values(formatExtensions)) {
+    try {
+      return await readFile(path.join(dir, "original", `${key}.${extension}`));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+  throw new Error(`No original poster for key ${key}`);
+}
@@ -0,0 +1,158 @@
+import type {
+  Rating,
+  Review,
+  ReviewInput,
+  ReviewListResponse,
+  ReviewSortField,
+  ReviewVoteResult,
+} from "@shared/schema";
+import { InvalidCursorError, encodeCursor, readCursor, type Cursor } from "./pagination";
+
+// Reviews are paged newest first by (reviewed_at, id), or most helpful first
+// by (helpful_score, id), both descending.
+
+/** z for a 95% confidence interval. */
+const WILSON_Z = 1.96;
+
+export class OwnReviewVoteError extends Error {
+  constructor() {
+    super("Reviewers can't vote on their own review");
+    this.name = "OwnReviewVoteError";
+  }
+}
+
+/** The review columns of a rating row. */
+export type ReviewFields = Pick<
+  Rating,
+  "review" | "spoiler" | "reviewedAt" | "helpfulCount" | "notHelpfulCount" | "helpfulScore"
+>;
+
+/** A reviewed rating with its author and the reader's vote, as both drivers read it. */
+export type ReviewRow = Pick<Rating, "id" | "movieId" | "score"> &
+  ReviewFields & { user: Review["user"]; userVote: boolean | null };
+
+/**
+ * Lower bound of the Wilson score interval for the share of helpful votes:
+ * the helpful share we can be 95% sure of given how few votes there are.
+ * Ranking by it keeps 1 of 1 helpful below 40 of 45, unlike the raw share,
+ * and a review with no votes scores 0.
+ */
+export function wilsonLowerBound(helpful: number, total: number): number {
+  if (total === 0) return 0;
+  const z2 = WILSON_Z * WILSON_Z;
+  const p = helpful / total;
+  const centre = p + z2 / (2 * total);
+  const margin = WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total);
+  return (centre - margin) / (1 + z2 / total);
+}
+
+/**
+ * New vote totals for a review after one reader's vote moves from `removed`
+ * to `added` (null for no vote on either side).
+ */
+export function tallyVote(
+  counts: Pick<Rating, "helpfulCount" | "notHelpfulCount">,
+  removed: boolean | null,
+  added: boolean | null,
+): Omit<ReviewVoteResult, "userVote"> {
+  let { helpfulCount, notHelpfulCount } = counts;
+  if (removed === true) helpfulCount--;
+  if (removed === false) notHelpfulCount--;
+  if (added === true) helpfulCount++;
+  if (added === false) notHelpfulCount++;
+  return {
+    helpfulCount,
+    notHelpfulCount,
+    helpfulScore: wilsonLowerBound(helpfulCount, helpfulCount + notHelpfulCount),
+  };
+}
+
+export function toReview(row: ReviewRow): Review {
+  return {
+    id: row.id,
+    movieId: row.movieId,
+    score: row.score,
+    body: row.review ?? "",
+    spoiler: row.spoiler,
+    reviewedAt: row.reviewedAt ?? new Date(0),
+    helpfulCount: row.helpfulCount,
+    notHelpfulCount: row.notHelpfulCount,
+    helpfulScore: row.helpfulScore,
+    user: row.user,
+    userVote: row.userVote,
+  };
+}
+
+/**
+ * The review columns to write when a rating is saved with `input`: nothing
+ * when the review is left out, everything reset when it is null (the caller
+ * also deletes the review's votes). A changed
+ * body moves reviewed_at to now; the spoiler flag only applies to a review.
+ */
+export function reviewChanges(
+  existing: Pick<Rating, "review"> | undefined,
+  input: ReviewInput = {},
+): Partial<ReviewFields> {
+  if (input.review === null) {
+    return {
+      review: null,
+      spoiler: false,
+      reviewedAt: null,
+      helpfulCount: 0,
+      notHelpfulCount: 0,
+      helpfulScore: 0,
+    };
+  }
+
+  const changes: Partial<ReviewFields> = {};
+  if (input.review !== undefined && input.review !== existing?.review) {
+    changes.review = input.review;
+    changes.reviewedAt = new Date();
+  }
+  if (input.spoiler !== undefined && (input.review ?? existing?.review)) {
+    changes.spoiler = input.spoiler;
+  }
+  return changes;
+}
+
+export function reviewCursorFor(review: Review, sort: ReviewSortField): Cursor {
+  const value = sort === "newest" ? review.reviewedAt.toISOString() : review.helpfulScore;
+  return { value, id: review.id };
+}
+
+export function decodeReviewCursor(raw: string, sort: ReviewSortField): Cursor {
+  const cursor = readCursor(raw);
+  const valid =
+    sort === "newest"
+      ? typeof cursor.value === "string" && !isNaN(Date.parse(cursor.value))
+      : typeof cursor.value === "number" && cursor.value >= 0 && cursor.value <= 1;
+  if (!valid) throw new InvalidCursorError();
+  return cursor;
+}
+
+/** Whether the review comes after the cursor's position in the listing. */
+export function isAfterReviewCursor(review: Review, cursor: Cursor, sort: ReviewSortField): boolean {
+  const key = (value: string | number) => (sort === "newest" ? Date.parse(String(value)) : Number(value));
+  const value = key(reviewCursorFor(review, sort).value);
+  const after = key(cursor.value);
+  return value < after || (value === after && review.id < cursor.id);
+}
+
+/** Descending comparison: negative when `a` comes first in the listing. */
+export function compareReviews(a: Review, b: Review, sort: ReviewSortField): number {
+  const byValue =
+    sort === "newest"
+      ? b.reviewedAt.getTime() - a.reviewedAt.getTime()
+      : b.helpfulScore - a.helpfulScore;
+  return byValue || b.id - a.id;
+}
+
+/** Turns `limit + 1` reviews into a page, like toPage does for movies. */
+export function toReviewPage(rows: Review[], limit: number, sort: ReviewSortField): ReviewListResponse {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(reviewCursorFor(last, sort)) : null,
+  };
+}
@@ -1,29 +1,160 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertMovieSchema } from "@shared/schema";
+import { getStorage, type IStorage } from "./storage";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { InvalidCursorError } from "./pagination";
+import { chartMinVotes } from "./charts";
+import { DuplicateCreditError } from "./people";
+import { OwnReviewVoteError } from "./reviews";
+import { UnknownCriterionError } from "./criteria";
+import { isOnScale, ratingScale } from "./scale";
+import { attachLiveUpdates } from "./live";
+import { generateWebhookSecret, toPublicWebhook } from "./webhooks";
+import {
+  InvalidPosterError,
+  POSTER_THUMBNAILS_JOB,
+  PosterTooLargeError,
+  receivePoster,
+  savePoster,
+} from "./posters";
+import { InvalidImportError, importMovies, receiveImport } from "./imports";
+import multer from "multer";
+import {
+  insertMovieSchema,
+  updateMovieSchema,
+  movieListQuerySchema,
+  movieImportQuerySchema,
+  movieSearchQuerySchema,
+  topChartQuerySchema,
+  insertPersonSchema,
+  updatePersonSchema,
+  personListQuerySchema,
+  movieCreditSchema,
+  updateCreditSchema,
+  reviewInputSchema,
+  reviewListQuerySchema,
+  reviewVoteSchema,
+  insertCriterionSchema,
+  criterionScoresSchema,
+  insertWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryListQuerySchema,
+  jobListQuerySchema,
+  isValidYear,
+  type AppConfig,
+} from "@shared/schema";
 import { z } from "zod";
 
 export async function registerRoutes(
   httpServer: Server,
-  app: Express
+  app: Express,
+  storage: IStorage = getStorage(),
 ): Promise<Server> {
-  await storage.seedMovies();
+  setupAuth(app, storage);
+  await attachLiveUpdates(httpServer, storage);
 
-  app.get("/api/movies", async (_req, res) => {
+  app.get("/api/config", (_req, res) => {
+    res.json({ ratingScale: ratingScale() } satisfies AppConfig);
+  });
+
+  app.get("/api/movies", async (req, res) => {
     try {
-      const movies = await storage.getAllMovies();
-      res.json(movies);
+      const query = movieListQuerySchema.parse(req.query);
+      if (query.minRating !== undefined && query.minRating > ratingScale().max) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      const page = await storage.listMovies(query);
+      res.json(page);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      if (err instanceof InvalidCursorError) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
       res.status(500).json({ error: "Failed to fetch movies" });
     }
   });
 
-  app.post("/api/movies", async (req, res) => {
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = movieSearchQuerySchema.parse(req.query);
+      const items = await storage.searchMovies(query);
+      res.json({ items });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      res.status(500).json({ error: "Failed to search movies" });
+    }
+  });
+
+  app.get("/api/charts/top", async (req, res) => {
+    try {
+      const query = topChartQuerySchema.parse(req.query);
+      const chart = await storage.getTopRated({
+        ...query,
+        minVotes: query.minVotes ?? chartMinVotes(),
+      });
+      res.json(chart);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      res.status(500).json({ error: "Failed to fetch chart" });
+    }
+  });
+
+  app.get("/api/genres", async (_req, res) => {
+    try {
+      const items = await storage.listGenres();
+      res.json({ items });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch genres" });
+    }
+  });
+
+  app.get("/api/criteria", async (_req, res) => {
+    try {
+      const items = await storage.listCriteria();
+      res.json({ items });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch criteria" });
+    }
+  });
+
+  // Creates a criterion, or renames / moves the one with the same slug.
+  app.post("/api/criteria", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertCriterionSchema.parse(req.body);
+      res.json(await storage.saveCriterion(parsed));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to save criterion" });
+    }
+  });
+
+  app.delete("/api/criteria/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const deleted = await storage.deleteCriterion(id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete criterion" });
+    }
+  });
+
+  app.post("/api/movies", requireAuth, async (req, res) => {
     try {
       const parsed = insertMovieSchema.parse(req.body);
       const year = Number(parsed.year);
-      if (!Number.isInteger(year) || year < 1888 || year > new Date().getFullYear()) {
+      if (!isValidYear(year)) {
         return res.status(400).json({ error: "Invalid year" });
       }
       const movie = await storage.addMovie({ ...parsed, year });
@@ -36,49 +167,497 @@ export async function registerRoutes(
     }
   });
 
+  // Adds movies in bulk from a CSV or JSON file; see server/imports.ts.
+  app.post("/api/movies/import", requireAuth, async (req, res) => {
+    try {
+      const { dryRun } = movieImportQuerySchema.parse(req.query);
+      const file = await receiveImport(req, res);
+      res.json(await importMovies(storage, file, { dryRun }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      if (err instanceof multer.MulterError) {
+        return err.code === "LIMIT_FILE_SIZE"
+          ? res.status(413).json({ error: "Import too large" })
+          : res.status(400).json({ error: "Invalid upload" });
+      }
+      if (err instanceof InvalidImportError) {
+        return res.status(400).json({ error: err.message });
+      }
+      res.status(500).json({ error: "Failed to import movies" });
+    }
+  });
+
   app.get("/api/movies/:id", async (req, res) => {
     try {
       const id = Number(req.params.id);
       if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
 
       const movie = await storage.getMovieById(id);
-      if (!movie) return res.status(404).json({ error: "Not found" });
+      const summary = await storage.getRatingSummary(id);
+      if (!movie || !summary) return res.status(404).json({ error: "Not found" });
 
-      const ratingScores = await storage.getRatingsForMovie(id);
-      const avgRating = ratingScores.length > 0
-        ? Math.round((ratingScores.reduce((a, b) => a + b, 0) / ratingScores.length) * 10) / 10
-        : 0;
+      const userRating = req.user ? await storage.getUserRating(id, req.user.id) : undefined;
+      const userReview = req.user ? await storage.getReview(id, req.user.id) : undefined;
+      const criteria = await storage.getCriterionAverages(id);
+      const userCriteria = req.user ? await storage.getUserCriterionScores(id, req.user.id) : {};
 
       res.json({
         ...movie,
-        avgRating,
-        totalRatings: ratingScores.length,
-        ratings: ratingScores,
+        ...summary,
+        userRating: userRating ?? null,
+        userReview: userReview ?? null,
+        criteria,
+        userCriteria,
       });
     } catch (err) {
       res.status(500).json({ error: "Failed to fetch movie" });
     }
   });
 
-  app.post("/api/movies/:id/rate", async (req, res) => {
+  app.patch("/api/movies/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const parsed = updateMovieSchema.parse(req.body);
+      if (Object.keys(parsed).length === 0) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      if (parsed.year !== undefined && !isValidYear(Number(parsed.year))) {
+        return res.status(400).json({ error: "Invalid year" });
+      }
+
+      const movie = await storage.updateMovie(id, parsed);
+      if (!movie) return res.status(404).json({ error: "Not found" });
+
+      res.json(movie);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to update movie" });
+    }
+  });
+
+  app.delete("/api/movies/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const deleted = await storage.deleteMovie(id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete movie" });
+    }
+  });
+
+  app.post("/api/movies/:id/poster", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+      if (!(await storage.getMovieById(id))) return res.status(404).json({ error: "Not found" });
+
+      const file = await receivePoster(req, res);
+      if (!file) return res.status(400).json({ error: "No poster uploaded" });
+
+      const key = await savePoster(file.buffer);
+      await storage.enqueueJob(POSTER_THUMBNAILS_JOB, { key }, { key: `${POSTER_THUMBNAILS_JOB}:${key}` });
+      const movie = await storage.setMoviePoster(id, key);
+      if (!movie) return res.status(404).json({ error: "Not found" });
+
+      res.json(movie);
+    } catch (err) {
+      if (err instanceof multer.MulterError) {
+        return err.code === "LIMIT_FILE_SIZE"
+          ? res.status(413).json({ error: "Poster too large" })
+          : res.status(400).json({ error: "Invalid upload" });
+      }
+      if (err instanceof PosterTooLargeError) {
+        return res.status(413).json({ error: "Poster too large" });
+      }
+      if (err instanceof InvalidPosterError) {
+        return res.status(415).json({ error: "Unsupported image type" });
+      }
+      res.status(500).json({ error: "Failed to upload poster" });
+    }
+  });
+
+  app.post("/api/movies/:id/rate", requireAuth, async (req, res) => {
     try {
       const id = Number(req.params.id);
       const score = Number(req.body.score);
+      const scale = ratingScale();
 
       if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
-      if (!Number.isInteger(score) || score < 1 || score > 5) {
+      if (!isOnScale(score, scale)) {
         return res.status(400).json({ error: "Invalid rating" });
       }
+      const review = reviewInputSchema.safeParse(req.body);
+      if (!review.success) return res.status(400).json({ error: "Invalid review" });
+      const criteria = criterionScoresSchema.optional().safeParse(req.body.criteria);
+      if (!criteria.success || !Object.values(criteria.data ?? {}).every((s) => isOnScale(s, scale))) {
+        return res.status(400).json({ error: "Invalid criteria" });
+      }
 
       const movie = await storage.getMovieById(id);
       if (!movie) return res.status(404).json({ error: "Not found" });
 
-      const result = await storage.addRating(id, score);
+      const result = await storage.addRating(id, score, req.user!.id, { ...review.data, criteria: criteria.data });
       res.json(result);
     } catch (err) {
+      if (err instanceof UnknownCriterionError) {
+        return res.status(400).json({ error: "Unknown criterion" });
+      }
       res.status(500).json({ error: "Failed to add rating" });
     }
   });
 
+  app.delete("/api/movies/:id/rate", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const result = await storage.deleteRating(id, req.user!.id);
+      if (!result) return res.status(404).json({ error: "Not found" });
+
+      res.json(result);
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete rating" });
+    }
+  });
+
+  app.get("/api/movies/:id/reviews", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const query = reviewListQuerySchema.parse(req.query);
+      if (!(await storage.getMovieById(id))) return res.status(404).json({ error: "Not found" });
+
+      res.json(await storage.listReviews(id, query, req.user?.id));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      if (err instanceof InvalidCursorError) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/reviews/:id/vote", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const vote = reviewVoteSchema.safeParse(req.body);
+      if (!vote.success) return res.status(400).json({ error: "Invalid vote" });
+
+      const result = await storage.voteOnReview(id, req.user!.id, vote.data.helpful);
+      if (!result) return res.status(404).json({ error: "Not found" });
+
+      res.json(result);
+    } catch (err) {
+      if (err instanceof OwnReviewVoteError) {
+        return res.status(403).json({ error: "You can't vote on your own review" });
+      }
+      res.status(500).json({ error: "Failed to vote on review" });
+    }
+  });
+
+  app.delete("/api/reviews/:id/vote", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const result = await storage.retractReviewVote(id, req.user!.id);
+      if (!result) return res.status(404).json({ error: "Not found" });
+
+      res.json(result);
+    } catch (err) {
+      res.status(500).json({ error: "Failed to retract vote" });
+    }
+  });
+
+  app.get("/api/people", async (req, res) => {
+    try {
+      const query = personListQuerySchema.parse(req.query);
+      const items = await storage.listPeople(query);
+      res.json({ items });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query" });
+      }
+      res.status(500).json({ error: "Failed to fetch people" });
+    }
+  });
+
+  app.post("/api/people", requireAuth, async (req, res) => {
+    try {
+      const parsed = insertPersonSchema.parse(req.body);
+      const person = await storage.createPerson(parsed);
+      res.status(201).json(person);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to add person" });
+    }
+  });
+
+  app.get("/api/people/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const person = await storage.getPerson(id);
+      if (!person) return res.status(404).json({ error: "Not found" });
+
+      res.json(person);
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch person" });
+    }
+  });
+
+  app.patch("/api/people/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const parsed = updatePersonSchema.parse(req.body);
+      if (Object.keys(parsed).length === 0) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+
+      const person = await storage.updatePerson(id, parsed);
+      if (!person) return res.status(404).json({ error: "Not found" });
+
+      res.json(person);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to update person" });
+    }
+  });
+
+  app.delete("/api/people/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const deleted = await storage.deletePerson(id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete person" });
+    }
+  });
+
+  app.get("/api/movies/:id/credits", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const movie = await storage.getMovieById(id);
+      if (!movie) return res.status(404).json({ error: "Not found" });
+
+      const items = await storage.getMovieCredits(id);
+      res.json({ items });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch credits" });
+    }
+  });
+
+  app.post("/api/movies/:id/credits", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const parsed = movieCreditSchema.parse(req.body);
+      const movie = await storage.getMovieById(id);
+      if (!movie) return res.status(404).json({ error: "Not found" });
+      const person = await storage.getPerson(parsed.personId);
+      if (!person) return res.status(400).json({ error: "Unknown person" });
+
+      const credit = await storage.addCredit({ ...parsed, movieId: id });
+      res.status(201).json(credit);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      if (err instanceof DuplicateCreditError) {
+        return res.status(409).json({ error: "Credit already exists" });
+      }
+      res.status(500).json({ error: "Failed to add credit" });
+    }
+  });
+
+  app.patch("/api/credits/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const parsed = updateCreditSchema.parse(req.body);
+      if (Object.keys(parsed).length === 0) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+
+      const credit = await storage.updateCredit(id, parsed);
+      if (!credit) return res.status(404).json({ error: "Not found" });
+
+      res.json(credit);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      if (err instanceof DuplicateCreditError) {
+        return res.status(409).json({ error: "Credit already exists" });
+      }
+      res.status(500).json({ error: "Failed to update credit" });
+    }
+  });
+
+  app.delete("/api/credits/:id", requireAuth, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const deleted = await storage.deleteCredit(id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete credit" });
+    }
+  });
+
+  app.get("/api/admin/webhooks", requireAdmin, async (_req, res) => {
+    try {
+      const items = await storage.listWebhooks();
+      res.json({ items: items.map(toPublicWebhook) });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
+
+  // The only response that includes the secret.
+  app.post("/api/admin/webhooks", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({ ...parsed, secret: parsed.secret ?? generateWebhookSecret() });
+      res.status(201).json(webhook);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to add webhook" });
+    }
+  });
+
+  app.patch("/api/admin/webhooks/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const parsed = updateWebhookSchema.parse(req.body);
+      if (Object.keys(parsed).length === 0) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+
+      const webhook = await storage.updateWebhook(id, parsed);
+      if (!webhook) return res.status(404).json({ error: "Not found" });
+
+      res.json(toPublicWebhook(webhook));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid fields" });
+      }
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/admin/webhooks/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const deleted = await storage.deleteWebhook(id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  app.get("/api/admin/webhooks/:id/deliveries", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+      const query = webhookDeliveryListQuerySchema.safeParse(req.query);
+      if (!query.success) return res.status(400).json({ error: "Invalid query" });
+
+      if (!(await storage.getWebhook(id))) return res.status(404).json({ error: "Not found" });
+      res.json({ items: await storage.listWebhookDeliveries(id, query.data.limit) });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+  });
+
+  // Queues a "ping" delivery; its outcome shows in the delivery log.
+  app.post("/api/admin/webhooks/:id/test", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const webhook = await storage.getWebhook(id);
+      if (!webhook) return res.status(404).json({ error: "Not found" });
+
+      res.status(202).json(await storage.addWebhookDelivery(id, "ping", { webhook: toPublicWebhook(webhook) }));
+    } catch (err) {
+      res.status(500).json({ error: "Failed to send test delivery" });
+    }
+  });
+
+  // Queues a copy of an earlier delivery, as a new delivery.
+  app.post("/api/admin/webhooks/deliveries/:id/redeliver", requireAdmin, async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid ID" });
+
+      const original = await storage.getWebhookDelivery(id);
+      if (!original) return res.status(404).json({ error: "Not found" });
+
+      res.status(202).json(await storage.addWebhookDelivery(original.webhookId, original.event, original.payload));
+    } catch (err) {
+      res.status(500).json({ error: "Failed to redeliver" });
+    }
+  });
+
+  // The job queue at a glance: counts per job and status, the schedules,
+  // and the latest jobs matching ?status= and ?name=.
+  app.get("/api/admin/jobs", requireAdmin, async (req, res) => {
+    try {
+      const query = jobListQuerySchema.safeParse(req.query);
+      if (!query.success) return res.status(400).json({ error: "Invalid query" });
+
+      const [counts, schedules, items] = await Promise.all([
+        storage.countJobs(),
+        storage.listJobSchedules(),
+        storage.listJobs(query.data),
+      ]);
+      res.json({ counts, schedules, items });
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,92 @@
+import { DEFAULT_RATING_SCALE, ratingScaleSchema, type RatingScale } from "@shared/schema";
+import type { IStorage, RatingRescaleResult } from "./storage";
+
+// Scores are stored on the configured rating scale, and storage records
+// which scale that is (the "rating_scale" setting). When the configuration
+// changes, every stored score is moved onto the new scale by
+// rescaleRatings: min to min and max to max with the values between spread
+// evenly, then snapped to its steps, so 1-5 stars become 1, 3, 6, 8 and 10
+// points.
+
+export class InvalidRatingScaleError extends Error {
+  constructor(message: string) {
+    super(`Invalid rating scale: ${message}`);
+    this.name = "InvalidRatingScaleError";
+  }
+}
+
+export class RatingScaleMismatchError extends Error {
+  constructor(stored: RatingScale, configured: RatingScale) {
+    super(
+      `Ratings are stored on ${describeScale(stored)} but ${describeScale(configured)} is configured; run \`npm run ratings:rescale\``,
+    );
+    this.name = "RatingScaleMismatchError";
+  }
+}
+
+/**
+ * The configured scale. Unlike other settings an invalid one throws rather
+ * than falling back to the default, since that would rescale every rating.
+ */
+export function ratingScale(): RatingScale {
+  const setting = (name: string, fallback: number) =>
+    process.env[name] === undefined || process.env[name] === "" ? fallback : Number(process.env[name]);
+  const parsed = ratingScaleSchema.safeParse({
+    min: setting("RATING_SCALE_MIN", DEFAULT_RATING_SCALE.min),
+    max: setting("RATING_SCALE_MAX", DEFAULT_RATING_SCALE.max),
+    step: setting("RATING_SCALE_STEP", DEFAULT_RATING_SCALE.step),
+  });
+  if (!parsed.success) throw new InvalidRatingScaleError(parsed.error.issues[0].message);
+  return parsed.data;
+}
+
+export function describeScale({ min, max, step }: RatingScale): string {
+  return `${min}-${max} in steps of ${step}`;
+}
+
+export function sameScale(a: RatingScale, b: RatingScale): boolean {
+  return a.min === b.min && a.max === b.max && a.step === b.step;
+}
+
+/** Drops the float noise of step arithmetic, so 0.1 * 3 reads 0.3. */
+function tidy(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/** Whether `score` is one of the scale's values. */
+export function isOnScale(score: unknown, scale: RatingScale): score is number {
+  if (typeof score !== "number" || !Number.isFinite(score)) return false;
+  if (score < scale.min || score > scale.max) return false;
+  const steps = (score - scale.min) / scale.step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
+
+/** The scale's value nearest to `value`. */
+export function snapToScale(value: number, scale: RatingScale): number {
+  const steps = Math.round((value - scale.min) / scale.step);
+  const snapped = tidy(scale.min + steps * scale.step);
+  return Math.min(scale.max, Math.max(scale.min, snapped));
+}
+
+/** Moves a score from one scale onto another. */
+export function rescaleScore(score: number, from: RatingScale, to: RatingScale): number {
+  const position = (score - from.min) / (from.max - from.min);
+  return snapToScale(to.min + position * (to.max - to.min), to);
+}
+
+/**
+ * Brings the stored ratings onto the configured scale. A store without
+ * scores just takes the configured scale. With `rescale` off, as at
+ * startup, any other mismatch throws RatingScaleMismatchError instead, so
+ * the server never serves scores on the wrong scale.
+ */
+export async function ensureRatingScale(
+  storage: Pick<IStorage, "getRatingScale" | "adoptRatingScale" | "rescaleRatings">,
+  { rescale }: { rescale: boolean },
+  configured: RatingScale = ratingScale(),
+): Promise<RatingRescaleResult | undefined> {
+  const stored = await storage.getRatingScale();
+  if (sameScale(stored, configured) || (await storage.adoptRatingScale(configured))) return undefined;
+  if (!rescale) throw new RatingScaleMismatchError(stored, configured);
+  return storage.rescaleRatings(configured);
+}
@@ -0,0 +1,122 @@
+import type { SearchMatch } from "@shared/schema";
+
+// An approximation of pg_trgm, used to rank search results in MemStorage and
+// to compute highlight ranges for both storage drivers.
+
+/** Minimum word similarity for a fuzzy (misspelled) title match. */
+export const WORD_SIMILARITY_THRESHOLD = 0.3;
+
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\u024F]+/g;
+
+type Word = { text: string; start: number; end: number };
+
+function words(value: string): Word[] {
+  return Array.from(value.matchAll(WORD_PATTERN), (m) => ({
+    text: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+/** pg_trgm-style trigrams: each word padded with two leading spaces and one trailing. */
+function trigrams(value: string): Set<string> {
+  const result = new Set<string>();
+  for (const { text } of words(value)) {
+    const padded = `  ${text} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+export function similarity(a: string, b: string): number {
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+
+  let shared = 0;
+  ta.forEach((t) => {
+    if (tb.has(t)) shared++;
+  });
+  return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Best similarity between the query and any run of consecutive title words
+ * of the same length, so "godfater" scores well against "The Godfather".
+ */
+export function wordSimilarity(query: string, title: string): number {
+  const queryWords = words(query);
+  const titleWords = words(title);
+  if (queryWords.length === 0 || titleWords.length === 0) return 0;
+
+  const size = Math.min(queryWords.length, titleWords.length);
+  const normalizedQuery = queryWords.map((w) => w.text).join(" ");
+  let best = 0;
+  for (let i = 0; i + size <= titleWords.length; i++) {
+    const window = titleWords.slice(i, i + size).map((w) => w.text).join(" ");
+    best = Math.max(best, similarity(normalizedQuery, window));
+  }
+  return best;
+}
+
+/**
+ * Relevance of a title for a query, or null when it doesn't match at all.
+ * Whole-word and prefix hits outrank fuzzy ones, mirroring the tsvector +
+ * trigram ranking used in Postgres.
+ */
+export function rankTitle(query: string, title: string): number | null {
+  const queryWords = words(query);
+  const titleWords = words(title);
+  if (queryWords.length === 0) return null;
+
+  const wordHits = queryWords.filter((q) => titleWords.some((t) => t.text.startsWith(q.text))).length;
+  const fuzzy = wordSimilarity(query, title);
+  const substring = title.toLowerCase().includes(query.trim().toLowerCase());
+
+  if (wordHits < queryWords.length && fuzzy < WORD_SIMILARITY_THRESHOLD && !substring) {
+    return null;
+  }
+  return wordHits / queryWords.length + fuzzy;
+}
+
+/** Character ranges of the title to highlight for the query. */
+export function highlightMatches(query: string, title: string): SearchMatch[] {
+  const ranges: SearchMatch[] = [];
+  const lowerTitle = title.toLowerCase();
+
+  for (const q of words(query)) {
+    for (const t of words(title)) {
+      const offset = t.text.indexOf(q.text);
+      if (offset !== -1) {
+        ranges.push({ start: t.start + offset, end: t.start + offset + q.text.length });
+      } else if (similarity(q.text, t.text) >= WORD_SIMILARITY_THRESHOLD) {
+        ranges.push({ start: t.start, end: t.end });
+      }
+    }
+  }
+
+  // Phrases spanning punctuation ("singin' in") are matched as a whole too.
+  const phrase = query.trim().toLowerCase();
+  const phraseAt = phrase.length > 0 ? lowerTitle.indexOf(phrase) : -1;
+  if (phraseAt !== -1) {
+    ranges.push({ start: phraseAt, end: phraseAt + phrase.length });
+  }
+
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: SearchMatch[]): SearchMatch[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: SearchMatch[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
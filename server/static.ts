@@ -1,6 +1,7 @@
 import express, { type Express } from "express";
 import fs from "fs";
 import path from "path";
+import { posterDir } from "./posters";
 
 export function serveStatic(app: Express) {
   const distPath = path.resolve(__dirname, "public");
@@ -17,3 +18,15 @@ export function serveStatic(app: Express) {
     res.sendFile(path.resolve(distPath, "index.html"));
   });
 }
+
+/**
+ * Serves uploaded posters from /posters. Poster files are named by a hash of
+ * their content, so they can be cached for a year without revalidating; a
+ * missing one is a plain 404 rather than the client's index.html.
+ */
+export function servePosters(app: Express, dir = posterDir()) {
+  app.use(
+    "/posters",
+    express.static(dir, { immutable: true, maxAge: "1y", index: false, fallthrough: false }),
+  );
+}
@@ -1,58 +1,670 @@
-import { movies, ratings, type InsertMovie, type Movie, type MovieWithStats, type MovieDetail } from "@shared/schema";
-import { eq, sql, desc, asc } from "drizzle-orm";
-import { drizzle } from "drizzle-orm/node-postgres";
-import pg from "pg";
+import { users, movies, ratings, reviewVotes, ratingCriteria, criterionScores, settings, webhooks, webhookDeliveries, genres, movieGenres, people, credits, type InsertUser, type User, type InsertMovie, type UpdateMovie, type Movie, type Rating, type MovieWithStats, type Genre, type InsertGenre, type GenreWithStats, type Person, type InsertPerson, type UpdatePerson, type PersonDetail, type PersonListQuery, type Credit, type InsertCredit, type UpdateCredit, type MovieCredit, type MovieListQuery, type MovieListResponse, type MovieSearchQuery, type MovieSearchResult, type TopChartResponse, type RatingStats, type RatingSummary, type RatingResult, type Review, type ReviewInput, type ReviewListQuery, type ReviewListResponse, type ReviewVote, type ReviewVoteResult, type RatingCriterion, type InsertCriterion, type CriterionScore, type CriterionAverage, type CriterionScores, type RatingDetails, type RatingScale, type Webhook, type InsertWebhook, type UpdateWebhook, type WebhookDelivery, jobs, jobSchedules, type Job, type JobSchedule, type JobListQuery, type JobCounts, type JobStatus, jobStatuses, DEFAULT_RATING_SCALE, ratingScaleSchema } from "@shared/schema";
+import { and, or, eq, gte, lt, lte, ilike, inArray, isNotNull, exists, sql, desc, asc, getTableColumns, type AnyColumn, type SQL } from "drizzle-orm";
+import { getDb, type Database, type Transaction } from "./db";
+import { LocalEventBus, PgEventBus, notify, type DomainEvent, type EventBus } from "./events";
+import { WEBHOOK_JOB, webhookData } from "./webhooks";
+import { nextCronRun } from "./cron";
+import { compareCursors, cursorFor, decodeCursor, resolveOrder, toPage } from "./pagination";
+import { WORD_SIMILARITY_THRESHOLD, highlightMatches, rankTitle } from "./search";
+import { bayesianScore, roundScore } from "./charts";
+import { defaultGenreColor, genreSlug } from "./genres";
+import { compareCriteria, criterionSlug, resolveCriterionScores, toCriterionAverages } from "./criteria";
+import { DuplicateCreditError, buildPersonDetail } from "./people";
+import { ratingScale, rescaleScore, sameScale } from "./scale";
+import { OwnReviewVoteError, compareReviews, decodeReviewCursor, isAfterReviewCursor, reviewChanges, tallyVote, toReview, toReviewPage } from "./reviews";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL is required");
-}
+export type RatingAggregates = {
+  count: number;
+  sum: number;
+  /** Ratings per score, keyed by the score as text; scores nobody gave are left out. */
+  histogram: Record<string, number>;
+};
+
+export type RatingAggregateDrift = {
+  movieId: number;
+  title: string;
+  stored: RatingAggregates;
+  actual: RatingAggregates;
+};
+
+export type RatingRescaleResult = {
+  from: RatingScale;
+  to: RatingScale;
+  /** How many ratings and criterion scores changed value. */
+  ratings: number;
+  criterionScores: number;
+};
+
+/** A due webhook delivery, claimed for one worker to attempt. */
+export type ClaimedDelivery = {
+  delivery: WebhookDelivery;
+  webhook: Webhook;
+};
 
-const pool = new pg.Pool({
-  connectionString: process.env.DATABASE_URL,
-});
+/** The outcome of one attempt at a webhook delivery. */
+export type DeliveryAttempt = {
+  responseStatus: number | null;
+  /** Why the attempt failed; null when it succeeded. */
+  error: string | null;
+  /** After a failure, how long until the next attempt; null gives up. */
+  retryInMs: number | null;
+  /** Failed attempts in a row after which the webhook is disabled. */
+  disableAfter: number;
+};
 
-const db = drizzle(pool);
+export type EnqueueJobOptions = {
+  /** How long until the job is due; now by default. */
+  delayMs?: number;
+  /** Skips the job while another with this key is waiting for its first attempt. */
+  key?: string;
+};
+
+/** A recurring job as declared in code: the job `name` is enqueued whenever `cron` matches. */
+export type JobScheduleDefinition = {
+  name: string;
+  cron: string;
+};
+
+export type TopChartOptions = {
+  minVotes: number;
+  genre?: string;
+  decade?: number;
+  limit: number;
+};
 
 export interface IStorage {
+  /**
+   * Events for every movie created or updated and every rating given, from
+   * this process and (with Postgres) every other one on the same database.
+   */
+  readonly events: EventBus;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(data: InsertUser): Promise<User>;
   getAllMovies(): Promise<MovieWithStats[]>;
+  /** Filtered, sorted, keyset-paginated listing behind GET /api/movies. */
+  listMovies(query: MovieListQuery): Promise<MovieListResponse>;
+  /** Title search tolerant of partial words and typos, best match first. */
+  searchMovies(query: MovieSearchQuery): Promise<MovieSearchResult[]>;
+  /**
+   * Movies with at least `minVotes` ratings ranked by Bayesian weighted score,
+   * optionally limited to a genre and/or a decade (e.g. 1990 for the 90s).
+   */
+  getTopRated(options: TopChartOptions): Promise<TopChartResponse>;
+  /** Every genre by name, with how many movies carry it and the mean of their ratings. */
+  listGenres(): Promise<GenreWithStats[]>;
+  /** Creates the genre, or renames and recolors the existing one with the same slug. */
+  saveGenre(data: InsertGenre): Promise<Genre>;
+  /** Rating criteria in position order, then by name. */
+  listCriteria(): Promise<RatingCriterion[]>;
+  /**
+   * Creates the criterion, or renames (and with `position`, moves) the
+   * existing one with the same slug. New criteria go last by default.
+   */
+  saveCriterion(data: InsertCriterion): Promise<RatingCriterion>;
+  /** Also removes every score given on the criterion. */
+  deleteCriterion(id: number): Promise<boolean>;
+  /** Every criterion with the movie's mean score on it. */
+  getCriterionAverages(movieId: number): Promise<CriterionAverage[]>;
+  /** The user's criterion scores for the movie by slug; empty when they haven't rated it. */
+  getUserCriterionScores(movieId: number, userId: number): Promise<CriterionScores>;
   getMovieById(id: number): Promise<Movie | undefined>;
   getRatingsForMovie(movieId: number): Promise<number[]>;
+  /** The movie's rating aggregates as stored with it; undefined for unknown movies. */
+  getRatingSummary(movieId: number): Promise<RatingSummary | undefined>;
+  /** Genre names are resolved by slug; genres that don't exist yet are created. */
   addMovie(data: InsertMovie): Promise<Movie>;
-  addRating(movieId: number, score: number): Promise<{ avgRating: number; totalRatings: number }>;
-  seedMovies(): Promise<void>;
+  /** When `genres` is given it replaces the movie's genres. */
+  updateMovie(id: number, data: UpdateMovie): Promise<Movie | undefined>;
+  /** Also removes the movie's ratings (with their criterion scores and review votes) and credits. */
+  deleteMovie(id: number): Promise<boolean>;
+  /** Points the movie at an uploaded poster (see server/posters.ts), or clears it with null. */
+  setMoviePoster(id: number, posterKey: string | null): Promise<Movie | undefined>;
+  /** People whose name contains `q` (case-insensitive), by name. */
+  listPeople(query: PersonListQuery): Promise<Person[]>;
+  /** The person with their filmography and career average rating. */
+  getPerson(id: number): Promise<PersonDetail | undefined>;
+  createPerson(data: InsertPerson): Promise<Person>;
+  updatePerson(id: number, data: UpdatePerson): Promise<Person | undefined>;
+  /** Also removes the person's credits. */
+  deletePerson(id: number): Promise<boolean>;
+  /** Billed credits in billing order, then unbilled ones, each by name. */
+  getMovieCredits(movieId: number): Promise<MovieCredit[]>;
+  /** Throws DuplicateCreditError when the person already has the role on the movie. */
+  addCredit(data: InsertCredit): Promise<Credit>;
+  /** Throws DuplicateCreditError when the new role is one the person already has. */
+  updateCredit(id: number, data: UpdateCredit): Promise<Credit | undefined>;
+  deleteCredit(id: number): Promise<boolean>;
+  getUserRating(movieId: number, userId: number): Promise<number | undefined>;
+  /** The user's review of the movie; undefined when they haven't written one. */
+  getReview(movieId: number, userId: number): Promise<Review | undefined>;
+  /** Reviewed ratings of the movie, newest or most helpful first, with `viewerId`'s vote on each. */
+  listReviews(movieId: number, query: ReviewListQuery, viewerId?: number): Promise<ReviewListResponse>;
+  /**
+   * Records the user's vote on a review, replacing their earlier one.
+   * Undefined when there is no such review; throws OwnReviewVoteError when
+   * the user wrote it.
+   */
+  voteOnReview(reviewId: number, userId: number, helpful: boolean): Promise<ReviewVoteResult | undefined>;
+  /** Removes the user's vote; undefined when they hadn't voted on the review. */
+  retractReviewVote(reviewId: number, userId: number): Promise<ReviewVoteResult | undefined>;
+  /**
+   * Records a score. With a userId this is an upsert: the user's existing
+   * rating for the movie is replaced and its score returned as previousScore.
+   * The review is kept unless `details.review` sets or (with null) removes
+   * it, and the criterion scores unless `details.criteria` replaces them;
+   * throws UnknownCriterionError for a criterion that doesn't exist.
+   */
+  addRating(movieId: number, score: number, userId?: number, details?: RatingDetails): Promise<RatingResult>;
+  /**
+   * Removes the user's rating with its criterion scores, review and the
+   * votes on it; undefined when they hadn't rated the movie.
+   */
+  deleteRating(movieId: number, userId: number): Promise<RatingStats | undefined>;
+  /**
+   * Rebuilds each movie's denormalized rating aggregates from the ratings
+   * themselves and returns the movies whose stored values had drifted.
+   * With dryRun nothing is written.
+   */
+  recomputeRatingAggregates(options?: { dryRun?: boolean }): Promise<RatingAggregateDrift[]>;
+  /** The scale stored scores are on; DEFAULT_RATING_SCALE until one is recorded. */
+  getRatingScale(): Promise<RatingScale>;
+  /**
+   * Records `scale` as the stored scale when no scores are stored, so there
+   * is nothing to move. Resolves whether the store is now on `scale`.
+   */
+  adoptRatingScale(scale: RatingScale): Promise<boolean>;
+  /**
+   * Moves every rating and criterion score onto `to` (see server/scale.ts),
+   * rebuilds the movie aggregates and records `to` as the stored scale.
+   */
+  rescaleRatings(to: RatingScale): Promise<RatingRescaleResult>;
+  /** Every webhook, oldest first. */
+  listWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(data: InsertWebhook & { secret: string }): Promise<Webhook>;
+  /** Setting `active` to true also clears the webhook's failure count. */
+  updateWebhook(id: number, data: UpdateWebhook): Promise<Webhook | undefined>;
+  /** Also removes the webhook's deliveries. */
+  deleteWebhook(id: number): Promise<boolean>;
+  /**
+   * Queues a delivery to one webhook outside the usual events, e.g. a test
+   * ping, due after `delayMs`.
+   */
+  addWebhookDelivery(webhookId: number, event: string, payload: Record<string, unknown>, delayMs?: number): Promise<WebhookDelivery>;
+  /** The webhook's deliveries, newest first. */
+  listWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  /**
+   * Claims up to `limit` due deliveries to active webhooks, oldest first,
+   * pushing each one's next attempt `leaseMs` out so no other worker takes
+   * it meanwhile.
+   */
+  claimWebhookDeliveries(limit: number, leaseMs: number): Promise<ClaimedDelivery[]>;
+  /**
+   * Records an attempt on the delivery and the webhook's failure count,
+   * disabling the webhook once `attempt.disableAfter` attempts in a row have
+   * failed.
+   */
+  recordDeliveryAttempt(id: number, attempt: DeliveryAttempt): Promise<WebhookDelivery | undefined>;
+  /**
+   * Queues a job for the handler called `name`. Returns undefined when it is
+   * skipped for its key.
+   */
+  enqueueJob(name: string, payload?: Record<string, unknown>, options?: EnqueueJobOptions): Promise<Job | undefined>;
+  /**
+   * Claims up to `limit` due jobs named by the keys of `maxAttempts`, oldest
+   * first, marking them running for `leaseMs`. Running jobs whose lease has
+   * lapsed, because their worker died, are claimed again, or dead-lettered
+   * when that was their name's last attempt.
+   */
+  claimJobs(maxAttempts: Record<string, number>, limit: number, leaseMs: number): Promise<Job[]>;
+  /**
+   * Records a claimed job as succeeded. `attempt` is the job's attempts when
+   * claimed: once the job has been claimed again or dead-lettered, the worker
+   * no longer holds it, so nothing changes and this resolves undefined.
+   */
+  completeJob(id: number, attempt: number): Promise<Job | undefined>;
+  /**
+   * Records a failed attempt, like completeJob only while the worker holds
+   * the job: it is due again after `retryInMs`, or dead-lettered when that is
+   * null.
+   */
+  failJob(id: number, attempt: number, error: string, retryInMs: number | null): Promise<Job | undefined>;
+  getJob(id: number): Promise<Job | undefined>;
+  /** Jobs matching the query, newest first. */
+  listJobs(query: JobListQuery): Promise<Job[]>;
+  /** Job counts per status for every job name, by name. */
+  countJobs(): Promise<JobCounts[]>;
+  /**
+   * Makes the stored schedules match `schedules`. New schedules, and ones
+   * whose cron changed, are next due at their cron's next match.
+   */
+  syncJobSchedules(schedules: JobScheduleDefinition[]): Promise<void>;
+  listJobSchedules(): Promise<JobSchedule[]>;
+  /**
+   * Queues a job for every due schedule, keyed by the schedule's name, and
+   * moves each on to its next match after now; runs missed while no worker
+   * was about are not caught up.
+   */
+  enqueueScheduledJobs(): Promise<Job[]>;
+  /** Deletes jobs that succeeded more than `succeededMs` ago and dead ones older than `deadMs`. */
+  pruneJobs(succeededMs: number, deadMs: number): Promise<number>;
+  /**
+   * Deletes every user, movie, genre, rating criterion, person, credit,
+   * rating, webhook and job, leaving the store on the configured rating
+   * scale. Job schedules are kept, as they come from the code.
+   */
+  clearData(): Promise<void>;
+}
+
+// Every public movie column; the search vector and rating aggregates are
+// internal (see InternalMovieColumn).
+const {
+  searchVector: _searchVector,
+  ratingCount: _ratingCount,
+  ratingSum: _ratingSum,
+  ratingHistogram: _ratingHistogram,
+  ...movieColumns
+} = getTableColumns(movies);
+
+// A reviewed rating with its author; user is null for anonymous ratings.
+const reviewColumns = {
+  id: ratings.id,
+  movieId: ratings.movieId,
+  score: ratings.score,
+  review: ratings.review,
+  spoiler: ratings.spoiler,
+  reviewedAt: ratings.reviewedAt,
+  helpfulCount: ratings.helpfulCount,
+  notHelpfulCount: ratings.notHelpfulCount,
+  helpfulScore: ratings.helpfulScore,
+  user: { id: users.id, username: users.username },
+};
+
+/** reviewColumns plus the given reader's vote on each review. */
+function reviewColumnsFor(viewerId: number | undefined) {
+  return {
+    ...reviewColumns,
+    userVote:
+      viewerId === undefined
+        ? sql<boolean | null>`null`
+        : sql<boolean | null>`(SELECT ${reviewVotes.helpful} FROM ${reviewVotes}
+            WHERE ${reviewVotes.ratingId} = ${ratings.id} AND ${reviewVotes.userId} = ${viewerId})`,
+  };
+}
+
+const RATING_SCALE_SETTING = "rating_scale";
+
+/** The lastError of a job dead-lettered because its last attempt's lease lapsed. */
+export const JOB_LEASE_LAPSED_ERROR = "The lease lapsed on the last attempt";
+
+/** The rating histogram key of a score. */
+function histogramKey(score: number): string {
+  return String(score);
+}
+
+/** `histogram` with `delta` added to the score's count, dropping the score at 0. */
+function bumpHistogram(histogram: SQL, score: number, delta: number): SQL {
+  const key = histogramKey(score);
+  const count = sql`COALESCE((${histogram} ->> ${key}::text)::int, 0) + ${delta}::int`;
+  return sql`CASE WHEN ${count} = 0 THEN ${histogram} - ${key}::text
+    ELSE jsonb_set(${histogram}, ARRAY[${key}::text], to_jsonb(${count})) END`;
+}
+
+/**
+ * A CASE expression moving `column`'s values from one scale onto another,
+ * with the values it changes; undefined when none change.
+ */
+function rescaleCases(
+  column: AnyColumn,
+  scores: number[],
+  from: RatingScale,
+  to: RatingScale,
+): { value: SQL; changed: number[] } | undefined {
+  const moves = scores
+    .map((score) => ({ score, rescaled: rescaleScore(score, from, to) }))
+    .filter((m) => m.score !== m.rescaled);
+  if (moves.length === 0) return undefined;
+  const cases = moves.map((m) => sql`WHEN ${m.score}::float8 THEN ${m.rescaled}::float8`);
+  return { value: sql`CASE ${column} ${sql.join(cases, sql` `)} END`, changed: moves.map((m) => m.score) };
+}
+
+const avgRatingSql = sql<number>`CASE WHEN ${movies.ratingCount} = 0 THEN 0
+  ELSE ROUND(${movies.ratingSum}::numeric / ${movies.ratingCount}, 1) END`;
+
+const ratingStatsColumns = {
+  avgRating: avgRatingSql.as("avg_rating"),
+  totalRatings: sql<number>`${movies.ratingCount}`.as("total_ratings"),
+};
+
+const ratingStatsReturning = {
+  avgRating: avgRatingSql,
+  totalRatings: movies.ratingCount,
+};
+
+// What a movie added without metadata has, matching the column defaults.
+const emptyMovieMetadata = {
+  runtimeMinutes: null,
+  synopsis: null,
+  originalLanguage: null,
+  country: null,
+  certification: null,
+  externalIds: {},
+  posterKey: null,
+};
+
+/** The fields that were given, so spreading them only overwrites those. */
+function definedFields<T extends object>(data: T): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]: Exclude<T[K], undefined>;
+  };
+}
+
+/** One entry per distinct slug, keeping the first name given for it. */
+function uniqueGenreNames(names: string[]): Map<string, string> {
+  const bySlug = new Map<string, string>();
+  for (const name of names) {
+    const slug = genreSlug(name);
+    if (!bySlug.has(slug)) bySlug.set(slug, name.trim());
+  }
+  return bySlug;
+}
+
+/** A LIKE pattern matching `text` anywhere, with its wildcards escaped. */
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return (err as { code?: string }).code === "23505";
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name);
+}
+
+function aggregatesEqual(a: RatingAggregates, b: RatingAggregates): boolean {
+  const keys = Object.keys(a.histogram);
+  return (
+    a.count === b.count &&
+    // Fractional scores don't add up exactly, so the order they were summed in shows.
+    Math.abs(a.sum - b.sum) < 1e-6 &&
+    keys.length === Object.keys(b.histogram).length &&
+    keys.every((key) => a.histogram[key] === b.histogram[key])
+  );
+}
+
+function roundAverage(scores: number[]): number {
+  if (scores.length === 0) return 0;
+  return Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10;
+}
+
+/** Folds (name, status, count) rows into one JobCounts per name. */
+function tallyJobs(rows: { name: string; status: JobStatus; count: number }[]): JobCounts[] {
+  const counts = new Map<string, JobCounts>();
+  for (const { name, status, count } of rows) {
+    if (!counts.has(name)) counts.set(name, { name, ...Object.fromEntries(jobStatuses.map((s) => [s, 0])) } as JobCounts);
+    counts.get(name)![status] += count;
+  }
+  return Array.from(counts.values()).sort(byName);
 }
 
 export class DatabaseStorage implements IStorage {
+  readonly events: EventBus;
+
+  constructor(private db: Database = getDb()) {
+    this.events = new PgEventBus(db.$client);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id));
+    return result[0] || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.username, username));
+    return result[0] || undefined;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values(data).returning();
+    return result[0];
+  }
+
   async getAllMovies(): Promise<MovieWithStats[]> {
-    const result = await db
-      .select({
-        id: movies.id,
-        title: movies.title,
-        year: movies.year,
-        genre: movies.genre,
-        createdAt: movies.createdAt,
-        avgRating: sql<number>`COALESCE(ROUND(AVG(${ratings.score})::numeric, 1), 0)`.as("avg_rating"),
-        totalRatings: sql<number>`COUNT(${ratings.id})::int`.as("total_ratings"),
-      })
+    const result = await this.db
+      .select({ ...movieColumns, ...ratingStatsColumns })
       .from(movies)
-      .leftJoin(ratings, eq(ratings.movieId, movies.id))
-      .groupBy(movies.id)
       .orderBy(asc(movies.title));
 
-    return result.map(r => ({
-      ...r,
-      avgRating: Number(r.avgRating),
-      totalRatings: Number(r.totalRatings),
-    }));
+    return this.attachGenres(
+      result.map(r => ({
+        ...r,
+        avgRating: Number(r.avgRating),
+        totalRatings: Number(r.totalRatings),
+      })),
+    );
+  }
+
+  async listMovies(query: MovieListQuery): Promise<MovieListResponse> {
+    const order = resolveOrder(query);
+    const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+
+    const stats = this.db
+      .select({ ...movieColumns, ...ratingStatsColumns })
+      .from(movies)
+      .as("stats");
+
+    // created_at is truncated to milliseconds so it round-trips through a
+    // JS Date in the cursor without skipping or repeating rows.
+    const sortKeys: Record<MovieListQuery["sort"], SQL> = {
+      title: sql`${stats.title}`,
+      year: sql`${stats.year}`,
+      avgRating: sql`${stats.avgRating}`,
+      totalRatings: sql`${stats.totalRatings}`,
+      createdAt: sql`date_trunc('milliseconds', ${stats.createdAt})`,
+    };
+    const sortKey = sortKeys[query.sort];
+
+    const conditions: SQL[] = [];
+    if (query.genre) conditions.push(this.hasGenre(stats.id, query.genre));
+    if (query.yearFrom !== undefined) conditions.push(gte(stats.year, query.yearFrom));
+    if (query.yearTo !== undefined) conditions.push(lte(stats.year, query.yearTo));
+    if (query.minRating !== undefined) conditions.push(sql`${stats.avgRating} >= ${query.minRating}`);
+    if (query.minVotes !== undefined) conditions.push(sql`${stats.totalRatings} >= ${query.minVotes}`);
+    if (query.minRuntime !== undefined) conditions.push(gte(stats.runtimeMinutes, query.minRuntime));
+    if (query.maxRuntime !== undefined) conditions.push(lte(stats.runtimeMinutes, query.maxRuntime));
+    if (query.certification) conditions.push(inArray(stats.certification, query.certification));
+    if (cursor) {
+      const casts: Record<MovieListQuery["sort"], string> = {
+        title: "text",
+        year: "int",
+        avgRating: "numeric",
+        totalRatings: "int",
+        createdAt: "timestamp",
+      };
+      const value = sql`${cursor.value}::${sql.raw(casts[query.sort])}`;
+      conditions.push(
+        order === "asc"
+          ? sql`(${sortKey}, ${stats.id}) > (${value}, ${cursor.id})`
+          : sql`(${sortKey}, ${stats.id}) < (${value}, ${cursor.id})`,
+      );
+    }
+
+    const direction = order === "asc" ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(stats)
+      .where(and(...conditions))
+      .orderBy(direction(sortKey), direction(stats.id))
+      .limit(query.limit + 1);
+
+    return toPage(
+      await this.attachGenres(
+        rows.map((r) => ({
+          ...r,
+          avgRating: Number(r.avgRating),
+          totalRatings: Number(r.totalRatings),
+        })),
+      ),
+      query,
+    );
+  }
+
+  async searchMovies(query: MovieSearchQuery): Promise<MovieSearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+    const fuzzy = sql`word_similarity(${query.q}, ${movies.title})`;
+    const rank = sql<number>`ts_rank(${movies.searchVector}, ${tsQuery}) + ${fuzzy}`;
+
+    const rows = await this.db
+      .select({ ...movieColumns, ...ratingStatsColumns, rank: rank.as("rank") })
+      .from(movies)
+      .where(
+        or(
+          sql`${movies.searchVector} @@ ${tsQuery}`,
+          sql`${fuzzy} >= ${WORD_SIMILARITY_THRESHOLD}`,
+          ilike(movies.title, containsPattern(query.q)),
+        ),
+      )
+      .orderBy(desc(rank), asc(movies.title))
+      .limit(query.limit);
+
+    return this.attachGenres(
+      rows.map((r) => ({
+        ...r,
+        avgRating: Number(r.avgRating),
+        totalRatings: Number(r.totalRatings),
+        rank: Number(r.rank),
+        matches: highlightMatches(query.q, r.title),
+      })),
+    );
+  }
+
+  async getTopRated({ minVotes, genre, decade, limit }: TopChartOptions): Promise<TopChartResponse> {
+    const [{ mean }] = await this.db
+      .select({ mean: sql<string | null>`SUM(${movies.ratingSum})::numeric / NULLIF(SUM(${movies.ratingCount}), 0)` })
+      .from(movies);
+    const globalMean = Number(mean ?? 0);
+
+    const votes = movies.ratingCount;
+    const weighted = sql<number>`(${votes}::numeric / (${votes} + ${minVotes})) * (${movies.ratingSum}::numeric / ${votes})
+      + (${minVotes}::numeric / (${votes} + ${minVotes})) * ${globalMean}`;
+
+    const conditions: SQL[] = [gte(votes, minVotes)];
+    if (genre) conditions.push(this.hasGenre(movies.id, genre));
+    if (decade !== undefined) {
+      conditions.push(gte(movies.year, decade), lte(movies.year, decade + 9));
+    }
+
+    const rows = await this.db
+      .select({ ...movieColumns, ...ratingStatsColumns, weightedScore: weighted.as("weighted_score") })
+      .from(movies)
+      .where(and(...conditions))
+      .orderBy(desc(weighted), desc(votes), asc(movies.title))
+      .limit(limit);
+
+    return {
+      minVotes,
+      globalMean: roundScore(globalMean),
+      items: await this.attachGenres(
+        rows.map((r) => ({
+          ...r,
+          avgRating: Number(r.avgRating),
+          totalRatings: Number(r.totalRatings),
+          weightedScore: roundScore(Number(r.weightedScore)),
+        })),
+      ),
+    };
+  }
+
+  async listGenres(): Promise<GenreWithStats[]> {
+    const result = await this.db
+      .select({
+        ...getTableColumns(genres),
+        movieCount: sql<number>`COUNT(${movies.id})::int`,
+        avgRating: sql<number>`CASE WHEN COALESCE(SUM(${movies.ratingCount}), 0) = 0 THEN 0
+          ELSE ROUND(SUM(${movies.ratingSum})::numeric / SUM(${movies.ratingCount}), 1) END`,
+      })
+      .from(genres)
+      .leftJoin(movieGenres, eq(movieGenres.genreId, genres.id))
+      .leftJoin(movies, eq(movies.id, movieGenres.movieId))
+      .groupBy(genres.id)
+      .orderBy(asc(genres.name));
+
+    return result.map((r) => ({ ...r, movieCount: Number(r.movieCount), avgRating: Number(r.avgRating) }));
+  }
+
+  async saveGenre(data: InsertGenre): Promise<Genre> {
+    const result = await this.db
+      .insert(genres)
+      .values({ ...data, slug: genreSlug(data.name) })
+      .onConflictDoUpdate({ target: genres.slug, set: { name: data.name, color: data.color } })
+      .returning();
+    return result[0];
+  }
+
+  async listCriteria(): Promise<RatingCriterion[]> {
+    return this.listCriteriaIn(this.db);
+  }
+
+  async saveCriterion({ name, position }: InsertCriterion): Promise<RatingCriterion> {
+    const result = await this.db
+      .insert(ratingCriteria)
+      .values({
+        slug: criterionSlug(name),
+        name,
+        position: position ?? sql`(SELECT COALESCE(MAX(${ratingCriteria.position}) + 1, 0) FROM ${ratingCriteria})`,
+      })
+      .onConflictDoUpdate({
+        target: ratingCriteria.slug,
+        set: position === undefined ? { name } : { name, position },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCriterion(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(criterionScores).where(eq(criterionScores.criterionId, id));
+      const result = await tx.delete(ratingCriteria).where(eq(ratingCriteria.id, id)).returning({ id: ratingCriteria.id });
+      return result.length > 0;
+    });
+  }
+
+  async getCriterionAverages(movieId: number): Promise<CriterionAverage[]> {
+    const totals = await this.db
+      .select({
+        criterionId: criterionScores.criterionId,
+        sum: sql<number>`SUM(${criterionScores.score})::float8`,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(criterionScores)
+      .innerJoin(ratings, eq(ratings.id, criterionScores.ratingId))
+      .where(eq(ratings.movieId, movieId))
+      .groupBy(criterionScores.criterionId);
+    return toCriterionAverages(await this.listCriteria(), totals);
+  }
+
+  async getUserCriterionScores(movieId: number, userId: number): Promise<CriterionScores> {
+    const rows = await this.db
+      .select({ slug: ratingCriteria.slug, score: criterionScores.score })
+      .from(criterionScores)
+      .innerJoin(ratings, eq(ratings.id, criterionScores.ratingId))
+      .innerJoin(ratingCriteria, eq(ratingCriteria.id, criterionScores.criterionId))
+      .where(and(eq(ratings.movieId, movieId), eq(ratings.userId, userId)));
+    return Object.fromEntries(rows.map((r) => [r.slug, r.score]));
   }
 
   async getMovieById(id: number): Promise<Movie | undefined> {
-    const result = await db.select().from(movies).where(eq(movies.id, id));
-    return result[0] || undefined;
+    const result = await this.db.select(movieColumns).from(movies).where(eq(movies.id, id));
+    if (result.length === 0) return undefined;
+    const [movie] = await this.attachGenres(result);
+    return movie;
   }
 
   async getRatingsForMovie(movieId: number): Promise<number[]> {
-    const result = await db
+    const result = await this.db
       .select({ score: ratings.score })
       .from(ratings)
       .where(eq(ratings.movieId, movieId))
@@ -60,21 +672,360 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.score);
   }
 
-  async addMovie(data: InsertMovie): Promise<Movie> {
-    const result = await db.insert(movies).values(data).returning();
+  async getRatingSummary(movieId: number): Promise<RatingSummary | undefined> {
+    const result = await this.db
+      .select({ ...ratingStatsReturning, ratingHistogram: movies.ratingHistogram })
+      .from(movies)
+      .where(eq(movies.id, movieId));
+    if (result.length === 0) return undefined;
+    const [r] = result;
+    return { avgRating: Number(r.avgRating), totalRatings: Number(r.totalRatings), ratingHistogram: r.ratingHistogram };
+  }
+
+  async addMovie({ genres: genreNames, ...data }: InsertMovie): Promise<Movie> {
+    return this.db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(movies).values(data).returning(movieColumns);
+      const movie = { ...inserted, genres: await this.setMovieGenres(tx, inserted.id, genreNames) };
+      await this.publish(tx, { type: "movie.created", movieId: movie.id }, movie);
+      return movie;
+    });
+  }
+
+  async updateMovie(id: number, { genres: genreNames, ...data }: UpdateMovie): Promise<Movie | undefined> {
+    return this.db.transaction(async (tx) => {
+      const result =
+        Object.keys(data).length > 0
+          ? await tx.update(movies).set(data).where(eq(movies.id, id)).returning(movieColumns)
+          : await tx.select(movieColumns).from(movies).where(eq(movies.id, id));
+      if (result.length === 0) return undefined;
+
+      const [movie] =
+        genreNames === undefined
+          ? await this.attachGenres(result, tx)
+          : [{ ...result[0], genres: await this.setMovieGenres(tx, id, genreNames) }];
+      await this.publish(tx, { type: "movie.updated", movieId: id }, movie);
+      return movie;
+    });
+  }
+
+  async deleteMovie(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // ratings (with their criterion scores and review votes), movie_genres
+      // and credits reference movies.id, so they go first.
+      const movieRatingIds = tx.select({ id: ratings.id }).from(ratings).where(eq(ratings.movieId, id));
+      await tx.delete(criterionScores).where(inArray(criterionScores.ratingId, movieRatingIds));
+      await tx.delete(reviewVotes).where(inArray(reviewVotes.ratingId, movieRatingIds));
+      await tx.delete(ratings).where(eq(ratings.movieId, id));
+      await tx.delete(movieGenres).where(eq(movieGenres.movieId, id));
+      await tx.delete(credits).where(eq(credits.movieId, id));
+      const result = await tx.delete(movies).where(eq(movies.id, id)).returning({ id: movies.id });
+      if (result.length === 0) return false;
+      await this.publish(tx, { type: "movie.deleted", movieId: id });
+      return true;
+    });
+  }
+
+  async setMoviePoster(id: number, posterKey: string | null): Promise<Movie | undefined> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx
+        .update(movies)
+        .set({ posterKey })
+        .where(eq(movies.id, id))
+        .returning(movieColumns);
+      if (result.length === 0) return undefined;
+      const [movie] = await this.attachGenres(result, tx);
+      await this.publish(tx, { type: "movie.updated", movieId: id }, movie);
+      return movie;
+    });
+  }
+
+  async listPeople({ q, limit }: PersonListQuery): Promise<Person[]> {
+    return this.db
+      .select()
+      .from(people)
+      .where(q === undefined ? undefined : ilike(people.name, containsPattern(q)))
+      .orderBy(asc(people.name), asc(people.id))
+      .limit(limit);
+  }
+
+  async getPerson(id: number): Promise<PersonDetail | undefined> {
+    const result = await this.db.select().from(people).where(eq(people.id, id));
+    if (result.length === 0) return undefined;
+
+    const rows = await this.db
+      .select({
+        credit: getTableColumns(credits),
+        movie: {
+          id: movies.id,
+          title: movies.title,
+          year: movies.year,
+          ratingCount: movies.ratingCount,
+          ratingSum: movies.ratingSum,
+        },
+      })
+      .from(credits)
+      .innerJoin(movies, eq(movies.id, credits.movieId))
+      .where(eq(credits.personId, id))
+      .orderBy(asc(credits.id));
+    return buildPersonDetail(result[0], rows);
+  }
+
+  async createPerson(data: InsertPerson): Promise<Person> {
+    const result = await this.db.insert(people).values(data).returning();
     return result[0];
   }
 
-  async addRating(movieId: number, score: number): Promise<{ avgRating: number; totalRatings: number }> {
-    await db.insert(ratings).values({ movieId, score });
+  async updatePerson(id: number, data: UpdatePerson): Promise<Person | undefined> {
+    const result =
+      Object.keys(data).length > 0
+        ? await this.db.update(people).set(data).where(eq(people.id, id)).returning()
+        : await this.db.select().from(people).where(eq(people.id, id));
+    return result[0];
+  }
 
-    const result = await db
+  async deletePerson(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(credits).where(eq(credits.personId, id));
+      const result = await tx.delete(people).where(eq(people.id, id)).returning({ id: people.id });
+      return result.length > 0;
+    });
+  }
+
+  async getMovieCredits(movieId: number): Promise<MovieCredit[]> {
+    // ASC puts NULLs (unbilled credits) last in Postgres.
+    return this.db
       .select({
-        avgRating: sql<number>`ROUND(AVG(${ratings.score})::numeric, 1)`,
-        totalRatings: sql<number>`COUNT(${ratings.id})::int`,
+        id: credits.id,
+        role: credits.role,
+        character: credits.character,
+        billingOrder: credits.billingOrder,
+        person: { id: people.id, name: people.name },
       })
+      .from(credits)
+      .innerJoin(people, eq(people.id, credits.personId))
+      .where(eq(credits.movieId, movieId))
+      .orderBy(asc(credits.billingOrder), asc(people.name), asc(credits.id));
+  }
+
+  async addCredit(data: InsertCredit): Promise<Credit> {
+    try {
+      const result = await this.db.insert(credits).values(data).returning();
+      return result[0];
+    } catch (err) {
+      throw isUniqueViolation(err) ? new DuplicateCreditError() : err;
+    }
+  }
+
+  async updateCredit(id: number, data: UpdateCredit): Promise<Credit | undefined> {
+    try {
+      const result =
+        Object.keys(data).length > 0
+          ? await this.db.update(credits).set(data).where(eq(credits.id, id)).returning()
+          : await this.db.select().from(credits).where(eq(credits.id, id));
+      return result[0];
+    } catch (err) {
+      throw isUniqueViolation(err) ? new DuplicateCreditError() : err;
+    }
+  }
+
+  async deleteCredit(id: number): Promise<boolean> {
+    const result = await this.db.delete(credits).where(eq(credits.id, id)).returning({ id: credits.id });
+    return result.length > 0;
+  }
+
+  async getUserRating(movieId: number, userId: number): Promise<number | undefined> {
+    const result = await this.db
+      .select({ score: ratings.score })
+      .from(ratings)
+      .where(and(eq(ratings.movieId, movieId), eq(ratings.userId, userId)));
+    return result[0]?.score;
+  }
+
+  async getReview(movieId: number, userId: number): Promise<Review | undefined> {
+    const rows = await this.db
+      .select(reviewColumnsFor(undefined))
       .from(ratings)
-      .where(eq(ratings.movieId, movieId));
+      .leftJoin(users, eq(users.id, ratings.userId))
+      .where(and(eq(ratings.movieId, movieId), eq(ratings.userId, userId), isNotNull(ratings.review)));
+    return rows[0] && toReview(rows[0]);
+  }
+
+  async listReviews(
+    movieId: number,
+    { sort, limit, cursor }: ReviewListQuery,
+    viewerId?: number,
+  ): Promise<ReviewListResponse> {
+    // Like movies.created_at, reviewed_at is compared at millisecond precision.
+    const sortKey =
+      sort === "newest"
+        ? sql`date_trunc('milliseconds', ${ratings.reviewedAt})`
+        : sql`${ratings.helpfulScore}`;
+
+    const conditions: SQL[] = [eq(ratings.movieId, movieId), isNotNull(ratings.review)];
+    if (cursor) {
+      const { value, id } = decodeReviewCursor(cursor, sort);
+      const cast = sql.raw(sort === "newest" ? "timestamp" : "double precision");
+      conditions.push(sql`(${sortKey}, ${ratings.id}) < (${value}::${cast}, ${id})`);
+    }
+
+    const rows = await this.db
+      .select(reviewColumnsFor(viewerId))
+      .from(ratings)
+      .leftJoin(users, eq(users.id, ratings.userId))
+      .where(and(...conditions))
+      .orderBy(desc(sortKey), desc(ratings.id))
+      .limit(limit + 1);
+    return toReviewPage(rows.map(toReview), limit, sort);
+  }
+
+  async voteOnReview(reviewId: number, userId: number, helpful: boolean): Promise<ReviewVoteResult | undefined> {
+    return this.db.transaction(async (tx) => {
+      const review = await this.lockReview(tx, reviewId);
+      if (!review) return undefined;
+      if (review.userId === userId) throw new OwnReviewVoteError();
+
+      const previous = await tx
+        .select({ helpful: reviewVotes.helpful })
+        .from(reviewVotes)
+        .where(and(eq(reviewVotes.ratingId, reviewId), eq(reviewVotes.userId, userId)));
+      await tx
+        .insert(reviewVotes)
+        .values({ ratingId: reviewId, userId, helpful })
+        .onConflictDoUpdate({ target: [reviewVotes.ratingId, reviewVotes.userId], set: { helpful } });
+
+      const totals = tallyVote(review, previous[0]?.helpful ?? null, helpful);
+      await tx.update(ratings).set(totals).where(eq(ratings.id, reviewId));
+      return { ...totals, userVote: helpful };
+    });
+  }
+
+  async retractReviewVote(reviewId: number, userId: number): Promise<ReviewVoteResult | undefined> {
+    return this.db.transaction(async (tx) => {
+      const review = await this.lockReview(tx, reviewId);
+      if (!review) return undefined;
+
+      const deleted = await tx
+        .delete(reviewVotes)
+        .where(and(eq(reviewVotes.ratingId, reviewId), eq(reviewVotes.userId, userId)))
+        .returning({ helpful: reviewVotes.helpful });
+      if (deleted.length === 0) return undefined;
+
+      const totals = tallyVote(review, deleted[0].helpful, null);
+      await tx.update(ratings).set(totals).where(eq(ratings.id, reviewId));
+      return { ...totals, userVote: null };
+    });
+  }
+
+  /**
+   * Locks a review's rating row so concurrent votes on it apply one at a
+   * time and its totals stay exact. Undefined unless the rating has a review.
+   */
+  private async lockReview(tx: Transaction, reviewId: number) {
+    const rows = await tx
+      .select({
+        userId: ratings.userId,
+        helpfulCount: ratings.helpfulCount,
+        notHelpfulCount: ratings.notHelpfulCount,
+      })
+      .from(ratings)
+      .where(and(eq(ratings.id, reviewId), isNotNull(ratings.review)))
+      .for("update");
+    return rows[0];
+  }
+
+  async addRating(movieId: number, score: number, userId?: number, details: RatingDetails = {}): Promise<RatingResult> {
+    const { criteria, ...review } = details;
+    return this.db.transaction(async (tx) => {
+      // Locking the movie row serializes concurrent raters of the same movie,
+      // so the aggregates and the stats returned to each caller stay exact.
+      await tx.select({ id: movies.id }).from(movies).where(eq(movies.id, movieId)).for("update");
+      const scores = criteria && resolveCriterionScores(criteria, await this.listCriteriaIn(tx));
+
+      let previousScore: number | null = null;
+      let ratingId: number;
+      if (userId === undefined) {
+        const [created] = await tx
+          .insert(ratings)
+          .values({ movieId, score, ...reviewChanges(undefined, review) })
+          .returning({ id: ratings.id });
+        ratingId = created.id;
+      } else {
+        const existing = await tx
+          .select({ id: ratings.id, score: ratings.score, review: ratings.review })
+          .from(ratings)
+          .where(and(eq(ratings.movieId, movieId), eq(ratings.userId, userId)));
+        previousScore = existing[0]?.score ?? null;
+        if (review.review === null && existing[0]) {
+          await tx.delete(reviewVotes).where(eq(reviewVotes.ratingId, existing[0].id));
+        }
+
+        const changes = reviewChanges(existing[0], review);
+        const [saved] = await tx
+          .insert(ratings)
+          .values({ movieId, userId, score, ...changes })
+          .onConflictDoUpdate({ target: [ratings.movieId, ratings.userId], set: { score, ...changes } })
+          .returning({ id: ratings.id });
+        ratingId = saved.id;
+      }
+
+      if (scores) {
+        await tx.delete(criterionScores).where(eq(criterionScores.ratingId, ratingId));
+        if (scores.length > 0) {
+          await tx.insert(criterionScores).values(scores.map((s) => ({ ...s, ratingId })));
+        }
+      }
+
+      const stats = await this.applyRatingChange(tx, movieId, previousScore, score);
+      const result = { ...stats, previousScore };
+      await this.publish(tx, { type: "rating.created", movieId, userId: userId ?? null, score, ...result });
+      return result;
+    });
+  }
+
+  async deleteRating(movieId: number, userId: number): Promise<RatingStats | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: movies.id }).from(movies).where(eq(movies.id, movieId)).for("update");
+
+      const rating = and(eq(ratings.movieId, movieId), eq(ratings.userId, userId));
+      const ratingIds = tx.select({ id: ratings.id }).from(ratings).where(rating);
+      await tx.delete(criterionScores).where(inArray(criterionScores.ratingId, ratingIds));
+      await tx.delete(reviewVotes).where(inArray(reviewVotes.ratingId, ratingIds));
+      const deleted = await tx
+        .delete(ratings)
+        .where(rating)
+        .returning({ score: ratings.score });
+      if (deleted.length === 0) return undefined;
+
+      const { score } = deleted[0];
+      const stats = await this.applyRatingChange(tx, movieId, score, null);
+      await this.publish(tx, { type: "rating.deleted", movieId, userId, score, ...stats });
+      return stats;
+    });
+  }
+
+  /** Moves one rating from `removed` to `added` (either may be null) in the movie's aggregates. */
+  private async applyRatingChange(
+    tx: Transaction,
+    movieId: number,
+    removed: number | null,
+    added: number | null,
+  ): Promise<RatingStats> {
+    let histogram: SQL = sql`${movies.ratingHistogram}`;
+    if (removed !== added) {
+      if (removed !== null) histogram = bumpHistogram(histogram, removed, -1);
+      if (added !== null) histogram = bumpHistogram(histogram, added, 1);
+    }
+
+    const countDelta = (added !== null ? 1 : 0) - (removed !== null ? 1 : 0);
+    const result = await tx
+      .update(movies)
+      .set({
+        ratingCount: sql`${movies.ratingCount} + ${countDelta}`,
+        ratingSum: sql`${movies.ratingSum} + ${(added ?? 0) - (removed ?? 0)}::float8`,
+        ratingHistogram: histogram,
+      })
+      .where(eq(movies.id, movieId))
+      .returning(ratingStatsReturning);
 
     return {
       avgRating: Number(result[0].avgRating),
@@ -82,54 +1033,1331 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async seedMovies(): Promise<void> {
-    const existing = await db.select({ id: movies.id }).from(movies).limit(1);
-    if (existing.length > 0) return;
-
-    const seedData: InsertMovie[] = [
-      { title: "The Godfather", year: 1972, genre: "Crime" },
-      { title: "Pulp Fiction", year: 1994, genre: "Crime" },
-      { title: "The Shawshank Redemption", year: 1994, genre: "Drama" },
-      { title: "Schindler's List", year: 1993, genre: "Drama" },
-      { title: "2001: A Space Odyssey", year: 1968, genre: "Sci-Fi" },
-      { title: "Blade Runner", year: 1982, genre: "Sci-Fi" },
-      { title: "Chinatown", year: 1974, genre: "Thriller" },
-      { title: "Mulholland Drive", year: 2001, genre: "Thriller" },
-      { title: "Singin' in the Rain", year: 1952, genre: "Musical" },
-      { title: "Sunset Boulevard", year: 1950, genre: "Drama" },
-    ];
-
-    await db.insert(movies).values(seedData);
-
-    const allMovies = await db.select().from(movies);
-    const sampleRatings = [
-      { movieId: allMovies[0].id, score: 5 },
-      { movieId: allMovies[0].id, score: 5 },
-      { movieId: allMovies[0].id, score: 4 },
-      { movieId: allMovies[1].id, score: 4 },
-      { movieId: allMovies[1].id, score: 5 },
-      { movieId: allMovies[2].id, score: 5 },
-      { movieId: allMovies[2].id, score: 5 },
-      { movieId: allMovies[2].id, score: 5 },
-      { movieId: allMovies[3].id, score: 5 },
-      { movieId: allMovies[3].id, score: 4 },
-      { movieId: allMovies[4].id, score: 4 },
-      { movieId: allMovies[4].id, score: 3 },
-      { movieId: allMovies[5].id, score: 4 },
-      { movieId: allMovies[5].id, score: 4 },
-      { movieId: allMovies[5].id, score: 5 },
-      { movieId: allMovies[6].id, score: 3 },
-      { movieId: allMovies[7].id, score: 4 },
-      { movieId: allMovies[7].id, score: 3 },
-      { movieId: allMovies[8].id, score: 5 },
-      { movieId: allMovies[8].id, score: 4 },
-      { movieId: allMovies[8].id, score: 5 },
-      { movieId: allMovies[9].id, score: 4 },
-      { movieId: allMovies[9].id, score: 3 },
-    ];
-
-    await db.insert(ratings).values(sampleRatings);
-  }
-}
-
-export const storage = new DatabaseStorage();
+  async recomputeRatingAggregates({ dryRun = false }: { dryRun?: boolean } = {}): Promise<RatingAggregateDrift[]> {
+    return this.db.transaction(async (tx) => {
+      // Block rating writes while comparing so nothing changes underneath us.
+      await tx.execute(sql`LOCK TABLE ${ratings} IN SHARE MODE`);
+      return this.rebuildRatingAggregates(tx, dryRun);
+    });
+  }
+
+  async getRatingScale(): Promise<RatingScale> {
+    return this.ratingScaleIn(this.db);
+  }
+
+  async adoptRatingScale(scale: RatingScale): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Like rescaleRatings, so no rating lands while the scale changes.
+      await tx.execute(sql`LOCK TABLE ${settings}, ${ratings}, ${criterionScores} IN EXCLUSIVE MODE`);
+      if (sameScale(await this.ratingScaleIn(tx), scale)) return true;
+      // Criterion scores belong to ratings, so no ratings means no scores.
+      if ((await tx.select({ id: ratings.id }).from(ratings).limit(1)).length > 0) return false;
+      await this.saveRatingScaleIn(tx, scale);
+      return true;
+    });
+  }
+
+  async rescaleRatings(to: RatingScale): Promise<RatingRescaleResult> {
+    return this.db.transaction(async (tx) => {
+      // Rating writes, and any other rescale, wait until every score and
+      // aggregate is on the new scale.
+      await tx.execute(sql`LOCK TABLE ${settings}, ${ratings}, ${criterionScores} IN EXCLUSIVE MODE`);
+      const from = await this.ratingScaleIn(tx);
+      const result: RatingRescaleResult = { from, to, ratings: 0, criterionScores: 0 };
+      if (sameScale(from, to)) return result;
+
+      const ratingScores = await tx.selectDistinct({ score: ratings.score }).from(ratings);
+      const ratingCases = rescaleCases(ratings.score, ratingScores.map((r) => r.score), from, to);
+      if (ratingCases) {
+        const updated = await tx
+          .update(ratings)
+          .set({ score: ratingCases.value })
+          .where(inArray(ratings.score, ratingCases.changed));
+        result.ratings = updated.rowCount ?? 0;
+      }
+
+      const criterionValues = await tx.selectDistinct({ score: criterionScores.score }).from(criterionScores);
+      const criterionCases = rescaleCases(criterionScores.score, criterionValues.map((r) => r.score), from, to);
+      if (criterionCases) {
+        const updated = await tx
+          .update(criterionScores)
+          .set({ score: criterionCases.value })
+          .where(inArray(criterionScores.score, criterionCases.changed));
+        result.criterionScores = updated.rowCount ?? 0;
+      }
+
+      await this.rebuildRatingAggregates(tx, false);
+      await this.saveRatingScaleIn(tx, to);
+      return result;
+    });
+  }
+
+  /** Rebuilds every movie's rating aggregates from its ratings; the caller locks ratings. */
+  private async rebuildRatingAggregates(tx: Transaction, dryRun: boolean): Promise<RatingAggregateDrift[]> {
+    const rows = await tx
+      .select({
+        id: movies.id,
+        title: movies.title,
+        storedCount: movies.ratingCount,
+        storedSum: movies.ratingSum,
+        storedHistogram: movies.ratingHistogram,
+        actualCount: sql<number>`COUNT(${ratings.id})::int`,
+        actualSum: sql<number>`COALESCE(SUM(${ratings.score}), 0)::float8`,
+      })
+      .from(movies)
+      .leftJoin(ratings, eq(ratings.movieId, movies.id))
+      .groupBy(movies.id)
+      .orderBy(asc(movies.id));
+
+    const histograms = new Map<number, Record<string, number>>();
+    const scoreCounts = await tx
+      .select({ movieId: ratings.movieId, score: ratings.score, count: sql<number>`COUNT(*)::int` })
+      .from(ratings)
+      .groupBy(ratings.movieId, ratings.score);
+    for (const { movieId, score, count } of scoreCounts) {
+      const histogram = histograms.get(movieId) ?? {};
+      histogram[histogramKey(score)] = Number(count);
+      histograms.set(movieId, histogram);
+    }
+
+    const drifts: RatingAggregateDrift[] = [];
+    for (const r of rows) {
+      const stored = { count: r.storedCount, sum: r.storedSum, histogram: r.storedHistogram };
+      const actual = { count: Number(r.actualCount), sum: Number(r.actualSum), histogram: histograms.get(r.id) ?? {} };
+      if (aggregatesEqual(stored, actual)) continue;
+
+      drifts.push({ movieId: r.id, title: r.title, stored, actual });
+      if (!dryRun) {
+        await tx
+          .update(movies)
+          .set({ ratingCount: actual.count, ratingSum: actual.sum, ratingHistogram: actual.histogram })
+          .where(eq(movies.id, r.id));
+      }
+    }
+    return drifts;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return this.db.select().from(webhooks).orderBy(asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const result = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return result[0];
+  }
+
+  async createWebhook(data: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(data).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, data: UpdateWebhook): Promise<Webhook | undefined> {
+    const changes = { ...definedFields(data), ...(data.active ? { consecutiveFailures: 0, disabledAt: null } : {}) };
+    if (Object.keys(changes).length === 0) return this.getWebhook(id);
+    const result = await this.db.update(webhooks).set(changes).where(eq(webhooks.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+      const result = await tx.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+      return result.length > 0;
+    });
+  }
+
+  async addWebhookDelivery(
+    webhookId: number,
+    event: string,
+    payload: Record<string, unknown>,
+    delayMs = 0,
+  ): Promise<WebhookDelivery> {
+    return this.db.transaction(async (tx) => {
+      const [delivery] = await tx
+        .insert(webhookDeliveries)
+        .values({ webhookId, event, payload, nextAttemptAt: sql`now() + ${delayMs} * interval '1 millisecond'` })
+        .returning();
+      await this.enqueueJobIn(tx, WEBHOOK_JOB, {}, { delayMs, key: WEBHOOK_JOB });
+      return delivery;
+    });
+  }
+
+  async listWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const result = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return result[0];
+  }
+
+  async claimWebhookDeliveries(limit: number, leaseMs: number): Promise<ClaimedDelivery[]> {
+    // SKIP LOCKED lets every process claim at once without waiting on, or
+    // double-claiming, each other's rows.
+    const due = this.db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+      .where(
+        and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, sql`now()`),
+          eq(webhooks.active, true),
+        ),
+      )
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit)
+      .for("update", { of: webhookDeliveries, skipLocked: true });
+    const claimed = await this.db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: sql`now() + ${leaseMs} * interval '1 millisecond'` })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+    if (claimed.length === 0) return [];
+
+    const hooks = await this.db
+      .select()
+      .from(webhooks)
+      .where(inArray(webhooks.id, claimed.map((d) => d.webhookId)));
+    return claimed
+      .sort((a, b) => a.id - b.id)
+      .map((delivery) => ({ delivery, webhook: hooks.find((h) => h.id === delivery.webhookId)! }));
+  }
+
+  async recordDeliveryAttempt(id: number, attempt: DeliveryAttempt): Promise<WebhookDelivery | undefined> {
+    return this.db.transaction(async (tx) => {
+      const failed = attempt.error !== null;
+      const result = await tx
+        .update(webhookDeliveries)
+        .set({
+          status: !failed ? "succeeded" : attempt.retryInMs === null ? "failed" : "pending",
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          lastAttemptAt: sql`now()`,
+          nextAttemptAt:
+            failed && attempt.retryInMs !== null
+              ? sql`now() + ${attempt.retryInMs} * interval '1 millisecond'`
+              : null,
+          responseStatus: attempt.responseStatus,
+          error: attempt.error,
+        })
+        .where(eq(webhookDeliveries.id, id))
+        .returning();
+      if (result.length === 0) return undefined;
+
+      const failures = sql`${webhooks.consecutiveFailures} + 1`;
+      await tx
+        .update(webhooks)
+        .set(
+          failed
+            ? {
+                consecutiveFailures: failures,
+                active: sql`${webhooks.active} AND ${failures} < ${attempt.disableAfter}`,
+                disabledAt: sql`CASE WHEN ${webhooks.active} AND ${failures} >= ${attempt.disableAfter} THEN now() ELSE ${webhooks.disabledAt} END`,
+              }
+            : { consecutiveFailures: 0 },
+        )
+        .where(eq(webhooks.id, result[0].webhookId));
+      return result[0];
+    });
+  }
+
+  async enqueueJob(
+    name: string,
+    payload: Record<string, unknown> = {},
+    options: EnqueueJobOptions = {},
+  ): Promise<Job | undefined> {
+    return this.enqueueJobIn(this.db, name, payload, options);
+  }
+
+  async claimJobs(maxAttempts: Record<string, number>, limit: number, leaseMs: number): Promise<Job[]> {
+    const limits = Object.entries(maxAttempts);
+    if (limits.length === 0) return [];
+    const leaseLapsed = and(eq(jobs.status, "running"), lte(jobs.lockedUntil, sql`now()`));
+    await this.db
+      .update(jobs)
+      .set({ status: "dead", lockedUntil: null, lastError: JOB_LEASE_LAPSED_ERROR, finishedAt: sql`now()` })
+      .where(and(leaseLapsed, or(...limits.map(([name, max]) => and(eq(jobs.name, name), gte(jobs.attempts, max))))));
+    const due = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(
+        or(
+          and(
+            inArray(jobs.name, limits.map(([name]) => name)),
+            eq(jobs.status, "pending"),
+            lte(jobs.runAt, sql`now()`),
+          ),
+          // A lease may lapse after the update above; those jobs wait for the next claim.
+          and(leaseLapsed, or(...limits.map(([name, max]) => and(eq(jobs.name, name), lt(jobs.attempts, max))))),
+        ),
+      )
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    const claimed = await this.db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedUntil: sql`now() + ${leaseMs} * interval '1 millisecond'`,
+      })
+      .where(inArray(jobs.id, due))
+      .returning();
+    return claimed.sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id);
+  }
+
+  async completeJob(id: number, attempt: number): Promise<Job | undefined> {
+    const result = await this.db
+      .update(jobs)
+      .set({ status: "succeeded", lockedUntil: null, finishedAt: sql`now()` })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.attempts, attempt)))
+      .returning();
+    return result[0];
+  }
+
+  async failJob(id: number, attempt: number, error: string, retryInMs: number | null): Promise<Job | undefined> {
+    const result = await this.db
+      .update(jobs)
+      .set(
+        retryInMs === null
+          ? { status: "dead", lockedUntil: null, lastError: error, finishedAt: sql`now()` }
+          : {
+              status: "pending",
+              lockedUntil: null,
+              lastError: error,
+              runAt: sql`now() + ${retryInMs} * interval '1 millisecond'`,
+            },
+      )
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.attempts, attempt)))
+      .returning();
+    return result[0];
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const result = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return result[0];
+  }
+
+  async listJobs({ status, name, limit }: JobListQuery): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(and(status ? eq(jobs.status, status) : undefined, name ? eq(jobs.name, name) : undefined))
+      .orderBy(desc(jobs.id))
+      .limit(limit);
+  }
+
+  async countJobs(): Promise<JobCounts[]> {
+    const rows = await this.db
+      .select({ name: jobs.name, status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.name, jobs.status);
+    return tallyJobs(rows);
+  }
+
+  async syncJobSchedules(schedules: JobScheduleDefinition[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const stored = await tx.select().from(jobSchedules).for("update");
+      const names = schedules.map((schedule) => schedule.name);
+      const gone = stored.filter((schedule) => !names.includes(schedule.name)).map((schedule) => schedule.name);
+      if (gone.length > 0) await tx.delete(jobSchedules).where(inArray(jobSchedules.name, gone));
+
+      const now = new Date();
+      for (const { name, cron } of schedules) {
+        if (stored.some((schedule) => schedule.name === name && schedule.cron === cron)) continue;
+        await tx
+          .insert(jobSchedules)
+          .values({ name, cron, nextRunAt: nextCronRun(cron, now) })
+          .onConflictDoUpdate({ target: jobSchedules.name, set: { cron, nextRunAt: nextCronRun(cron, now) } });
+      }
+    });
+  }
+
+  async listJobSchedules(): Promise<JobSchedule[]> {
+    return this.db.select().from(jobSchedules).orderBy(asc(jobSchedules.name));
+  }
+
+  async enqueueScheduledJobs(): Promise<Job[]> {
+    return this.db.transaction(async (tx) => {
+      // Schedules are compared with this process's clock, like the cron
+      // matches they were computed from.
+      const now = new Date();
+      const due = await tx
+        .select()
+        .from(jobSchedules)
+        .where(lte(jobSchedules.nextRunAt, now))
+        .for("update", { skipLocked: true });
+
+      const queued: Job[] = [];
+      for (const schedule of due) {
+        const job = await this.enqueueJobIn(tx, schedule.name, {}, { key: schedule.name });
+        if (job) queued.push(job);
+        await tx
+          .update(jobSchedules)
+          .set({ nextRunAt: nextCronRun(schedule.cron, now), lastRunAt: now })
+          .where(eq(jobSchedules.name, schedule.name));
+      }
+      return queued;
+    });
+  }
+
+  async pruneJobs(succeededMs: number, deadMs: number): Promise<number> {
+    const result = await this.db
+      .delete(jobs)
+      .where(
+        or(
+          and(eq(jobs.status, "succeeded"), lte(jobs.finishedAt, sql`now() - ${succeededMs} * interval '1 millisecond'`)),
+          and(eq(jobs.status, "dead"), lte(jobs.finishedAt, sql`now() - ${deadMs} * interval '1 millisecond'`)),
+        ),
+      )
+      .returning({ id: jobs.id });
+    return result.length;
+  }
+
+  async clearData(): Promise<void> {
+    await this.db.execute(
+      sql`TRUNCATE ${criterionScores}, ${ratingCriteria}, ${reviewVotes}, ${ratings}, ${movieGenres}, ${genres}, ${credits}, ${people}, ${movies}, ${users}, ${settings}, ${webhookDeliveries}, ${webhooks}, ${jobs} RESTART IDENTITY CASCADE`,
+    );
+    await this.saveRatingScaleIn(this.db, ratingScale());
+  }
+
+  /**
+   * Publishes `event` to the event bus and queues a delivery to every active
+   * webhook subscribed to it, with a job to send them, all only taking
+   * effect if `tx` commits.
+   */
+  private async publish(tx: Transaction, event: DomainEvent, movie?: Movie) {
+    await notify(tx, event);
+    const queued = await tx.execute(sql`
+      INSERT INTO ${webhookDeliveries} (webhook_id, event, payload)
+      SELECT ${webhooks.id}, ${event.type}, ${JSON.stringify(webhookData(event, movie))}::jsonb
+      FROM ${webhooks}
+      WHERE ${webhooks.active} AND ${event.type} = ANY(${webhooks.events})
+    `);
+    if (queued.rowCount) await this.enqueueJobIn(tx, WEBHOOK_JOB, {}, { key: WEBHOOK_JOB });
+  }
+
+  private async enqueueJobIn(
+    db: Database | Transaction,
+    name: string,
+    payload: Record<string, unknown>,
+    { delayMs = 0, key }: EnqueueJobOptions,
+  ): Promise<Job | undefined> {
+    const result = await db
+      .insert(jobs)
+      .values({ name, payload, key, runAt: sql`now() + ${delayMs} * interval '1 millisecond'` })
+      .onConflictDoNothing({ target: jobs.key, where: sql`status = 'pending' AND attempts = 0` })
+      .returning();
+    return result[0];
+  }
+
+  private async ratingScaleIn(db: Database | Transaction): Promise<RatingScale> {
+    const rows = await db.select({ value: settings.value }).from(settings).where(eq(settings.key, RATING_SCALE_SETTING));
+    return rows[0] ? ratingScaleSchema.parse(rows[0].value) : DEFAULT_RATING_SCALE;
+  }
+
+  private async saveRatingScaleIn(db: Database | Transaction, scale: RatingScale): Promise<void> {
+    await db
+      .insert(settings)
+      .values({ key: RATING_SCALE_SETTING, value: scale })
+      .onConflictDoUpdate({ target: settings.key, set: { value: scale } });
+  }
+
+  private async listCriteriaIn(db: Database | Transaction): Promise<RatingCriterion[]> {
+    return db.select().from(ratingCriteria).orderBy(asc(ratingCriteria.position), asc(ratingCriteria.name));
+  }
+
+  /** Matches movies (by their id column) tagged with the genre, given by name or slug. */
+  private hasGenre(movieId: AnyColumn, genre: string): SQL {
+    return exists(
+      this.db
+        .select({ one: sql`1` })
+        .from(movieGenres)
+        .innerJoin(genres, eq(genres.id, movieGenres.genreId))
+        .where(and(eq(movieGenres.movieId, movieId), eq(genres.slug, genreSlug(genre)))),
+    );
+  }
+
+  private async attachGenres<T extends { id: number }>(
+    rows: T[],
+    db: Database | Transaction = this.db,
+  ): Promise<(T & { genres: Genre[] })[]> {
+    if (rows.length === 0) return [];
+
+    const links = await db
+      .select({ movieId: movieGenres.movieId, genre: getTableColumns(genres) })
+      .from(movieGenres)
+      .innerJoin(genres, eq(genres.id, movieGenres.genreId))
+      .where(inArray(movieGenres.movieId, rows.map((r) => r.id)))
+      .orderBy(asc(genres.name));
+
+    return rows.map((row) => ({
+      ...row,
+      genres: links.filter((l) => l.movieId === row.id).map((l) => l.genre),
+    }));
+  }
+
+  /** Replaces the movie's genres, creating any that don't exist yet. */
+  private async setMovieGenres(tx: Transaction, movieId: number, genreNames: string[]): Promise<Genre[]> {
+    const bySlug = uniqueGenreNames(genreNames);
+    const slugs = Array.from(bySlug.keys());
+
+    await tx
+      .insert(genres)
+      .values(slugs.map((slug) => ({ slug, name: bySlug.get(slug)!, color: defaultGenreColor(slug) })))
+      .onConflictDoNothing({ target: genres.slug });
+    const resolved = await tx.select().from(genres).where(inArray(genres.slug, slugs)).orderBy(asc(genres.name));
+
+    await tx.delete(movieGenres).where(eq(movieGenres.movieId, movieId));
+    await tx.insert(movieGenres).values(resolved.map((g) => ({ movieId, genreId: g.id })));
+    return resolved;
+  }
+}
+
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private movies = new Map<number, Omit<Movie, "genres">>();
+  private genres = new Map<number, Genre>();
+  /** Genre ids per movie id, standing in for movie_genres. */
+  private movieGenreIds = new Map<number, number[]>();
+  private people = new Map<number, Person>();
+  private credits: Credit[] = [];
+  private ratings: Rating[] = [];
+  private reviewVotes: ReviewVote[] = [];
+  private criteria = new Map<number, RatingCriterion>();
+  private criterionScores: CriterionScore[] = [];
+  private ratingScale: RatingScale = ratingScale();
+  private webhooks = new Map<number, Webhook>();
+  private webhookDeliveries: WebhookDelivery[] = [];
+  private jobs: Job[] = [];
+  /** Like the job_schedules table, kept by clearData. */
+  private jobSchedules = new Map<string, JobSchedule>();
+  readonly events = new LocalEventBus();
+  private nextUserId = 1;
+  private nextMovieId = 1;
+  private nextGenreId = 1;
+  private nextCriterionId = 1;
+  private nextPersonId = 1;
+  private nextCreditId = 1;
+  private nextRatingId = 1;
+  private nextWebhookId = 1;
+  private nextDeliveryId = 1;
+  private nextJobId = 1;
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(data.username)) {
+      throw new Error(`duplicate key value violates unique constraint "users_username_unique"`);
+    }
+    const user: User = { id: this.nextUserId++, ...data, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getAllMovies(): Promise<MovieWithStats[]> {
+    return Array.from(this.movies.values())
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map((movie) => ({ ...movie, genres: this.genresFor(movie.id), ...this.ratingStats(movie.id) }));
+  }
+
+  async listMovies(query: MovieListQuery): Promise<MovieListResponse> {
+    const sign = resolveOrder(query) === "asc" ? 1 : -1;
+    const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+    const genre = query.genre === undefined ? undefined : genreSlug(query.genre);
+
+    const rows = (await this.getAllMovies())
+      .filter(
+        (m) =>
+          (genre === undefined || m.genres.some((g) => g.slug === genre)) &&
+          (query.yearFrom === undefined || m.year >= query.yearFrom) &&
+          (query.yearTo === undefined || m.year <= query.yearTo) &&
+          (query.minRating === undefined || m.avgRating >= query.minRating) &&
+          (query.minVotes === undefined || m.totalRatings >= query.minVotes) &&
+          (query.minRuntime === undefined || (m.runtimeMinutes !== null && m.runtimeMinutes >= query.minRuntime)) &&
+          (query.maxRuntime === undefined || (m.runtimeMinutes !== null && m.runtimeMinutes <= query.maxRuntime)) &&
+          (query.certification === undefined || (m.certification !== null && query.certification.includes(m.certification))),
+      )
+      .filter((m) => !cursor || sign * compareCursors(cursorFor(m, query.sort), cursor, query.sort) > 0)
+      .sort((a, b) => sign * compareCursors(cursorFor(a, query.sort), cursorFor(b, query.sort), query.sort));
+
+    return toPage(rows.slice(0, query.limit + 1), query);
+  }
+
+  async searchMovies(query: MovieSearchQuery): Promise<MovieSearchResult[]> {
+    const results: MovieSearchResult[] = [];
+    for (const movie of await this.getAllMovies()) {
+      const rank = rankTitle(query.q, movie.title);
+      if (rank !== null) {
+        results.push({ ...movie, rank, matches: highlightMatches(query.q, movie.title) });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank || a.title.localeCompare(b.title))
+      .slice(0, query.limit);
+  }
+
+  async getTopRated({ minVotes, genre, decade, limit }: TopChartOptions): Promise<TopChartResponse> {
+    const allScores = this.ratings.map((r) => r.score);
+    const globalMean = allScores.length > 0 ? allScores.reduce((a, b) => a + b, 0) / allScores.length : 0;
+
+    const entries = (await this.getAllMovies())
+      .filter(
+        (m) =>
+          m.totalRatings >= minVotes &&
+          (genre === undefined || m.genres.some((g) => g.slug === genreSlug(genre))) &&
+          (decade === undefined || (m.year >= decade && m.year <= decade + 9)),
+      )
+      .map((m) => {
+        const scores = this.scoresFor(m.id);
+        const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+        return { ...m, exact: bayesianScore(mean, scores.length, minVotes, globalMean) };
+      })
+      .sort((a, b) => b.exact - a.exact || b.totalRatings - a.totalRatings || a.title.localeCompare(b.title))
+      .slice(0, limit);
+
+    return {
+      minVotes,
+      globalMean: roundScore(globalMean),
+      items: entries.map(({ exact, ...m }) => ({ ...m, weightedScore: roundScore(exact) })),
+    };
+  }
+
+  async listGenres(): Promise<GenreWithStats[]> {
+    return Array.from(this.genres.values())
+      .sort(byName)
+      .map((genre) => {
+        const movieIds = Array.from(this.movies.keys()).filter((id) => this.movieGenreIds.get(id)!.includes(genre.id));
+        const scores = ([] as number[]).concat(...movieIds.map((id) => this.scoresFor(id)));
+        return { ...genre, movieCount: movieIds.length, avgRating: roundAverage(scores) };
+      });
+  }
+
+  async saveGenre(data: InsertGenre): Promise<Genre> {
+    const slug = genreSlug(data.name);
+    const existing = Array.from(this.genres.values()).find((g) => g.slug === slug);
+    const genre: Genre = { id: existing?.id ?? this.nextGenreId++, slug, name: data.name, color: data.color };
+    this.genres.set(genre.id, genre);
+    return genre;
+  }
+
+  async listCriteria(): Promise<RatingCriterion[]> {
+    return Array.from(this.criteria.values()).sort(compareCriteria);
+  }
+
+  async saveCriterion({ name, position }: InsertCriterion): Promise<RatingCriterion> {
+    const slug = criterionSlug(name);
+    const all = Array.from(this.criteria.values());
+    const existing = all.find((c) => c.slug === slug);
+    const criterion: RatingCriterion = {
+      id: existing?.id ?? this.nextCriterionId++,
+      slug,
+      name,
+      position: position ?? existing?.position ?? Math.max(-1, ...all.map((c) => c.position)) + 1,
+    };
+    this.criteria.set(criterion.id, criterion);
+    return criterion;
+  }
+
+  async deleteCriterion(id: number): Promise<boolean> {
+    if (!this.criteria.delete(id)) return false;
+    this.criterionScores = this.criterionScores.filter((s) => s.criterionId !== id);
+    return true;
+  }
+
+  async getCriterionAverages(movieId: number): Promise<CriterionAverage[]> {
+    const ratingIds = this.ratings.filter((r) => r.movieId === movieId).map((r) => r.id);
+    const totals = Array.from(this.criteria.keys()).map((criterionId) => {
+      const scores = this.criterionScores
+        .filter((s) => s.criterionId === criterionId && ratingIds.includes(s.ratingId))
+        .map((s) => s.score);
+      return { criterionId, sum: scores.reduce((a, b) => a + b, 0), count: scores.length };
+    });
+    return toCriterionAverages(await this.listCriteria(), totals);
+  }
+
+  async getUserCriterionScores(movieId: number, userId: number): Promise<CriterionScores> {
+    const rating = this.ratings.find((r) => r.movieId === movieId && r.userId === userId);
+    return Object.fromEntries(
+      this.criterionScores
+        .filter((s) => s.ratingId === rating?.id)
+        .map((s) => [this.criteria.get(s.criterionId)!.slug, s.score]),
+    );
+  }
+
+  async getMovieById(id: number): Promise<Movie | undefined> {
+    const movie = this.movies.get(id);
+    return movie && { ...movie, genres: this.genresFor(id) };
+  }
+
+  async getRatingsForMovie(movieId: number): Promise<number[]> {
+    // Newest first, matching DatabaseStorage's ORDER BY created_at DESC.
+    return this.ratings
+      .filter((r) => r.movieId === movieId)
+      .reverse()
+      .map((r) => r.score);
+  }
+
+  async getRatingSummary(movieId: number): Promise<RatingSummary | undefined> {
+    if (!this.movies.has(movieId)) return undefined;
+    const ratingHistogram: Record<string, number> = {};
+    this.scoresFor(movieId).forEach((score) => {
+      const key = histogramKey(score);
+      ratingHistogram[key] = (ratingHistogram[key] ?? 0) + 1;
+    });
+    return { ...this.ratingStats(movieId), ratingHistogram };
+  }
+
+  async addMovie({ genres: genreNames, ...data }: InsertMovie): Promise<Movie> {
+    const movie = { id: this.nextMovieId++, ...emptyMovieMetadata, ...definedFields(data), createdAt: new Date() };
+    this.movies.set(movie.id, movie);
+    this.movieGenreIds.set(movie.id, this.resolveGenres(genreNames));
+    const created = { ...movie, genres: this.genresFor(movie.id) };
+    this.publish({ type: "movie.created", movieId: movie.id }, created);
+    return created;
+  }
+
+  async updateMovie(id: number, { genres: genreNames, ...data }: UpdateMovie): Promise<Movie | undefined> {
+    const existing = this.movies.get(id);
+    if (!existing) return undefined;
+
+    const movie = { ...existing, ...definedFields(data) };
+    this.movies.set(id, movie);
+    if (genreNames !== undefined) this.movieGenreIds.set(id, this.resolveGenres(genreNames));
+    const updated = { ...movie, genres: this.genresFor(id) };
+    this.publish({ type: "movie.updated", movieId: id }, updated);
+    return updated;
+  }
+
+  async deleteMovie(id: number): Promise<boolean> {
+    if (!this.movies.delete(id)) return false;
+    this.movieGenreIds.delete(id);
+    this.credits = this.credits.filter((c) => c.movieId !== id);
+    const ratingIds = this.ratings.filter((r) => r.movieId === id).map((r) => r.id);
+    this.criterionScores = this.criterionScores.filter((s) => !ratingIds.includes(s.ratingId));
+    this.reviewVotes = this.reviewVotes.filter((v) => !ratingIds.includes(v.ratingId));
+    this.ratings = this.ratings.filter((r) => r.movieId !== id);
+    this.publish({ type: "movie.deleted", movieId: id });
+    return true;
+  }
+
+  async setMoviePoster(id: number, posterKey: string | null): Promise<Movie | undefined> {
+    const existing = this.movies.get(id);
+    if (!existing) return undefined;
+
+    const movie = { ...existing, posterKey };
+    this.movies.set(id, movie);
+    const updated = { ...movie, genres: this.genresFor(id) };
+    this.publish({ type: "movie.updated", movieId: id }, updated);
+    return updated;
+  }
+
+  async listPeople({ q, limit }: PersonListQuery): Promise<Person[]> {
+    const needle = q?.toLowerCase();
+    return Array.from(this.people.values())
+      .filter((p) => needle === undefined || p.name.toLowerCase().includes(needle))
+      .sort((a, b) => byName(a, b) || a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async getPerson(id: number): Promise<PersonDetail | undefined> {
+    const person = this.people.get(id);
+    if (!person) return undefined;
+
+    const rows = this.credits
+      .filter((c) => c.personId === id)
+      .map((credit) => {
+        const scores = this.scoresFor(credit.movieId);
+        return {
+          credit,
+          movie: {
+            ...this.movies.get(credit.movieId)!,
+            ratingCount: scores.length,
+            ratingSum: scores.reduce((a, b) => a + b, 0),
+          },
+        };
+      });
+    return buildPersonDetail(person, rows);
+  }
+
+  async createPerson(data: InsertPerson): Promise<Person> {
+    const person: Person = { id: this.nextPersonId++, ...data, createdAt: new Date() };
+    this.people.set(person.id, person);
+    return person;
+  }
+
+  async updatePerson(id: number, data: UpdatePerson): Promise<Person | undefined> {
+    const existing = this.people.get(id);
+    if (!existing) return undefined;
+
+    const person = { ...existing, ...data };
+    this.people.set(id, person);
+    return person;
+  }
+
+  async deletePerson(id: number): Promise<boolean> {
+    if (!this.people.delete(id)) return false;
+    this.credits = this.credits.filter((c) => c.personId !== id);
+    return true;
+  }
+
+  async getMovieCredits(movieId: number): Promise<MovieCredit[]> {
+    return this.credits
+      .filter((c) => c.movieId === movieId)
+      .map(({ movieId: _movieId, personId, ...credit }) => {
+        const { id, name } = this.people.get(personId)!;
+        return { ...credit, person: { id, name } };
+      })
+      .sort(
+        (a, b) =>
+          (a.billingOrder ?? Infinity) - (b.billingOrder ?? Infinity) ||
+          byName(a.person, b.person) ||
+          a.id - b.id,
+      );
+  }
+
+  async addCredit(data: InsertCredit): Promise<Credit> {
+    if (this.hasCredit(data.movieId, data.personId, data.role)) throw new DuplicateCreditError();
+
+    const credit: Credit = {
+      id: this.nextCreditId++,
+      ...data,
+      character: data.character ?? null,
+      billingOrder: data.billingOrder ?? null,
+    };
+    this.credits.push(credit);
+    return { ...credit };
+  }
+
+  async updateCredit(id: number, data: UpdateCredit): Promise<Credit | undefined> {
+    const credit = this.credits.find((c) => c.id === id);
+    if (!credit) return undefined;
+    if (data.role !== undefined && data.role !== credit.role && this.hasCredit(credit.movieId, credit.personId, data.role)) {
+      throw new DuplicateCreditError();
+    }
+
+    if (data.role !== undefined) credit.role = data.role;
+    if (data.character !== undefined) credit.character = data.character;
+    if (data.billingOrder !== undefined) credit.billingOrder = data.billingOrder;
+    return { ...credit };
+  }
+
+  async deleteCredit(id: number): Promise<boolean> {
+    const index = this.credits.findIndex((c) => c.id === id);
+    if (index === -1) return false;
+    this.credits.splice(index, 1);
+    return true;
+  }
+
+  async getUserRating(movieId: number, userId: number): Promise<number | undefined> {
+    return this.ratings.find((r) => r.movieId === movieId && r.userId === userId)?.score;
+  }
+
+  async getReview(movieId: number, userId: number): Promise<Review | undefined> {
+    const rating = this.ratings.find((r) => r.movieId === movieId && r.userId === userId);
+    return rating?.review ? this.toReview(rating) : undefined;
+  }
+
+  async listReviews(
+    movieId: number,
+    { sort, limit, cursor }: ReviewListQuery,
+    viewerId?: number,
+  ): Promise<ReviewListResponse> {
+    const after = cursor ? decodeReviewCursor(cursor, sort) : undefined;
+    const reviews = this.ratings
+      .filter((r) => r.movieId === movieId && r.review !== null)
+      .map((r) => this.toReview(r, viewerId))
+      .filter((review) => !after || isAfterReviewCursor(review, after, sort))
+      .sort((a, b) => compareReviews(a, b, sort));
+    return toReviewPage(reviews.slice(0, limit + 1), limit, sort);
+  }
+
+  async voteOnReview(reviewId: number, userId: number, helpful: boolean): Promise<ReviewVoteResult | undefined> {
+    const rating = this.ratings.find((r) => r.id === reviewId && r.review !== null);
+    if (!rating) return undefined;
+    if (rating.userId === userId) throw new OwnReviewVoteError();
+
+    const vote = this.reviewVotes.find((v) => v.ratingId === reviewId && v.userId === userId);
+    Object.assign(rating, tallyVote(rating, vote?.helpful ?? null, helpful));
+    if (vote) vote.helpful = helpful;
+    else this.reviewVotes.push({ ratingId: reviewId, userId, helpful, createdAt: new Date() });
+    return this.voteResult(rating, helpful);
+  }
+
+  async retractReviewVote(reviewId: number, userId: number): Promise<ReviewVoteResult | undefined> {
+    const rating = this.ratings.find((r) => r.id === reviewId && r.review !== null);
+    const index = this.reviewVotes.findIndex((v) => v.ratingId === reviewId && v.userId === userId);
+    if (!rating || index === -1) return undefined;
+
+    const [vote] = this.reviewVotes.splice(index, 1);
+    Object.assign(rating, tallyVote(rating, vote.helpful, null));
+    return this.voteResult(rating, null);
+  }
+
+  async addRating(movieId: number, score: number, userId?: number, details: RatingDetails = {}): Promise<RatingResult> {
+    const { criteria, ...review } = details;
+    const scores = criteria && resolveCriterionScores(criteria, await this.listCriteria());
+    const existing =
+      userId === undefined
+        ? undefined
+        : this.ratings.find((r) => r.movieId === movieId && r.userId === userId);
+    const previousScore = existing ? existing.score : null;
+    const changes = reviewChanges(existing, review);
+    if (review.review === null && existing) {
+      this.reviewVotes = this.reviewVotes.filter((v) => v.ratingId !== existing.id);
+    }
+
+    let rating = existing;
+    if (rating) {
+      Object.assign(rating, { score, ...changes });
+    } else {
+      rating = {
+        id: this.nextRatingId++,
+        movieId,
+        userId: userId ?? null,
+        score,
+        review: null,
+        spoiler: false,
+        reviewedAt: null,
+        helpfulCount: 0,
+        notHelpfulCount: 0,
+        helpfulScore: 0,
+        ...changes,
+        createdAt: new Date(),
+      };
+      this.ratings.push(rating);
+    }
+
+    if (scores) {
+      const ratingId = rating.id;
+      this.criterionScores = this.criterionScores
+        .filter((s) => s.ratingId !== ratingId)
+        .concat(scores.map((s) => ({ ...s, ratingId })));
+    }
+
+    const result = { ...this.ratingStats(movieId), previousScore };
+    this.publish({ type: "rating.created", movieId, userId: userId ?? null, score, ...result });
+    return result;
+  }
+
+  async deleteRating(movieId: number, userId: number): Promise<RatingStats | undefined> {
+    const index = this.ratings.findIndex((r) => r.movieId === movieId && r.userId === userId);
+    if (index === -1) return undefined;
+
+    const [rating] = this.ratings.splice(index, 1);
+    this.criterionScores = this.criterionScores.filter((s) => s.ratingId !== rating.id);
+    this.reviewVotes = this.reviewVotes.filter((v) => v.ratingId !== rating.id);
+    const stats = this.ratingStats(movieId);
+    this.publish({ type: "rating.deleted", movieId, userId, score: rating.score, ...stats });
+    return stats;
+  }
+
+  async clearData(): Promise<void> {
+    this.users.clear();
+    this.movies.clear();
+    this.genres.clear();
+    this.movieGenreIds.clear();
+    this.people.clear();
+    this.credits = [];
+    this.ratings = [];
+    this.reviewVotes = [];
+    this.criteria.clear();
+    this.criterionScores = [];
+    this.ratingScale = ratingScale();
+    this.webhooks.clear();
+    this.webhookDeliveries = [];
+    this.nextUserId = 1;
+    this.nextMovieId = 1;
+    this.nextGenreId = 1;
+    this.nextCriterionId = 1;
+    this.nextPersonId = 1;
+    this.nextCreditId = 1;
+    this.nextRatingId = 1;
+    this.jobs = [];
+    this.nextWebhookId = 1;
+    this.nextDeliveryId = 1;
+    this.nextJobId = 1;
+  }
+
+  async recomputeRatingAggregates(): Promise<RatingAggregateDrift[]> {
+    // Stats are always derived from the ratings themselves, so they can't drift.
+    return [];
+  }
+
+  async getRatingScale(): Promise<RatingScale> {
+    return this.ratingScale;
+  }
+
+  async adoptRatingScale(scale: RatingScale): Promise<boolean> {
+    if (!sameScale(this.ratingScale, scale) && this.ratings.length > 0) return false;
+    this.ratingScale = scale;
+    return true;
+  }
+
+  async rescaleRatings(to: RatingScale): Promise<RatingRescaleResult> {
+    const from = this.ratingScale;
+    const result: RatingRescaleResult = { from, to, ratings: 0, criterionScores: 0 };
+    if (sameScale(from, to)) return result;
+
+    for (const rating of this.ratings) {
+      const score = rescaleScore(rating.score, from, to);
+      if (score !== rating.score) result.ratings++;
+      rating.score = score;
+    }
+    for (const criterionScore of this.criterionScores) {
+      const score = rescaleScore(criterionScore.score, from, to);
+      if (score !== criterionScore.score) result.criterionScores++;
+      criterionScore.score = score;
+    }
+    this.ratingScale = to;
+    return result;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(data: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const webhook: Webhook = {
+      id: this.nextWebhookId++,
+      ...data,
+      active: true,
+      consecutiveFailures: 0,
+      disabledAt: null,
+      createdAt: new Date(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, data: UpdateWebhook): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing) return undefined;
+
+    const webhook = {
+      ...existing,
+      ...definedFields(data),
+      ...(data.active ? { consecutiveFailures: 0, disabledAt: null } : {}),
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    if (!this.webhooks.delete(id)) return false;
+    this.webhookDeliveries = this.webhookDeliveries.filter((d) => d.webhookId !== id);
+    return true;
+  }
+
+  async addWebhookDelivery(
+    webhookId: number,
+    event: string,
+    payload: Record<string, unknown>,
+    delayMs = 0,
+  ): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: this.nextDeliveryId++,
+      webhookId,
+      event,
+      // Stored as JSON, the way the jsonb column would, so dates read back as strings.
+      payload: JSON.parse(JSON.stringify(payload)),
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + delayMs),
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.push(delivery);
+    this.queueJob(WEBHOOK_JOB, {}, { delayMs, key: WEBHOOK_JOB });
+    return { ...delivery };
+  }
+
+  async listWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveries
+      .filter((d) => d.webhookId === webhookId)
+      .reverse()
+      .slice(0, limit)
+      .map((d) => ({ ...d }));
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.find((d) => d.id === id);
+    return delivery && { ...delivery };
+  }
+
+  async claimWebhookDeliveries(limit: number, leaseMs: number): Promise<ClaimedDelivery[]> {
+    const now = Date.now();
+    return this.webhookDeliveries
+      .filter((d) => d.status === "pending" && d.nextAttemptAt!.getTime() <= now && this.webhooks.get(d.webhookId)!.active)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime() || a.id - b.id)
+      .slice(0, limit)
+      .sort((a, b) => a.id - b.id)
+      .map((delivery) => {
+        delivery.nextAttemptAt = new Date(now + leaseMs);
+        return { delivery: { ...delivery }, webhook: { ...this.webhooks.get(delivery.webhookId)! } };
+      });
+  }
+
+  async recordDeliveryAttempt(id: number, attempt: DeliveryAttempt): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.find((d) => d.id === id);
+    if (!delivery) return undefined;
+
+    const failed = attempt.error !== null;
+    const retrying = failed && attempt.retryInMs !== null;
+    Object.assign(delivery, {
+      status: !failed ? "succeeded" : retrying ? "pending" : "failed",
+      attempts: delivery.attempts + 1,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: retrying ? new Date(Date.now() + attempt.retryInMs!) : null,
+      responseStatus: attempt.responseStatus,
+      error: attempt.error,
+    });
+
+    const webhook = this.webhooks.get(delivery.webhookId)!;
+    if (!failed) {
+      webhook.consecutiveFailures = 0;
+    } else {
+      webhook.consecutiveFailures++;
+      if (webhook.active && webhook.consecutiveFailures >= attempt.disableAfter) {
+        webhook.active = false;
+        webhook.disabledAt = new Date();
+      }
+    }
+    return { ...delivery };
+  }
+
+  async enqueueJob(
+    name: string,
+    payload: Record<string, unknown> = {},
+    options: EnqueueJobOptions = {},
+  ): Promise<Job | undefined> {
+    const job = this.queueJob(name, payload, options);
+    return job && { ...job };
+  }
+
+  async claimJobs(maxAttempts: Record<string, number>, limit: number, leaseMs: number): Promise<Job[]> {
+    const now = Date.now();
+    const leaseLapsed = (job: Job) => job.status === "running" && job.lockedUntil!.getTime() <= now;
+    for (const job of this.jobs) {
+      if (job.name in maxAttempts && leaseLapsed(job) && job.attempts >= maxAttempts[job.name]) {
+        Object.assign(job, { status: "dead", lockedUntil: null, lastError: JOB_LEASE_LAPSED_ERROR, finishedAt: new Date() });
+      }
+    }
+    return this.jobs
+      .filter(
+        (job) =>
+          job.name in maxAttempts &&
+          ((job.status === "pending" && job.runAt.getTime() <= now) || leaseLapsed(job)),
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)
+      .slice(0, limit)
+      .map((job) => {
+        Object.assign(job, { status: "running", attempts: job.attempts + 1, lockedUntil: new Date(now + leaseMs) });
+        return { ...job };
+      });
+  }
+
+  async completeJob(id: number, attempt: number): Promise<Job | undefined> {
+    const job = this.heldJob(id, attempt);
+    if (!job) return undefined;
+    Object.assign(job, { status: "succeeded", lockedUntil: null, finishedAt: new Date() });
+    return { ...job };
+  }
+
+  async failJob(id: number, attempt: number, error: string, retryInMs: number | null): Promise<Job | undefined> {
+    const job = this.heldJob(id, attempt);
+    if (!job) return undefined;
+    Object.assign(
+      job,
+      retryInMs === null
+        ? { status: "dead", lockedUntil: null, lastError: error, finishedAt: new Date() }
+        : { status: "pending", lockedUntil: null, lastError: error, runAt: new Date(Date.now() + retryInMs) },
+    );
+    return { ...job };
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const job = this.jobs.find((j) => j.id === id);
+    return job && { ...job };
+  }
+
+  async listJobs({ status, name, limit }: JobListQuery): Promise<Job[]> {
+    return this.jobs
+      .filter((job) => (!status || job.status === status) && (!name || job.name === name))
+      .reverse()
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async countJobs(): Promise<JobCounts[]> {
+    return tallyJobs(this.jobs.map(({ name, status }) => ({ name, status, count: 1 })));
+  }
+
+  async syncJobSchedules(schedules: JobScheduleDefinition[]): Promise<void> {
+    const now = new Date();
+    const names = schedules.map((schedule) => schedule.name);
+    Array.from(this.jobSchedules.keys()).forEach((name) => {
+      if (!names.includes(name)) this.jobSchedules.delete(name);
+    });
+    for (const { name, cron } of schedules) {
+      if (this.jobSchedules.get(name)?.cron === cron) continue;
+      const lastRunAt = this.jobSchedules.get(name)?.lastRunAt ?? null;
+      this.jobSchedules.set(name, { name, cron, nextRunAt: nextCronRun(cron, now), lastRunAt });
+    }
+  }
+
+  async listJobSchedules(): Promise<JobSchedule[]> {
+    return Array.from(this.jobSchedules.values())
+      .sort(byName)
+      .map((schedule) => ({ ...schedule }));
+  }
+
+  async enqueueScheduledJobs(): Promise<Job[]> {
+    const now = new Date();
+    const queued: Job[] = [];
+    this.jobSchedules.forEach((schedule) => {
+      if (schedule.nextRunAt > now) return;
+      const job = this.queueJob(schedule.name, {}, { key: schedule.name });
+      if (job) queued.push({ ...job });
+      Object.assign(schedule, { nextRunAt: nextCronRun(schedule.cron, now), lastRunAt: now });
+    });
+    return queued;
+  }
+
+  async pruneJobs(succeededMs: number, deadMs: number): Promise<number> {
+    const now = Date.now();
+    const before = this.jobs.length;
+    this.jobs = this.jobs.filter(
+      (job) =>
+        !(job.status === "succeeded" && now - job.finishedAt!.getTime() >= succeededMs) &&
+        !(job.status === "dead" && now - job.finishedAt!.getTime() >= deadMs),
+    );
+    return before - this.jobs.length;
+  }
+
+  /** Adds a job unless one with the same key is waiting for its first attempt. */
+  private queueJob(name: string, payload: Record<string, unknown>, { delayMs = 0, key }: EnqueueJobOptions) {
+    if (key !== undefined && this.jobs.some((j) => j.key === key && j.status === "pending" && j.attempts === 0)) {
+      return undefined;
+    }
+    const job: Job = {
+      id: this.nextJobId++,
+      name,
+      payload: JSON.parse(JSON.stringify(payload)),
+      key: key ?? null,
+      status: "pending",
+      attempts: 0,
+      runAt: new Date(Date.now() + delayMs),
+      lockedUntil: null,
+      lastError: null,
+      createdAt: new Date(),
+      finishedAt: null,
+    };
+    this.jobs.push(job);
+    return job;
+  }
+
+  /** The job, if it is still running the claim that made `attempt`. */
+  private heldJob(id: number, attempt: number): Job | undefined {
+    return this.jobs.find((j) => j.id === id && j.status === "running" && j.attempts === attempt);
+  }
+
+  /** Hands `event` to the event bus and queues it for every active webhook subscribed to it. */
+  private publish(event: DomainEvent, movie?: Movie) {
+    const payload = webhookData(event, movie);
+    this.webhooks.forEach((webhook) => {
+      if (!webhook.active || !webhook.events.includes(event.type)) return;
+      void this.addWebhookDelivery(webhook.id, event.type, payload);
+    });
+    this.events.publish(event);
+  }
+
+  private genresFor(movieId: number): Genre[] {
+    return (this.movieGenreIds.get(movieId) ?? []).map((id) => this.genres.get(id)!).sort(byName);
+  }
+
+  /** Genre ids for the names, creating genres that don't exist yet. */
+  private resolveGenres(genreNames: string[]): number[] {
+    const ids: number[] = [];
+    uniqueGenreNames(genreNames).forEach((name, slug) => {
+      let genre = Array.from(this.genres.values()).find((g) => g.slug === slug);
+      if (!genre) {
+        genre = { id: this.nextGenreId++, slug, name, color: defaultGenreColor(slug) };
+        this.genres.set(genre.id, genre);
+      }
+      ids.push(genre.id);
+    });
+    return ids;
+  }
+
+  private hasCredit(movieId: number, personId: number, role: Credit["role"]): boolean {
+    return this.credits.some((c) => c.movieId === movieId && c.personId === personId && c.role === role);
+  }
+
+  private scoresFor(movieId: number): number[] {
+    return this.ratings.filter((r) => r.movieId === movieId).map((r) => r.score);
+  }
+
+  private toReview(rating: Rating, viewerId?: number): Review {
+    const author = rating.userId === null ? undefined : this.users.get(rating.userId);
+    const vote = this.reviewVotes.find((v) => v.ratingId === rating.id && v.userId === viewerId);
+    return toReview({
+      ...rating,
+      user: author ? { id: author.id, username: author.username } : null,
+      userVote: vote?.helpful ?? null,
+    });
+  }
+
+  private voteResult(rating: Rating, userVote: boolean | null): ReviewVoteResult {
+    const { helpfulCount, notHelpfulCount, helpfulScore } = rating;
+    return { helpfulCount, notHelpfulCount, helpfulScore, userVote };
+  }
+
+  private ratingStats(movieId: number): RatingStats {
+    const scores = this.scoresFor(movieId);
+    return {
+      avgRating: roundAverage(scores),
+      totalRatings: scores.length,
+    };
+  }
+}
+
+export function createStorage(
+  driver: string = process.env.STORAGE_DRIVER || "postgres",
+): IStorage {
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DatabaseStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected memory or postgres`);
+  }
+}
+
+let storage: IStorage | undefined;
+
+export function getStorage(): IStorage {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+}
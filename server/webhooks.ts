@@ -0,0 +1,133 @@
+import { createHmac, randomBytes } from "crypto";
+import type { Movie, PublicWebhook, Webhook, WebhookDelivery } from "@shared/schema";
+import type { DomainEvent } from "./events";
+import type { ClaimedDelivery, IStorage } from "./storage";
+
+// Every change a webhook subscribes to is queued as a delivery in the same
+// transaction as the change, along with a WEBHOOK_JOB background job (see
+// server/jobs.ts) that claims due deliveries and POSTs them:
+//
+//   POST <url>
+//   Content-Type: application/json
+//   X-Webhook-Event: rating.created
+//   X-Webhook-Delivery: 42
+//   X-Webhook-Timestamp: 1760000000
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed by the secret>
+//
+//   { "id": 42, "event": "rating.created", "createdAt": "...", "data": { ... } }
+//
+// Any 2xx answer is a success. Otherwise the delivery is retried with
+// exponential backoff, up to WEBHOOK_MAX_ATTEMPTS attempts, and a webhook
+// that fails WEBHOOK_DISABLE_AFTER attempts in a row is disabled. The job
+// also runs every minute to pick up retries as they fall due.
+
+export const WEBHOOK_JOB = "webhooks.deliver";
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_DISABLE_AFTER = 15;
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+/** Delay before the first retry; it doubles for each one after. */
+export const WEBHOOK_RETRY_BASE_MS = 30_000;
+
+/** How long a claimed delivery stays out of other workers' reach. */
+const CLAIM_LEASE_MS = WEBHOOK_TIMEOUT_MS * 3;
+
+export type WebhookPolicy = {
+  maxAttempts: number;
+  disableAfter: number;
+  timeoutMs: number;
+  /** The delay before retrying after attempt number `attempt` (from 1) failed. */
+  retryDelayMs(attempt: number): number;
+};
+
+export const defaultWebhookPolicy: WebhookPolicy = {
+  maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+  disableAfter: WEBHOOK_DISABLE_AFTER,
+  timeoutMs: WEBHOOK_TIMEOUT_MS,
+  retryDelayMs: (attempt) => WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1),
+};
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+export function toPublicWebhook({ secret: _secret, ...webhook }: Webhook): PublicWebhook {
+  return webhook;
+}
+
+/** The `data` of an event's deliveries: the event's fields, and for created or updated movies the movie. */
+export function webhookData(event: DomainEvent, movie?: Movie): Record<string, unknown> {
+  const { type: _type, ...data } = event;
+  return movie ? { ...data, movie } : data;
+}
+
+/** The value of X-Webhook-Signature for `body` sent at `timestamp` (Unix seconds). */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Sends one attempt of the delivery and records how it went. */
+export async function deliverWebhook(
+  storage: Pick<IStorage, "recordDeliveryAttempt">,
+  { delivery, webhook }: ClaimedDelivery,
+  policy: WebhookPolicy = defaultWebhookPolicy,
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "movie-rater-webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhook(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(policy.timeoutMs),
+    });
+    await res.body?.cancel();
+    responseStatus = res.status;
+    if (res.status < 200 || res.status >= 300) error = `HTTP ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempt = delivery.attempts + 1;
+  const recorded = await storage.recordDeliveryAttempt(delivery.id, {
+    responseStatus,
+    error,
+    retryInMs: attempt < policy.maxAttempts ? policy.retryDelayMs(attempt) : null,
+    disableAfter: policy.disableAfter,
+  });
+  return recorded ?? delivery;
+}
+
+export type WebhookDispatchOptions = {
+  /** Deliveries claimed, and sent in parallel, at a time. */
+  batchSize?: number;
+  policy?: WebhookPolicy;
+};
+
+/** Sends every delivery that is due, resolving once each has been attempted. */
+export async function dispatchWebhooks(
+  storage: Pick<IStorage, "claimWebhookDeliveries" | "recordDeliveryAttempt">,
+  { batchSize = 10, policy = defaultWebhookPolicy }: WebhookDispatchOptions = {},
+): Promise<void> {
+  let claimed: ClaimedDelivery[];
+  do {
+    claimed = await storage.claimWebhookDeliveries(batchSize, CLAIM_LEASE_MS);
+    await Promise.all(claimed.map((claim) => deliverWebhook(storage, claim, policy)));
+  } while (claimed.length === batchSize);
+}
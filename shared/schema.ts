@@ -1,45 +1,721 @@
-import { pgTable, serial, text, integer, timestamp } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, serial, text, integer, boolean, doublePrecision, timestamp, jsonb, unique, uniqueIndex, index, primaryKey, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+/** US (MPA) ratings; NR is "not rated". */
+export const movieCertifications = ["G", "PG", "PG-13", "R", "NC-17", "NR"] as const;
+export type MovieCertification = (typeof movieCertifications)[number];
+
+/** Ids of the movie on other sites, e.g. { imdb: "tt0068646", tmdb: 238 }. */
+export const externalIdsSchema = z
+  .object({
+    imdb: z.string().regex(/^tt\d{7,10}$/).optional(),
+    tmdb: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type ExternalIds = z.infer<typeof externalIdsSchema>;
+
+// search_vector is maintained by Postgres and never selected by the app; the
+// trigram index needs the pg_trgm extension (CREATE EXTENSION pg_trgm).
+//
+// The metadata columns are optional: original_language is an ISO 639-1 code
+// ("en") and country an ISO 3166-1 alpha-2 code ("US").
+//
+// poster_key names the uploaded poster's files (see server/posters.ts); it is
+// a hash of the image, so its URLs never change content and cache forever.
+//
+// rating_count, rating_sum and rating_histogram (how many ratings gave each
+// score, keyed by the score as text: { "4": 2, "4.5": 1 }, scores nobody gave
+// left out) are denormalized from ratings and updated in the same transaction
+// as every rating change; `npm run ratings:recompute` rebuilds them from
+// ratings.
 export const movies = pgTable("movies", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   year: integer("year").notNull(),
-  genre: text("genre").notNull(),
+  runtimeMinutes: integer("runtime_minutes"),
+  synopsis: text("synopsis"),
+  originalLanguage: text("original_language"),
+  country: text("country"),
+  certification: text("certification").$type<MovieCertification>(),
+  externalIds: jsonb("external_ids").$type<ExternalIds>().notNull().default({}),
+  posterKey: text("poster_key"),
   createdAt: timestamp("created_at").defaultNow(),
+  ratingCount: integer("rating_count").notNull().default(0),
+  ratingSum: doublePrecision("rating_sum").notNull().default(0),
+  ratingHistogram: jsonb("rating_histogram").$type<Record<string, number>>().notNull().default({}),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    (): SQL => sql`to_tsvector('english', ${movies.title})`,
+  ),
+}, (t) => [
+  index("movies_search_vector_idx").using("gin", t.searchVector),
+  index("movies_title_trgm_idx").using("gin", t.title.op("gin_trgm_ops")),
+]);
+
+// Genres are identified by slug (see server/genres.ts), so "Sci-Fi", "sci fi"
+// and "Science Fiction" all resolve to the same `sci-fi` record. color is a
+// #rrggbb hex used for the genre's badge.
+export const genres = pgTable("genres", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  color: text("color").notNull(),
 });
 
+export const movieGenres = pgTable("movie_genres", {
+  movieId: integer("movie_id").references(() => movies.id).notNull(),
+  genreId: integer("genre_id").references(() => genres.id).notNull(),
+}, (t) => [
+  primaryKey({ columns: [t.movieId, t.genreId] }),
+  index("movie_genres_genre_id_idx").on(t.genreId),
+]);
+
+// People are anyone credited on a movie. Names aren't unique: two people
+// can share one, so they are always referred to by id.
+export const people = pgTable("people", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const creditRoles = ["director", "writer", "producer", "actor", "composer", "cinematographer", "editor"] as const;
+export type CreditRole = (typeof creditRoles)[number];
+
+// One row per person per role on a movie, so a writer-director has two.
+// character only applies to actors; billing_order is the position in the
+// movie's credits (lowest first), null when unbilled.
+export const credits = pgTable("credits", {
+  id: serial("id").primaryKey(),
+  movieId: integer("movie_id").references(() => movies.id).notNull(),
+  personId: integer("person_id").references(() => people.id).notNull(),
+  role: text("role").$type<CreditRole>().notNull(),
+  character: text("character"),
+  billingOrder: integer("billing_order"),
+}, (t) => [
+  unique("credits_movie_person_role_unique").on(t.movieId, t.personId, t.role),
+  index("credits_person_id_idx").on(t.personId),
+]);
+
+// user_id is nullable so ratings recorded before accounts existed (and the
+// seed data) stay valid; Postgres treats NULLs as distinct in the unique key.
+// score is on the configured rating scale (see server/scale.ts), so it may
+// be fractional, e.g. 3.5 on a half-star scale.
+//
+// A rating may carry a written review: review is its Markdown body (stored
+// as written, sanitized when rendered) and reviewed_at is set whenever the
+// body changes. helpful_count and not_helpful_count tally review_votes, and
+// helpful_score is the Wilson lower bound of those counts (see
+// server/reviews.ts), stored so "most helpful" can be paged by it.
 export const ratings = pgTable("ratings", {
   id: serial("id").primaryKey(),
   movieId: integer("movie_id").references(() => movies.id).notNull(),
-  score: integer("score").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  score: doublePrecision("score").notNull(),
+  review: text("review"),
+  spoiler: boolean("spoiler").notNull().default(false),
+  reviewedAt: timestamp("reviewed_at"),
+  helpfulCount: integer("helpful_count").notNull().default(0),
+  notHelpfulCount: integer("not_helpful_count").notNull().default(0),
+  helpfulScore: doublePrecision("helpful_score").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => [
+  unique("ratings_movie_user_unique").on(t.movieId, t.userId),
+  index("ratings_movie_reviewed_at_idx").on(t.movieId, t.reviewedAt),
+]);
+
+// One vote per reader per review; a review is a rating with a body, so votes
+// hang off ratings.id.
+export const reviewVotes = pgTable("review_votes", {
+  ratingId: integer("rating_id").references(() => ratings.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  helpful: boolean("helpful").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => [
+  primaryKey({ columns: [t.ratingId, t.userId] }),
+]);
+
+// Dimensions a rating can score next to its overall score, e.g. story or
+// acting. Like genres they are identified by slug (see server/criteria.ts);
+// position orders them on the detail page, lowest first.
+export const ratingCriteria = pgTable("rating_criteria", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+});
+
+// A rating's per-criterion scores, on the same scale as ratings.score. Each
+// criterion is optional, so a rating may score any subset of them.
+export const criterionScores = pgTable("criterion_scores", {
+  ratingId: integer("rating_id").references(() => ratings.id).notNull(),
+  criterionId: integer("criterion_id").references(() => ratingCriteria.id).notNull(),
+  score: doublePrecision("score").notNull(),
+}, (t) => [
+  primaryKey({ columns: [t.ratingId, t.criterionId] }),
+  index("criterion_scores_criterion_id_idx").on(t.criterionId),
+]);
+
+// Server-wide values the stored data depends on, one row per key. The
+// "rating_scale" row records the scale ratings are stored on; it is missing
+// until the first rescale, meaning DEFAULT_RATING_SCALE.
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+});
+
+/** Storage events a webhook can subscribe to (see server/events.ts). */
+export const webhookEvents = [
+  "movie.created",
+  "movie.updated",
+  "movie.deleted",
+  "rating.created",
+  "rating.deleted",
+] as const;
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+// Outbound webhooks (see server/webhooks.ts). Every delivery is signed with
+// the webhook's secret. consecutive_failures counts failed attempts since the
+// last success; enough of them in a row disable the webhook (active false,
+// disabled_at set) until an admin turns it back on.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events").array().$type<WebhookEvent[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledAt: timestamp("disabled_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+// The delivery log: one row per event per webhook, queued in the transaction
+// that made the change. event is a WebhookEvent, or "ping" for test fires.
+// A pending delivery is due at next_attempt_at; a worker claiming it pushes
+// that out by a lease, so a crashed worker's claim lapses and it is retried.
+// response_status and error describe the latest attempt.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").references(() => webhooks.id).notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => [
+  index("webhook_deliveries_webhook_id_idx").on(t.webhookId, t.id),
+  index("webhook_deliveries_due_idx").on(t.nextAttemptAt).where(sql`${t.status} = 'pending'`),
+]);
+
+export const jobStatuses = ["pending", "running", "succeeded", "dead"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+// The background job queue (see server/jobs.ts). A pending job is due at
+// run_at; a worker claiming it marks it running until locked_until, after
+// which a crashed worker's job is claimed again. Failed attempts go back to
+// pending with a later run_at until the handler's attempts run out, and the
+// job is dead-lettered (status dead) for an admin to look at. last_error is
+// the latest failure. A key coalesces jobs: enqueueing is skipped while a
+// job with the same key is waiting for its first attempt.
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  key: text("key"),
+  status: text("status").$type<JobStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedUntil: timestamp("locked_until"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (t) => [
+  index("jobs_due_idx").on(t.runAt).where(sql`${t.status} = 'pending'`),
+  index("jobs_status_name_idx").on(t.status, t.name),
+  uniqueIndex("jobs_waiting_key_idx").on(t.key).where(sql`${t.status} = 'pending' AND ${t.attempts} = 0`),
+]);
+
+// Recurring jobs. Schedules are declared in code and synced here on boot;
+// next_run_at is claimed by one process at a time, so each run is enqueued
+// once however many processes there are.
+export const jobSchedules = pgTable("job_schedules", {
+  name: text("name").primaryKey(),
+  cron: text("cron").notNull(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(32),
+  password: z.string().min(8).max(128),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+/** The year of the earliest surviving film; no movie can be older. */
+export const FIRST_FILM_YEAR = 1888;
+
+/** Movie years run from FIRST_FILM_YEAR to the current year. */
+export function isValidYear(year: number): boolean {
+  return Number.isInteger(year) && year >= FIRST_FILM_YEAR && year <= new Date().getFullYear();
+}
+
 export const insertMovieSchema = createInsertSchema(movies, {
   title: z.string().min(1),
-  genre: z.string().min(1),
+  runtimeMinutes: z.number().int().min(1).max(1000).nullish(),
+  synopsis: z.string().trim().min(1).max(5000).nullish(),
+  originalLanguage: z.string().regex(/^[a-z]{2}$/).nullish(),
+  country: z.string().regex(/^[A-Z]{2}$/).nullish(),
+  certification: z.enum(movieCertifications).nullish(),
+  externalIds: externalIdsSchema.optional(),
+}).extend({
+  // Genre names (or slugs); unknown genres are created on the fly.
+  genres: z.array(z.string().trim().min(1).max(40).regex(/[A-Za-z0-9]/)).min(1).max(10),
+}).omit({
+  id: true,
+  // Set by POST /api/movies/:id/poster, never from a movie body.
+  posterKey: true,
+  createdAt: true,
+  ratingCount: true,
+  ratingSum: true,
+  ratingHistogram: true,
+});
+
+export const updateMovieSchema = insertMovieSchema.partial();
+
+export const insertGenreSchema = createInsertSchema(genres, {
+  name: z.string().trim().min(1).max(40),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+}).omit({
+  id: true,
+  slug: true,
+});
+
+export const insertCriterionSchema = createInsertSchema(ratingCriteria, {
+  name: z.string().trim().min(1).max(40).regex(/[A-Za-z0-9]/),
+  position: z.number().int().min(0).max(1000).optional(),
+}).omit({
+  id: true,
+  slug: true,
+});
+
+export const insertPersonSchema = createInsertSchema(people, {
+  name: z.string().trim().min(1).max(200),
 }).omit({
   id: true,
   createdAt: true,
 });
 
+export const updatePersonSchema = insertPersonSchema.partial();
+
+export const insertCreditSchema = createInsertSchema(credits, {
+  role: z.enum(creditRoles),
+  character: z.string().trim().min(1).max(200).nullish(),
+  billingOrder: z.number().int().min(0).max(10000).nullish(),
+}).omit({
+  id: true,
+});
+
+// A credit is added under its movie (POST /api/movies/:id/credits) and can't
+// move to another movie or person afterwards.
+export const movieCreditSchema = insertCreditSchema.omit({ movieId: true });
+export const updateCreditSchema = insertCreditSchema.omit({ movieId: true, personId: true }).partial();
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  url: z
+    .string()
+    .trim()
+    .max(2000)
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must be http or https"),
+  // Generated when left out.
+  secret: z.string().min(16).max(200).optional(),
+  events: z
+    .array(z.enum(webhookEvents))
+    .min(1)
+    .transform((events) => Array.from(new Set(events))),
+}).pick({
+  url: true,
+  secret: true,
+  events: true,
+});
+
+// Setting active to true re-enables a webhook that failed too often.
+export const updateWebhookSchema = insertWebhookSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const webhookDeliveryListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const jobListQuerySchema = z.object({
+  status: z.enum(jobStatuses).optional(),
+  name: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 export const insertRatingSchema = createInsertSchema(ratings).omit({
   id: true,
   createdAt: true,
 });
 
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertMovie = z.infer<typeof insertMovieSchema>;
-export type Movie = typeof movies.$inferSelect;
+export type UpdateMovie = z.infer<typeof updateMovieSchema>;
+/** Columns of movies that storage maintains itself and never exposes. */
+export type InternalMovieColumn =
+  | "searchVector"
+  | "ratingCount"
+  | "ratingSum"
+  | "ratingHistogram";
+export type InsertGenre = z.infer<typeof insertGenreSchema>;
+export type Genre = typeof genres.$inferSelect;
+export type InsertCriterion = z.infer<typeof insertCriterionSchema>;
+export type RatingCriterion = typeof ratingCriteria.$inferSelect;
+export type CriterionScore = typeof criterionScores.$inferSelect;
+export type Movie = Omit<typeof movies.$inferSelect, InternalMovieColumn> & {
+  genres: Genre[];
+};
+export type InsertPerson = z.infer<typeof insertPersonSchema>;
+export type UpdatePerson = z.infer<typeof updatePersonSchema>;
+export type Person = typeof people.$inferSelect;
+export type InsertCredit = z.infer<typeof insertCreditSchema>;
+export type UpdateCredit = z.infer<typeof updateCreditSchema>;
+export type Credit = typeof credits.$inferSelect;
 export type InsertRating = z.infer<typeof insertRatingSchema>;
 export type Rating = typeof ratings.$inferSelect;
+export type ReviewVote = typeof reviewVotes.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type Webhook = typeof webhooks.$inferSelect;
+/** A webhook as listed to admins; the secret is only shown when it is created. */
+export type PublicWebhook = Omit<Webhook, "secret">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+/** How many jobs of one name are in each status. */
+export type JobCounts = { name: string } & Record<JobStatus, number>;
 
 export type MovieWithStats = Movie & {
   avgRating: number;
   totalRatings: number;
 };
 
+export type GenreWithStats = Genre & {
+  movieCount: number;
+  avgRating: number;
+};
+
+export type GenreListResponse = {
+  items: GenreWithStats[];
+};
+
+export const movieSortFields = ["title", "year", "avgRating", "totalRatings", "createdAt"] as const;
+export type MovieSortField = (typeof movieSortFields)[number];
+
+// Query string for GET /api/movies. Values arrive as strings, hence coerce.
+export const movieListQuerySchema = z.object({
+  sort: z.enum(movieSortFields).default("title"),
+  // Defaults to asc for title and desc for everything else.
+  order: z.enum(["asc", "desc"]).optional(),
+  // A genre name or slug, e.g. "Sci-Fi" or "sci-fi".
+  genre: z.string().trim().min(1).optional(),
+  yearFrom: z.coerce.number().int().optional(),
+  yearTo: z.coerce.number().int().optional(),
+  // At most the rating scale's max (checked by the route).
+  minRating: z.coerce.number().min(0).optional(),
+  minVotes: z.coerce.number().int().min(0).optional(),
+  // Movies without a runtime are left out when either bound is set.
+  minRuntime: z.coerce.number().int().min(0).optional(),
+  maxRuntime: z.coerce.number().int().min(0).optional(),
+  // One or more certifications, comma-separated: "G,PG".
+  certification: z
+    .string()
+    .transform((value) => value.split(",").map((c) => c.trim()))
+    .pipe(z.array(z.enum(movieCertifications)).min(1))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+export type MovieListQuery = z.infer<typeof movieListQuerySchema>;
+
+export type MovieListResponse = {
+  items: MovieWithStats[];
+  /** Pass back as `cursor` to fetch the next page; null on the last page. */
+  nextCursor: string | null;
+};
+
+// Query string for POST /api/movies/import.
+export const movieImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const movieImportStatuses = ["created", "skipped", "error"] as const;
+export type MovieImportStatus = (typeof movieImportStatuses)[number];
+
+/** What happened to one row of an import; in a dry run, what would have. */
+export type MovieImportRow = {
+  /** Position in the import, from 1 for the first movie (the row under a CSV header). */
+  row: number;
+  status: MovieImportStatus;
+  title: string | null;
+  year: number | null;
+  /** The movie the row added, or the existing one it was skipped for; null in a dry run. */
+  movieId: number | null;
+  /** Set when the row was skipped for repeating an earlier row. */
+  duplicateOfRow: number | null;
+  /** Why an `error` row was rejected, one message per problem, e.g. "year: Required". */
+  errors: string[];
+};
+
+export type MovieImportReport = {
+  dryRun: boolean;
+  counts: Record<MovieImportStatus, number>;
+  /** CSV columns that aren't movie fields and were not read. */
+  ignoredColumns: string[];
+  rows: MovieImportRow[];
+};
+
+export const movieSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export type MovieSearchQuery = z.infer<typeof movieSearchQuerySchema>;
+
+/** Half-open character range [start, end) of a title to highlight. */
+export type SearchMatch = {
+  start: number;
+  end: number;
+};
+
+export type MovieSearchResult = MovieWithStats & {
+  rank: number;
+  matches: SearchMatch[];
+};
+
+export type MovieSearchResponse = {
+  items: MovieSearchResult[];
+};
+
+export const topChartQuerySchema = z.object({
+  // Defaults to the server's CHART_MIN_VOTES setting.
+  minVotes: z.coerce.number().int().min(1).max(1000).optional(),
+  // A genre name or slug, as for GET /api/movies.
+  genre: z.string().trim().min(1).optional(),
+  decade: z.coerce.number().int().min(1880).multipleOf(10).optional(),
+  limit: z.coerce.number().int().min(1).max(250).default(50),
+});
+
+export type TopChartQuery = z.infer<typeof topChartQuerySchema>;
+
+export type TopChartEntry = MovieWithStats & {
+  weightedScore: number;
+};
+
+export type TopChartResponse = {
+  minVotes: number;
+  /** Mean score across every rating, used as the Bayesian prior. */
+  globalMean: number;
+  items: TopChartEntry[];
+};
+
+// The scale scores are given on: every value from min to max in steps of
+// `step`, e.g. { min: 0.5, max: 5, step: 0.5 } for half stars. Clients draw
+// one star per point up to max. Configured with RATING_SCALE_MIN, _MAX and
+// _STEP (see server/scale.ts) and served by GET /api/config.
+export const ratingScaleSchema = z
+  .object({
+    min: z.number().positive(),
+    max: z.number().int().min(1).max(10),
+    // Whole or half stars, so the picker has one or two buttons per star.
+    step: z.number().refine((step): boolean => step === 1 || step === 0.5, { message: "step must be 1 or 0.5" }),
+  })
+  .refine((s) => s.min < s.max, { message: "min must be below max" })
+  .refine((s) => Number.isInteger(s.min / s.step), { message: "min must be a whole number of steps" });
+
+export type RatingScale = z.infer<typeof ratingScaleSchema>;
+
+export const DEFAULT_RATING_SCALE: RatingScale = { min: 1, max: 5, step: 1 };
+
+/** GET /api/config: the server settings clients render from. */
+export type AppConfig = {
+  ratingScale: RatingScale;
+};
+
+export type RatingStats = {
+  avgRating: number;
+  totalRatings: number;
+};
+
+/** A movie's stats with how many ratings gave each score, keyed by the score. */
+export type RatingSummary = RatingStats & {
+  ratingHistogram: Record<string, number>;
+};
+
+export type RatingResult = RatingStats & {
+  previousScore: number | null;
+};
+
+/**
+ * Messages of the /api/live WebSocket. Each names what changed and carries
+ * enough to patch cached queries: a created movie with its (empty) stats,
+ * an updated movie, a deleted movie's id, or a rating given or removed with
+ * the movie's new stats. The socket needs no login, so ratings say nothing
+ * about who gave them.
+ */
+export type LiveEvent =
+  | { type: "movie.created"; movie: MovieWithStats }
+  | { type: "movie.updated"; movie: Movie }
+  | { type: "movie.deleted"; movieId: number }
+  | ({ type: "rating.created"; movieId: number; score: number } & RatingStats)
+  | ({ type: "rating.deleted"; movieId: number; score: number } & RatingStats);
+
+// Optional review fields of POST /api/movies/:id/rate. Leaving `review` out
+// keeps the existing review; null removes it.
+export const reviewInputSchema = z.object({
+  review: z.string().trim().min(1).max(10000).nullish(),
+  spoiler: z.boolean().optional(),
+});
+
+export type ReviewInput = z.infer<typeof reviewInputSchema>;
+
+// Per-criterion scores of POST /api/movies/:id/rate, keyed by criterion name
+// or slug: { story: 4, acting: 5 }. When given they replace the rating's
+// earlier criterion scores ({} clears them); leaving them out keeps them.
+// Like the overall score each must be on the rating scale, which the route
+// checks.
+export const criterionScoresSchema = z.record(z.string().trim().min(1), z.number());
+
+export type CriterionScores = z.infer<typeof criterionScoresSchema>;
+
+/** Everything a rating carries besides its score. */
+export type RatingDetails = ReviewInput & {
+  criteria?: CriterionScores;
+};
+
+export type CriterionListResponse = {
+  items: RatingCriterion[];
+};
+
+/** A criterion with a movie's mean score on it; 0 when nobody has scored it. */
+export type CriterionAverage = RatingCriterion & {
+  avgScore: number;
+  totalScores: number;
+};
+
+export type Review = {
+  /** The id of the rating the review belongs to. */
+  id: number;
+  movieId: number;
+  score: number;
+  /** Markdown; render it sanitized. */
+  body: string;
+  spoiler: boolean;
+  reviewedAt: Date;
+  helpfulCount: number;
+  notHelpfulCount: number;
+  /** Wilson lower bound of the helpful share of votes; what "most helpful" sorts by. */
+  helpfulScore: number;
+  /** Null for ratings recorded without an account. */
+  user: { id: number; username: string } | null;
+  /** The signed-in reader's vote: true for helpful, false for not, null for none. */
+  userVote: boolean | null;
+};
+
+export const reviewVoteSchema = z.object({
+  helpful: z.boolean(),
+});
+
+export type ReviewVoteResult = Pick<Review, "helpfulCount" | "notHelpfulCount" | "helpfulScore" | "userVote">;
+
+export const reviewSortFields = ["newest", "helpful"] as const;
+export type ReviewSortField = (typeof reviewSortFields)[number];
+
+export const reviewListQuerySchema = z.object({
+  sort: z.enum(reviewSortFields).default("newest"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  cursor: z.string().min(1).optional(),
+});
+
+export type ReviewListQuery = z.infer<typeof reviewListQuerySchema>;
+
+export type ReviewListResponse = {
+  items: Review[];
+  nextCursor: string | null;
+};
+
 export type MovieDetail = MovieWithStats & {
-  ratings: number[];
+  ratingHistogram: RatingSummary["ratingHistogram"];
+  userRating: number | null;
+  /** The signed-in user's review of the movie, if they wrote one. */
+  userReview: Review | null;
+  /** Every criterion in position order, with the movie's averages. */
+  criteria: CriterionAverage[];
+  /** The signed-in user's criterion scores by slug; empty when logged out. */
+  userCriteria: CriterionScores;
+};
+
+export const personListQuerySchema = z.object({
+  // Case-insensitive substring of the name.
+  q: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type PersonListQuery = z.infer<typeof personListQuerySchema>;
+
+export type PersonListResponse = {
+  items: Person[];
+};
+
+/** A credit as listed on its movie's page. */
+export type MovieCredit = Omit<Credit, "movieId" | "personId"> & {
+  person: Pick<Person, "id" | "name">;
+};
+
+export type MovieCreditListResponse = {
+  items: MovieCredit[];
+};
+
+/** One movie in a person's filmography, with every role they had on it. */
+export type FilmographyEntry = RatingStats & {
+  movieId: number;
+  title: string;
+  year: number;
+  credits: Omit<Credit, "movieId" | "personId">[];
+};
+
+export type PersonDetail = Person & {
+  /** Newest first. */
+  filmography: FilmographyEntry[];
+  /** Mean of the average rating of each of their rated movies; 0 when none are rated. */
+  careerAvgRating: number;
+  ratedTitles: number;
 };